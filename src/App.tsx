@@ -1,6 +1,7 @@
 import { useAuth } from './contexts/AuthContext';
 import { Auth } from './components/Auth';
 import { CRM } from './components/CRM';
+import { PendingApproval } from './components/PendingApproval';
 
 function App() {
   const { user, loading } = useAuth();
@@ -17,6 +18,10 @@ function App() {
     return <Auth />;
   }
 
+  if (user.role === 'pending') {
+    return <PendingApproval />;
+  }
+
   return <CRM />;
 }
 
@@ -1,17 +1,19 @@
 import { useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { X } from 'lucide-react';
+import { FIELD_TYPES, columnTypeFor, hasOptions } from '../lib/fieldTypes';
 
 type AddFieldModalProps = {
   onClose: () => void;
   onSuccess: () => void;
 };
 
-const FIELD_TYPES = ['text', 'phone', 'url', 'email'];
+const toKey = (value: string) => value.toLowerCase().trim().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
 
 export function AddFieldModal({ onClose, onSuccess }: AddFieldModalProps) {
   const [label, setLabel] = useState('');
   const [type, setType] = useState('text');
+  const [optionsText, setOptionsText] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -31,6 +33,19 @@ export function AddFieldModal({ onClose, onSuccess }: AddFieldModalProps) {
       return;
     }
 
+    const optionLabels = Array.from(
+      new Set(
+        optionsText
+          .split(/[\n,]/)
+          .map((option) => option.trim())
+          .filter((option) => toKey(option))
+      )
+    );
+    if (hasOptions(type) && optionLabels.length === 0) {
+      setError('Add at least one option');
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -48,7 +63,7 @@ export function AddFieldModal({ onClose, onSuccess }: AddFieldModalProps) {
 
       const { error: columnError } = await supabase.rpc('add_lead_column', {
         column_name: fieldKey,
-        column_type: 'text',
+        column_type: columnTypeFor(type),
       });
 
       if (columnError) throw columnError;
@@ -59,6 +74,18 @@ export function AddFieldModal({ onClose, onSuccess }: AddFieldModalProps) {
 
       if (fieldError) throw fieldError;
 
+      if (hasOptions(type)) {
+        const { error: optionsError } = await supabase.from('lead_field_options').insert(
+          optionLabels.map((option, index) => ({
+            field_key: fieldKey,
+            key: toKey(option),
+            label: option,
+            position: index + 1,
+          }))
+        );
+        if (optionsError) throw optionsError;
+      }
+
       onSuccess();
     } catch (err) {
       console.error('Error adding field:', err);
@@ -110,11 +137,27 @@ export function AddFieldModal({ onClose, onSuccess }: AddFieldModalProps) {
               className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
             >
               {FIELD_TYPES.map(t => (
-                <option key={t} value={t}>{t}</option>
+                <option key={t.key} value={t.key}>{t.label}</option>
               ))}
             </select>
           </div>
 
+          {hasOptions(type) && (
+            <div>
+              <label htmlFor="options" className="block text-sm font-medium text-gray-300 mb-1">
+                Options
+              </label>
+              <textarea
+                id="options"
+                value={optionsText}
+                onChange={(e) => setOptionsText(e.target.value)}
+                rows={4}
+                placeholder={'One per line, e.g.\nSaaS\nAgency\nE-commerce'}
+                className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+              />
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm">
               {error}
@@ -1,7 +1,10 @@
 import { useMemo, useState } from 'react';
 import { supabase, LeadField } from '../lib/supabase';
 import { X } from 'lucide-react';
-import { isSelectField, AUTO_FIELDS } from '../lib/leadFieldConfig';
+import { AUTO_FIELDS } from '../lib/leadFieldConfig';
+import { describeRejected, validateFieldValue } from '../lib/fieldTypes';
+import { checkFieldRules, loadTakenValues } from '../lib/fieldRules';
+import { LeadFieldInput } from './LeadFieldInput';
 
 type OutreachOption = {
   key: string;
@@ -11,6 +14,7 @@ type OutreachOption = {
 type AddLeadModalProps = {
   fields: LeadField[];
   outreachOptions: OutreachOption[];
+  selectOptions?: Record<string, OutreachOption[]>;
   defaultOutreachMethod?: string | null;
   tableName?: 'leads' | 'temp_leads';
   onClose: () => void;
@@ -20,6 +24,7 @@ type AddLeadModalProps = {
 export function AddLeadModal({
   fields,
   outreachOptions,
+  selectOptions,
   defaultOutreachMethod,
   tableName = 'leads',
   onClose,
@@ -35,12 +40,14 @@ export function AddLeadModal({
     editableFields.forEach((field) => {
       if (field.field_key === 'outreach_method' && defaultOutreachMethod) {
         values[field.field_key] = defaultOutreachMethod;
+      } else if (field.field_key === 'pipeline_status') {
+        values[field.field_key] = selectOptions?.pipeline_status?.[0]?.key ?? '';
       } else {
         values[field.field_key] = '';
       }
     });
     return values;
-  }, [editableFields, defaultOutreachMethod]);
+  }, [editableFields, defaultOutreachMethod, selectOptions]);
 
   const [values, setValues] = useState<Record<string, string>>(initialValues);
   const [loading, setLoading] = useState(false);
@@ -54,8 +61,31 @@ export function AddLeadModal({
     e.preventDefault();
     setError('');
 
+    const payload: Record<string, string | null> = {};
+    const rejected: string[] = [];
+    editableFields.forEach((field) => {
+      const checked = validateFieldValue(field, values[field.field_key] ?? '', selectOptions?.[field.field_key]);
+      if (checked.ok) payload[field.field_key] = checked.value;
+      else rejected.push(checked.message);
+    });
+    if (rejected.length > 0) {
+      setError(describeRejected(rejected));
+      return;
+    }
+
     setLoading(true);
     try {
+      const taken = await loadTakenValues(editableFields);
+      editableFields.forEach((field) => {
+        const ruleError = checkFieldRules(field, payload[field.field_key] ?? null, null, taken);
+        if (ruleError) rejected.push(ruleError);
+      });
+      if (rejected.length > 0) {
+        setError(describeRejected(rejected));
+        setLoading(false);
+        return;
+      }
+
       const baseColumns = new Set([
         'name',
         'email',
@@ -77,12 +107,6 @@ export function AddLeadModal({
         }
       }
 
-      const payload: Record<string, string | null> = {};
-      editableFields.forEach((field) => {
-        const raw = values[field.field_key];
-        payload[field.field_key] = raw?.trim() ? raw.trim() : null;
-      });
-
       if (!payload.name) {
         payload.name = 'New Lead';
       }
@@ -132,51 +156,26 @@ export function AddLeadModal({
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            {editableFields.map((field) => {
-              const isSelect = isSelectField(field.field_key, field.type);
-              const value = values[field.field_key] ?? '';
-              const inputType =
-                field.type === 'email'
-                  ? 'email'
-                  : field.type === 'phone'
-                  ? 'tel'
-                  : field.type === 'url'
-                  ? 'url'
-                  : 'text';
-
-              return (
-                <div key={field.id} className="space-y-1">
-                  <label className="block text-sm font-medium text-gray-300">
-                    {field.label}
-                  </label>
-                  {isSelect ? (
-                    <select
-                      value={value}
-                      onChange={(e) => handleChange(field.field_key, e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
-                    >
-                      <option value="">-</option>
-                      {outreachOptions.map((option) => (
-                        <option key={option.key} value={option.key}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </select>
-                  ) : (
-                    <input
-                      type={inputType}
-                      value={value}
-                      onChange={(e) => handleChange(field.field_key, e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
-                    />
-                  )}
-                </div>
-              );
-            })}
+            {editableFields.map((field) => (
+              <div key={field.id} className="space-y-1">
+                <label className="block text-sm font-medium text-gray-300">
+                  {field.label}
+                  {field.required && <span className="text-red-400"> *</span>}
+                </label>
+                <LeadFieldInput
+                  field={field}
+                  value={values[field.field_key] ?? ''}
+                  options={
+                    field.field_key === 'outreach_method' ? outreachOptions : selectOptions?.[field.field_key] ?? []
+                  }
+                  onChange={(value) => handleChange(field.field_key, value)}
+                />
+              </div>
+            ))}
           </div>
 
           {error && (
-          <div className="bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm">
+          <div className="bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm whitespace-pre-line">
             {error}
           </div>
         )}
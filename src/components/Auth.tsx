@@ -3,18 +3,31 @@ import { useAuth } from '../contexts/AuthContext';
 import { Lock } from 'lucide-react';
 
 export function Auth() {
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [fullName, setFullName] = useState('');
   const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(false);
-  const { authenticate } = useAuth();
+  const { signIn, signUp } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setMessage('');
     setLoading(true);
 
     try {
-      await authenticate(password);
+      if (mode === 'signin') {
+        await signIn(email, password);
+      } else {
+        const signedIn = await signUp(email, password, fullName);
+        if (!signedIn) {
+          setMessage('Check your email to confirm your account, then sign in.');
+          setMode('signin');
+        }
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
       setPassword('');
@@ -23,6 +36,12 @@ export function Auth() {
     }
   };
 
+  const switchMode = () => {
+    setMode((prev) => (prev === 'signin' ? 'signup' : 'signin'));
+    setError('');
+    setMessage('');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-black via-gray-950 to-purple-950 flex items-center justify-center p-4">
       <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-lg p-8 w-full max-w-md">
@@ -33,9 +52,41 @@ export function Auth() {
         </div>
 
         <h1 className="text-2xl font-bold text-white mb-2 text-center">Shared CRM</h1>
-        <p className="text-gray-400 text-center mb-6">Enter the team password to access</p>
+        <p className="text-gray-400 text-center mb-6">
+          {mode === 'signin' ? 'Sign in to your account' : 'Create an account for your team'}
+        </p>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'signup' && (
+            <div>
+              <label htmlFor="fullName" className="block text-sm font-medium text-gray-300 mb-1">
+                Name
+              </label>
+              <input
+                id="fullName"
+                type="text"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+                placeholder="Your name"
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-1">
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+              placeholder="you@company.com"
+            />
+          </div>
           <div>
             <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-1">
               Password
@@ -46,7 +97,7 @@ export function Auth() {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               required
-              autoFocus
+              minLength={6}
               className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
               placeholder="Enter password"
             />
@@ -57,15 +108,24 @@ export function Auth() {
               {error}
             </div>
           )}
+          {message && (
+            <div className="bg-purple-950 border border-purple-800 text-purple-200 px-4 py-3 rounded-md text-sm">
+              {message}
+            </div>
+          )}
 
           <button
             type="submit"
             disabled={loading}
             className="w-full bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
           >
-            {loading ? 'Verifying...' : 'Enter'}
+            {loading ? 'Please wait...' : mode === 'signin' ? 'Sign In' : 'Create Account'}
           </button>
         </form>
+
+        <button onClick={switchMode} className="mt-4 w-full text-center text-sm text-gray-400 hover:text-white">
+          {mode === 'signin' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
       </div>
     </div>
   );
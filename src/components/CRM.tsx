@@ -1,15 +1,27 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { LogOut, X } from 'lucide-react';
+import { LogOut, User, X } from 'lucide-react';
 import { MasterLeads } from './MasterLeads';
 import { OutreachView } from './OutreachView';
 import { TempLeads } from './TempLeads';
+import { TasksView } from './TasksView';
 import { AddFieldModal } from './AddFieldModal';
 import { AddCategoryModal } from './AddCategoryModal';
-import { supabase } from '../lib/supabase';
+import { ManageStagesModal } from './ManageStagesModal';
+import { TeamModal } from './TeamModal';
+import { supabase, PipelineStage, Profile } from '../lib/supabase';
+import { loadTeam, profileLabel, roleLabel } from '../lib/team';
 import { Documentation } from './Documentation';
+import { ManageFieldOptionsModal } from './ManageFieldOptionsModal';
+import { FieldManagerModal } from './FieldManagerModal';
+import { LeadDetailPanel } from './LeadDetailPanel';
+import { CommentsPanel } from './CommentsPanel';
+import { TemplatesModal } from './TemplatesModal';
+import { CellFocus } from './GlideLeadGrid';
+import { SelectOption } from '../lib/dropdownCell';
+import { closeLeadDetail, leadIdFromHash, openLeadDetail } from '../lib/leadLink';
 
-type Tab = 'master' | 'temp' | 'docs' | string;
+type Tab = 'master' | 'tasks' | 'temp' | 'docs' | string;
 
 type OutreachMethod = {
   key: string;
@@ -17,11 +29,19 @@ type OutreachMethod = {
 };
 
 export function CRM() {
-  const { signOut } = useAuth();
+  const { user, isAdmin, canEdit, signOut } = useAuth();
   const [activeTab, setActiveTab] = useState<Tab>('master');
   const [showAddField, setShowAddField] = useState(false);
   const [showAddCategory, setShowAddCategory] = useState(false);
+  const [showStages, setShowStages] = useState(false);
+  const [showFieldOptions, setShowFieldOptions] = useState(false);
+  const [showFieldManager, setShowFieldManager] = useState(false);
+  const [showTeam, setShowTeam] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [focusCell, setFocusCell] = useState<CellFocus | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [detailLeadId, setDetailLeadId] = useState<string | null>(() => leadIdFromHash());
   const [methods, setMethods] = useState<OutreachMethod[]>([
     { key: 'email', label: 'Email' },
     { key: 'sms', label: 'SMS' },
@@ -29,11 +49,20 @@ export function CRM() {
     { key: 'linkedin', label: 'LinkedIn' },
     { key: 'phone', label: 'Phone' },
   ]);
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [team, setTeam] = useState<Profile[]>([]);
+  const [fieldOptions, setFieldOptions] = useState<Record<string, SelectOption[]>>({});
 
   const handleRefresh = () => {
     setRefreshKey(prev => prev + 1);
   };
 
+  useEffect(() => {
+    const handleHashChange = () => setDetailLeadId(leadIdFromHash());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
   const loadMethods = useCallback(async () => {
     try {
       const { data, error } = await supabase
@@ -68,6 +97,113 @@ export function CRM() {
     };
   }, [loadMethods]);
 
+  const loadStages = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pipeline_stages')
+        .select('*')
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      setStages(data || []);
+    } catch (error) {
+      console.error('Error loading pipeline stages:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStages();
+    const channel = supabase
+      .channel('pipeline-stages-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'pipeline_stages' },
+        () => {
+          loadStages();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadStages]);
+
+  const loadFieldOptions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_field_options')
+        .select('field_key,key,label,color')
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      const grouped: Record<string, SelectOption[]> = {};
+      (data || []).forEach((option: SelectOption & { field_key: string }) => {
+        (grouped[option.field_key] ??= []).push({ key: option.key, label: option.label, color: option.color });
+      });
+      setFieldOptions(grouped);
+    } catch (error) {
+      console.error('Error loading field options:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFieldOptions();
+    const channel = supabase
+      .channel('lead-field-options-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_field_options' },
+        () => {
+          loadFieldOptions();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadFieldOptions]);
+
+  const refreshTeam = useCallback(async () => {
+    try {
+      setTeam(await loadTeam());
+    } catch (error) {
+      console.error('Error loading team:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshTeam();
+    const channel = supabase
+      .channel('profiles-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'profiles' },
+        () => {
+          refreshTeam();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [refreshTeam]);
+
+  const ownerOptions = useMemo(
+    () =>
+      team
+        .filter((member) => member.role !== 'pending')
+        .map((member) => ({ key: member.id, label: profileLabel(member) })),
+    [team]
+  );
+
+  const detailSelectOptions = useMemo<Record<string, { key: string; label: string }[]>>(
+    () => ({ ...fieldOptions, pipeline_status: stages, owner_id: ownerOptions }),
+    [fieldOptions, stages, ownerOptions]
+  );
+
   const handleDeleteMethod = async (key: string, label: string) => {
     if (!confirm(`Delete "${label}" outreach method? Leads using it won't be deleted, but their outreach method will become unlinked.`)) return;
 
@@ -88,6 +224,7 @@ export function CRM() {
 
   const tabs: { id: Tab; label: string }[] = [
     { id: 'master', label: 'Master Leads' },
+    { id: 'tasks', label: 'Due Today' },
     ...methods.map((method) => ({ id: method.key, label: method.label })),
     { id: 'temp', label: 'Temp Import' },
     { id: 'docs', label: 'Documentation' },
@@ -105,17 +242,72 @@ export function CRM() {
                 Realtime On
               </div>
               <button
-                onClick={() => setShowAddCategory(true)}
-                className="px-4 py-2 bg-purple-900 text-white rounded-md hover:bg-purple-800 text-sm font-medium"
+                onClick={() => setShowComments(true)}
+                className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 text-sm font-medium"
               >
-                Add Category
+                Comments
               </button>
               <button
-                onClick={() => setShowAddField(true)}
-                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 text-sm font-medium"
+                onClick={() => setShowTemplates(true)}
+                className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 text-sm font-medium"
               >
-                Add New Lead Info
+                Templates
               </button>
+              {canEdit && (
+                <button
+                  onClick={() => setShowStages(true)}
+                  className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 text-sm font-medium"
+                >
+                  Stages
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => setShowFieldOptions(true)}
+                  className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 text-sm font-medium"
+                >
+                  Dropdowns
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => setShowAddCategory(true)}
+                  className="px-4 py-2 bg-purple-900 text-white rounded-md hover:bg-purple-800 text-sm font-medium"
+                >
+                  Add Category
+                </button>
+              )}
+              {isAdmin && (
+                <button
+                  onClick={() => setShowAddField(true)}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 text-sm font-medium"
+                >
+                  Add New Lead Info
+                </button>
+              )}
+              {isAdmin && (
+                <button
+                  onClick={() => setShowFieldManager(true)}
+                  className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 text-sm font-medium"
+                >
+                  Fields
+                </button>
+              )}
+              {isAdmin && (
+                <button
+                  onClick={() => setShowTeam(true)}
+                  className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-700 text-sm font-medium"
+                >
+                  Team
+                </button>
+              )}
+              {user && (
+                <div className="flex items-center gap-2 text-sm text-gray-300" title={user.email}>
+                  <User className="w-4 h-4" />
+                  <span>{profileLabel({ email: user.email, full_name: user.name })}</span>
+                  <span className="px-2 py-0.5 rounded-full bg-gray-800 text-xs text-gray-400">{roleLabel(user.role)}</span>
+                </div>
+              )}
               <button
                 onClick={() => signOut()}
                 className="flex items-center gap-2 px-4 py-2 text-gray-300 hover:text-white"
@@ -132,7 +324,7 @@ export function CRM() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <nav className="flex space-x-8">
             {tabs.map((tab) => {
-              const isOutreachTab = tab.id !== 'master' && tab.id !== 'temp';
+              const isOutreachTab = methods.some((method) => method.key === tab.id);
               return (
                 <div key={tab.id} className="relative flex items-center group">
                   <button
@@ -145,7 +337,7 @@ export function CRM() {
                   >
                     {tab.label}
                   </button>
-                  {isOutreachTab && (
+                  {isOutreachTab && isAdmin && (
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -166,21 +358,71 @@ export function CRM() {
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {activeTab === 'master' && (
-          <MasterLeads key={refreshKey} outreachOptions={methods} />
+          <MasterLeads
+            key={refreshKey}
+            outreachOptions={methods}
+            stageOptions={stages}
+            ownerOptions={ownerOptions}
+            fieldOptions={fieldOptions}
+            focusCell={focusCell}
+            onCellFocused={() => setFocusCell(null)}
+          />
         )}
-        {activeTab !== 'master' && activeTab !== 'temp' && activeTab !== 'docs' && (
+        {activeTab === 'tasks' && <TasksView ownerOptions={ownerOptions} />}
+        {activeTab !== 'master' && activeTab !== 'tasks' && activeTab !== 'temp' && activeTab !== 'docs' && (
           <OutreachView
             method={activeTab}
             label={methods.find((m) => m.key === activeTab)?.label || activeTab}
             outreachOptions={methods}
+            stageOptions={stages}
+            ownerOptions={ownerOptions}
+            fieldOptions={fieldOptions}
             key={refreshKey}
             onUpdate={handleRefresh}
           />
         )}
-        {activeTab === 'temp' && <TempLeads onImport={handleRefresh} outreachOptions={methods} />}
+        {activeTab === 'temp' && (
+          <TempLeads
+            onImport={handleRefresh}
+            outreachOptions={methods}
+            stageOptions={stages}
+            ownerOptions={ownerOptions}
+            fieldOptions={fieldOptions}
+          />
+        )}
         {activeTab === 'docs' && <Documentation />}
       </main>
 
+      {showComments && (
+        <CommentsPanel
+          onOpen={(thread) => {
+            setShowComments(false);
+            if (thread.field_key === null) {
+              openLeadDetail(thread.lead_id);
+              return;
+            }
+            setActiveTab('master');
+            setFocusCell({ leadId: thread.lead_id, fieldKey: thread.field_key, at: Date.now() });
+          }}
+          onClose={() => setShowComments(false)}
+        />
+      )}
+
+      {detailLeadId && (
+        <LeadDetailPanel
+          key={detailLeadId}
+          leadId={detailLeadId}
+          outreachOptions={methods}
+          selectOptions={detailSelectOptions}
+          onClose={() => {
+            closeLeadDetail();
+            setDetailLeadId(null);
+          }}
+        />
+      )}
+
+      {showTemplates && <TemplatesModal outreachOptions={methods} onClose={() => setShowTemplates(false)} />}
+
       {showAddField && (
         <AddFieldModal
           onClose={() => setShowAddField(false)}
@@ -191,6 +433,37 @@ export function CRM() {
         />
       )}
 
+      {showStages && (
+        <ManageStagesModal
+          stages={stages}
+          onClose={() => setShowStages(false)}
+          onChange={loadStages}
+        />
+      )}
+
+      {showFieldOptions && (
+        <ManageFieldOptionsModal
+          fieldOptions={fieldOptions}
+          onClose={() => setShowFieldOptions(false)}
+          onChange={loadFieldOptions}
+        />
+      )}
+
+      {showFieldManager && (
+        <FieldManagerModal
+          fieldOptions={fieldOptions}
+          onClose={() => setShowFieldManager(false)}
+          onChange={() => {
+            loadFieldOptions();
+            handleRefresh();
+          }}
+        />
+      )}
+
+      {showTeam && (
+        <TeamModal team={team} onClose={() => setShowTeam(false)} onChange={refreshTeam} />
+      )}
+
       {showAddCategory && (
         <AddCategoryModal
           onClose={() => setShowAddCategory(false)}
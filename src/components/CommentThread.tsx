@@ -0,0 +1,329 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase, LeadComment, LeadThread, Profile } from '../lib/supabase';
+import {
+  addComment,
+  deleteComment,
+  editComment,
+  findMentions,
+  loadThread,
+  setThreadResolved,
+  splitMentions,
+} from '../lib/comments';
+import { loadTeam, profileLabel } from '../lib/team';
+import { useAuth } from '../contexts/AuthContext';
+
+type CommentComposerProps = {
+  team: Profile[];
+  initial?: string;
+  placeholder?: string;
+  submitLabel: string;
+  disabled?: boolean;
+  /** Resolves to whether it was saved; the text is only cleared when it was */
+  onSubmit: (body: string, mentions: string[]) => Promise<boolean>;
+  onCancel?: () => void;
+};
+
+/** Textarea that suggests teammates after "@" */
+function CommentComposer({ team, initial = '', placeholder, submitLabel, disabled, onSubmit, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState(initial);
+  const [query, setQuery] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(/@([^\s@]*)$/);
+    setQuery(match ? match[1].toLowerCase() : null);
+  };
+
+  const suggestions =
+    query === null
+      ? []
+      : team.filter((member) => profileLabel(member).toLowerCase().startsWith(query)).slice(0, 6);
+
+  const insertMention = (member: Profile) => {
+    const input = inputRef.current;
+    const caret = input?.selectionStart ?? body.length;
+    const start = body.slice(0, caret).lastIndexOf('@');
+    const label = `@${profileLabel(member)} `;
+    const next = body.slice(0, start) + label + body.slice(caret);
+    setBody(next);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + label.length, start + label.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setSaving(true);
+    try {
+      if (await onSubmit(body.trim(), findMentions(body, team))) setBody('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative space-y-2">
+      <textarea
+        ref={inputRef}
+        value={body}
+        onChange={(e) => {
+          setBody(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+          if (e.key === 'Escape') setQuery(null);
+        }}
+        placeholder={placeholder ?? 'Write a comment, @ to mention a teammate'}
+        className="w-full h-20 bg-gray-950 border border-gray-800 rounded-md p-2 text-sm text-white"
+        disabled={disabled || saving}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-20 z-10 bg-gray-900 border border-gray-700 rounded-md shadow-lg">
+          {suggestions.map((member) => (
+            <button
+              key={member.id}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(member);
+              }}
+              className="block w-full text-left px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-800"
+            >
+              {profileLabel(member)}
+              <span className="text-xs text-gray-500"> {member.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={disabled || saving || !body.trim()}
+          className="px-3 py-1.5 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type CommentThreadProps = {
+  leadId: string;
+  /** Cell the thread is about; null for the thread about the whole lead */
+  fieldKey: string | null;
+};
+
+/** One lead's or cell's comment thread: comments with author and edits, resolve/reopen and a composer */
+export function CommentThread({ leadId, fieldKey }: CommentThreadProps) {
+  const { user, isAdmin, canEdit } = useAuth();
+  const [thread, setThread] = useState<LeadThread | null>(null);
+  const [team, setTeam] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTeam()
+      .then(setTeam)
+      .catch((err) => console.error('Failed to load team', err));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setThread(await loadThread(leadId, fieldKey));
+    } catch (err) {
+      console.error('Failed to load comments', err);
+      setError('Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId, fieldKey]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+    const channel = supabase
+      .channel(`comment-thread-${leadId}-${fieldKey ?? 'lead'}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_comments', filter: `lead_id=eq.${leadId}` },
+        () => {
+          refresh();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_threads', filter: `lead_id=eq.${leadId}` },
+        () => {
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leadId, fieldKey, refresh]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    try {
+      await action();
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+      return false;
+    }
+  };
+
+  const memberLabel = (id: string | null) =>
+    id && id === user?.id ? 'You' : profileLabel(team.find((member) => member.id === id));
+  const authorLabel = (comment: LeadComment) => (comment.author ? memberLabel(comment.author) : 'Imported note');
+
+  const renderBody = (body: string) =>
+    splitMentions(body, team).map((part, index) =>
+      part.mention ? (
+        <span key={index} className="text-purple-300 font-medium">
+          {part.text}
+        </span>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    );
+
+  const comments = thread?.comments ?? [];
+
+  return (
+    <div className="space-y-3">
+      {thread && (
+        <div className="flex items-center justify-between text-xs">
+          <span className={thread.resolved_at ? 'text-green-400' : 'text-gray-400'}>
+            {thread.resolved_at
+              ? `Resolved by ${memberLabel(thread.resolved_by)} · ${new Date(thread.resolved_at).toLocaleString()}`
+              : 'Open'}
+          </span>
+          {canEdit && (
+            <button
+              onClick={() =>
+                run(
+                  () => setThreadResolved(thread.id, !thread.resolved_at, user?.id ?? null),
+                  thread.resolved_at ? 'Failed to reopen thread' : 'Failed to resolve thread'
+                )
+              }
+              className="px-2 py-1 rounded-md bg-gray-800 text-gray-200 hover:bg-gray-700"
+            >
+              {thread.resolved_at ? 'Reopen' : 'Resolve'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {loading && <div className="text-sm text-gray-400">Loading...</div>}
+      {!loading && comments.length === 0 && <div className="text-sm text-gray-500">No comments yet</div>}
+
+      <ol className={`space-y-3 ${thread?.resolved_at ? 'opacity-70' : ''}`}>
+        {comments.map((comment) => {
+          const own = Boolean(user && comment.author === user.id);
+          return (
+            <li key={comment.id} className="border-l-2 border-yellow-600 pl-3">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-300">{authorLabel(comment)}</span>
+                <span className="text-gray-500">
+                  {new Date(comment.created_at).toLocaleString()}
+                  {comment.edited_at && (
+                    <button
+                      onClick={() => setHistoryId(historyId === comment.id ? null : comment.id)}
+                      className="ml-1 underline hover:text-gray-300"
+                      title={`Edited ${new Date(comment.edited_at).toLocaleString()}`}
+                    >
+                      (edited)
+                    </button>
+                  )}
+                </span>
+              </div>
+              {editingId === comment.id ? (
+                <div className="mt-1">
+                  <CommentComposer
+                    team={team}
+                    initial={comment.body}
+                    submitLabel="Save"
+                    onSubmit={(body, mentions) =>
+                      run(async () => {
+                        await editComment(comment.id, body, mentions);
+                        setEditingId(null);
+                      }, 'Failed to edit comment')
+                    }
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              ) : (
+                <div className="mt-1 text-sm text-white whitespace-pre-wrap break-words">{renderBody(comment.body)}</div>
+              )}
+              {historyId === comment.id && (
+                <ol className="mt-2 space-y-1">
+                  {comment.edits.map((edit, index) => (
+                    <li key={index} className="text-xs text-gray-500">
+                      <span className="text-gray-600">{new Date(edit.edited_at).toLocaleString()}: </span>
+                      <span className="line-through whitespace-pre-wrap">{edit.body}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {editingId !== comment.id && (own || isAdmin) && (
+                <div className="mt-1 flex gap-3 text-xs">
+                  {own && (
+                    <button onClick={() => setEditingId(comment.id)} className="text-gray-500 hover:text-white">
+                      Edit
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      if (!thread || !confirm('Delete this comment?')) return;
+                      run(() => deleteComment(comment, thread), 'Failed to delete comment');
+                    }}
+                    className="text-gray-500 hover:text-red-400"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {canEdit && (
+        <CommentComposer
+          team={team}
+          submitLabel={thread?.resolved_at ? 'Comment & reopen' : 'Comment'}
+          onSubmit={(body, mentions) =>
+            run(async () => {
+              await addComment(leadId, fieldKey, body, mentions);
+            }, 'Failed to add comment')
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { CommentThread } from './CommentThread';
+
+type CommentThreadModalProps = {
+  leadId: string;
+  fieldKey: string;
+  fieldLabel: string;
+  onClose: () => void;
+};
+
+export function CommentThreadModal({ leadId, fieldKey, fieldLabel, onClose }: CommentThreadModalProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 border border-gray-800 rounded-lg p-5 w-[480px] max-w-[90vw] max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-white">Comments</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            ✕
+          </button>
+        </div>
+        <div className="text-xs text-gray-400 mb-3">
+          {fieldLabel} ({fieldKey})
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          <CommentThread leadId={leadId} fieldKey={fieldKey} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { supabase, LeadThread } from '../lib/supabase';
+import { lastActivity, loadAllThreads } from '../lib/comments';
+import { useAuth } from '../contexts/AuthContext';
+
+type CommentsPanelProps = {
+  onOpen: (thread: LeadThread) => void;
+  onClose: () => void;
+};
+
+type StatusFilter = 'open' | 'resolved' | 'all';
+
+/** Field filter value for threads about the whole lead */
+const LEAD_THREAD = '__lead__';
+
+/** Local YYYY-MM-DD of a timestamp, to compare with the date inputs */
+const dayOf = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Every comment thread across leads, searchable and filterable by field, date, status and
+ * @mentions of you; click one to jump to its cell (or the lead, for whole-lead threads)
+ */
+export function CommentsPanel({ onOpen, onClose }: CommentsPanelProps) {
+  const { user } = useAuth();
+  const [threads, setThreads] = useState<LeadThread[]>([]);
+  const [fieldLabels, setFieldLabels] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [search, setSearch] = useState('');
+  const [fieldKey, setFieldKey] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('open');
+  const [mentionsMe, setMentionsMe] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const loadThreads = useCallback(async () => {
+    try {
+      setThreads(await loadAllThreads());
+    } catch (err) {
+      console.error('Failed to load comments', err);
+      setError('Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadFields = async () => {
+      try {
+        const { data, error: fieldsError } = await supabase.from('lead_fields').select('field_key,label');
+        if (fieldsError) throw fieldsError;
+        const labels: Record<string, string> = {};
+        (data || []).forEach((field: { field_key: string; label: string }) => {
+          labels[field.field_key] = field.label;
+        });
+        setFieldLabels(labels);
+      } catch (err) {
+        console.error('Failed to load fields', err);
+      }
+    };
+    loadFields();
+  }, []);
+
+  useEffect(() => {
+    loadThreads();
+    const channel = supabase
+      .channel('comments-panel')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_comments' }, () => {
+        loadThreads();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_threads' }, () => {
+        loadThreads();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadThreads]);
+
+  const fieldLabel = (key: string | null) => (key === null ? 'Whole lead' : fieldLabels[key] || key);
+  const leadLabel = (thread: LeadThread) => thread.lead?.name || thread.lead?.email || 'Unnamed lead';
+
+  const threadFields = useMemo(
+    () =>
+      Array.from(new Set(threads.map((thread) => thread.field_key).filter((key): key is string => key !== null))).sort(),
+    [threads]
+  );
+
+  const filtered = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return threads.filter((thread) => {
+      const comments = thread.comments ?? [];
+      if (comments.length === 0) return false;
+      if (status === 'open' && thread.resolved_at) return false;
+      if (status === 'resolved' && !thread.resolved_at) return false;
+      if (fieldKey === LEAD_THREAD ? thread.field_key !== null : fieldKey && thread.field_key !== fieldKey) return false;
+      if (mentionsMe && !comments.some((comment) => user && comment.mentions.includes(user.id))) return false;
+      const day = dayOf(lastActivity(thread));
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      if (!needle) return true;
+      return [...comments.map((comment) => comment.body), thread.lead?.name, thread.lead?.email].some((text) =>
+        text?.toLowerCase().includes(needle)
+      );
+    });
+  }, [threads, search, fieldKey, status, mentionsMe, from, to, user]);
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-[420px] max-w-[95vw] bg-gray-950 border-l border-gray-800 shadow-xl z-40 flex flex-col">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Comments</h3>
+          <div className="text-xs text-gray-400">
+            {filtered.length} thread{filtered.length === 1 ? '' : 's'}
+          </div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="px-5 py-4 border-b border-gray-800 space-y-2">
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search comments or leads"
+            className="w-full pl-8 pr-2 py-1.5 rounded-md bg-gray-900 border border-gray-700 text-white text-sm"
+          />
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={fieldKey}
+            onChange={(e) => setFieldKey(e.target.value)}
+            className="flex-1 px-2 py-1.5 rounded-md bg-gray-900 border border-gray-700 text-white text-sm"
+          >
+            <option value="">All fields</option>
+            <option value={LEAD_THREAD}>Whole lead</option>
+            {threadFields.map((key) => (
+              <option key={key} value={key}>
+                {fieldLabel(key)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as StatusFilter)}
+            className="px-2 py-1.5 rounded-md bg-gray-900 border border-gray-700 text-white text-sm"
+          >
+            <option value="open">Open</option>
+            <option value="resolved">Resolved</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="flex-1 px-2 py-1.5 rounded-md bg-gray-900 border border-gray-700 text-white text-sm"
+          />
+          to
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="flex-1 px-2 py-1.5 rounded-md bg-gray-900 border border-gray-700 text-white text-sm"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={mentionsMe} onChange={(e) => setMentionsMe(e.target.checked)} />
+          Mentioning me
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4">
+        {loading && <div className="text-sm text-gray-400">Loading...</div>}
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        {!loading && !error && filtered.length === 0 && (
+          <div className="text-sm text-gray-500">{threads.length === 0 ? 'No comments yet' : 'No comments match'}</div>
+        )}
+        <ul className="space-y-3">
+          {filtered.map((thread) => {
+            const comments = thread.comments ?? [];
+            const latest = comments[comments.length - 1];
+            return (
+              <li key={thread.id}>
+                <button
+                  onClick={() => onOpen(thread)}
+                  className={`w-full text-left border-l-2 pl-3 hover:bg-gray-900 rounded-r-md py-1 ${
+                    thread.resolved_at ? 'border-gray-600 opacity-70' : 'border-yellow-600'
+                  }`}
+                >
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-gray-300 truncate">
+                      {leadLabel(thread)} · {fieldLabel(thread.field_key)}
+                    </span>
+                    <span className="text-gray-500 shrink-0 ml-2">
+                      {new Date(lastActivity(thread)).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="mt-1 text-sm text-white whitespace-pre-wrap break-words line-clamp-3">
+                    {latest?.body}
+                  </div>
+                  <div className="mt-1 text-xs text-gray-500">
+                    {comments.length} comment{comments.length === 1 ? '' : 's'}
+                    {thread.resolved_at && ' · Resolved'}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
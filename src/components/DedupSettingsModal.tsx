@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { DEDUP_RULES, DEFAULT_DEDUP_CONFIG, DedupConfig, loadDedupConfig, saveDedupConfig } from '../lib/dedup';
+
+type DedupSettingsModalProps = {
+  onClose: () => void;
+};
+
+const percent = (value: number) => Math.round(value * 100);
+
+export function DedupSettingsModal({ onClose }: DedupSettingsModalProps) {
+  const [config, setConfig] = useState<DedupConfig>(loadDedupConfig);
+
+  const setRule = (key: string, patch: Partial<DedupConfig['rules'][string]>) =>
+    setConfig((prev) => ({ ...prev, rules: { ...prev.rules, [key]: { ...prev.rules[key], ...patch } } }));
+
+  const handleSave = () => {
+    saveDedupConfig(config);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Duplicate Matching</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {DEDUP_RULES.map((rule) => {
+            const settings = config.rules[rule.key];
+            return (
+              <div key={rule.key} className="flex items-center gap-2 text-sm text-gray-200">
+                <label className="flex-1 flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => setRule(rule.key, { enabled: e.target.checked })}
+                  />
+                  Match by {rule.label}
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={percent(settings.weight)}
+                  onChange={(e) => setRule(rule.key, { weight: Number(e.target.value) / 100 })}
+                  disabled={!settings.enabled}
+                  className="w-16 px-2 py-1 border border-gray-700 rounded-md bg-gray-900 text-white text-sm disabled:opacity-50"
+                />
+                <span className="text-gray-400">%</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3 mb-6 text-sm text-gray-200">
+          <label className="flex items-center justify-between gap-2">
+            Report matches at or above
+            <span className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={percent(config.threshold)}
+                onChange={(e) => setConfig((prev) => ({ ...prev, threshold: Number(e.target.value) / 100 }))}
+                className="w-16 px-2 py-1 border border-gray-700 rounded-md bg-gray-900 text-white text-sm"
+              />
+              <span className="text-gray-400">%</span>
+            </span>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Default phone country code
+            <span className="flex items-center gap-1">
+              <span className="text-gray-400">+</span>
+              <input
+                type="text"
+                value={config.defaultCountryCode}
+                onChange={(e) =>
+                  setConfig((prev) => ({ ...prev, defaultCountryCode: e.target.value.replace(/\D/g, '') }))
+                }
+                className="w-16 px-2 py-1 border border-gray-700 rounded-md bg-gray-900 text-white text-sm"
+              />
+            </span>
+          </label>
+          <div className="text-xs text-gray-400">
+            A rule’s percentage is the confidence of an exact match; similar names score proportionally less.
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2">
+          <button
+            onClick={() => setConfig(DEFAULT_DEDUP_CONFIG)}
+            className="px-4 py-2 text-sm text-gray-300 hover:text-white"
+          >
+            Reset to defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!config.defaultCountryCode}
+            className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
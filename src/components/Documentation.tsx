@@ -8,12 +8,114 @@ export function Documentation() {
         <div className="text-sm text-gray-300">
           Master is the single source of truth. All outreach tabs read/write the same leads.
         </div>
+        <div className="text-sm text-gray-300">
+          “Find duplicates” groups leads that look like the same business, using the duplicate matching settings from the Temp tab. For each group, pick the lead to keep and click the values it should end up with; its channels, activity, tasks and comment threads are combined and the other leads are deleted. Undo reverses the whole merge, except for fields on the kept lead that someone has edited since, and channels it gained whose status has changed since; those keep the newer value.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Accounts &amp; Roles</h3>
+        <div className="text-sm text-gray-300">
+          Everyone signs in with their own email and password; the header shows who is logged in and their role.
+        </div>
+        <div className="text-sm text-gray-300">
+          New accounts wait for an admin to approve them before they see any data. Viewers can read everything. Reps can also edit leads, temp leads, stages and channels. Admins can additionally add lead info columns, delete outreach tabs and change roles from “Team”.
+        </div>
       </section>
 
       <section className="space-y-2">
         <h3 className="text-lg font-semibold">Outreach Tabs</h3>
         <div className="text-sm text-gray-300">
-          Each outreach tab filters by the Outreach Method. Any edit here updates Master and vice versa.
+          Each outreach tab shows the leads that belong to that channel. Any edit here updates Master and vice versa.
+        </div>
+        <div className="text-sm text-gray-300">
+          A lead can be in several channels at once. Pick them in the Outreach Method cell; the first one is the primary channel. Each channel shows its latest logged status next to its name.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Lead Owners</h3>
+        <div className="text-sm text-gray-300">
+          Assign a lead to a teammate from the Owner column, or select rows and use “Assign to…” in the bulk bar. Assignments can be undone like any other edit.
+        </div>
+        <div className="text-sm text-gray-300">
+          “My leads” in any tab shows only the leads assigned to you. The toggle is remembered per tab.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Pipeline Stages</h3>
+        <div className="text-sm text-gray-300">
+          Every lead has a Pipeline Status picked from a dropdown in the grid. Use “Stages” in the header to add, rename, reorder or delete stages.
+        </div>
+        <div className="text-sm text-gray-300">
+          Each outreach tab shows how many of its leads sit in each stage.
+        </div>
+        <div className="text-sm text-gray-300">
+          Switch an outreach tab to “Board” to see its leads as cards by stage. Dragging a card to another column updates its stage and logs the move in its activity.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Activity Log</h3>
+        <div className="text-sm text-gray-300">
+          Select a single row and click “Activity” to open its timeline. Every touch (sent, replied, booked…) is kept as its own event.
+        </div>
+        <div className="text-sm text-gray-300">
+          On an outreach tab, select rows and use “Log touch” to record the same touch for all of them on that channel.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Message Templates</h3>
+        <div className="text-sm text-gray-300">
+          “Templates” in the header holds the team’s outreach messages, grouped by channel. Write a subject (optional) and message using placeholders such as {'{{name}}'}, {'{{website}}'} or any field’s key; “Insert field” adds one where the cursor is. Placeholders that don’t match a field are flagged and left as written.
+        </div>
+        <div className="text-sm text-gray-300">
+          On an outreach tab, select leads and click “Messages” to fill a template in for each of them. Select fields read as their labels. Leads missing a value the template uses are marked with the fields they lack; by default they’re left out when you copy all messages or export the CSV mail-merge file (name, email, phone, subject and message per lead). Each preview can also be copied on its own.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Lead Details</h3>
+        <div className="text-sm text-gray-300">
+          Select a single row and click “Details” to open the whole lead in a side panel: every field as a form, its tasks, its comments, its activity timeline and its change history. The page address changes to #lead/… — use “Copy link” to send a teammate straight to that lead. Edits saved from the panel can be undone from the Master or Temp grid.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Tasks &amp; Follow-ups</h3>
+        <div className="text-sm text-gray-300">
+          Add follow-up tasks (“call back Tuesday”, “send proposal”) under Tasks in a lead’s detail panel, each with a due date and the teammate it’s assigned to. Tick a task off once it’s done; done tasks stay listed, crossed out.
+        </div>
+        <div className="text-sm text-gray-300">
+          “Due Today” lists every open task that is overdue or due today, across all leads; “My tasks” narrows it to yours. Tick one to mark it done or click the lead to open it.
+        </div>
+        <div className="text-sm text-gray-300">
+          The “Next Follow-up” column shows each lead’s earliest open due date. It updates by itself as tasks are added, moved or completed, so it can’t be edited in the grid, but it can be shown, sorted, filtered and exported like any other column. Merging leads keeps all of their tasks.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Comments</h3>
+        <div className="text-sm text-gray-300">
+          Right-click a cell in Master or an outreach tab to open its comment thread; the whole lead has its own thread in the detail panel. Each comment shows who wrote it and when. Authors can edit their comments (click “edited” to see earlier versions) and delete them; admins can delete any comment. Type @ to mention a teammate.
+        </div>
+        <div className="text-sm text-gray-300">
+          Resolve a thread once it’s dealt with; a new comment reopens it. Cells with open comments have a yellow corner, resolved ones a gray corner; hover one to read the latest comment.
+        </div>
+        <div className="text-sm text-gray-300">
+          “Comments” in the header lists every thread across leads. Search it, narrow it to one field, a date range, open or resolved threads, or threads mentioning you, and click one to jump to its cell in Master Leads (if search or filters hide the lead, or the thread is about the whole lead, it opens in the detail panel instead). Temp Import rows can’t be commented on until they’re imported.
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Undo, Redo &amp; History</h3>
+        <div className="text-sm text-gray-300">
+          Every grid edit is recorded on the server with who made it and the old and new values. Undo and Redo step through your own edits in the current tab, even after a reload.
+        </div>
+        <div className="text-sm text-gray-300">
+          If a teammate changed a cell after you, undo leaves their value in place. Select a single row and click “History” to see every change to it.
         </div>
       </section>
 
@@ -23,7 +125,22 @@ export function Documentation() {
           Temp leads are stored persistently in a separate table until you delete them or move them to Master.
         </div>
         <div className="text-sm text-gray-300">
-          Use “Check Duplicates” to remove leads already in Master. Then click “Add Remaining to Master”.
+          Bring leads in with “Upload CSV / Excel” (map the file’s columns to lead fields) or “Smart Paste” (pull emails, phones and websites out of any text). Leads already in Master are left out in the preview; the rest are added to Temp Leads, and Undo removes the whole import.
+        </div>
+        <div className="text-sm text-gray-300">
+          Contacts exported from a phone or address book upload directly: .vcf files (one or many contacts) and Google or Outlook contacts CSVs are recognized and turned into Full Name, Email, Phone, Website, Company and similar columns. When a contact has several emails or phones, the one marked preferred is used (for phones, otherwise the first mobile number), otherwise the first; the others are kept in “Other Emails” / “Other Phones”, which you can map to a field or skip.
+        </div>
+        <div className="text-sm text-gray-300">
+          After mapping a file’s columns, “Save as template” keeps the mapping under a name, optionally shared with the team. Uploading a file with the same columns applies the template automatically; you can still pick another template or adjust the mapping.
+        </div>
+        <div className="text-sm text-gray-300">
+          Each mapped column can be reshaped on the way in: Title Case, lowercase, normalized phone numbers, the domain of an email (free mail providers are skipped), or a full name split into first and last. “+ Output” writes a column into a second field, columns mapped to the same field are joined, and defaults fill fields left empty (for example a fixed Outreach Method). The preview under the mapping shows the first rows exactly as they will be imported; templates remember all of it.
+        </div>
+        <div className="text-sm text-gray-300">
+          Use “Check Duplicates” to remove leads already in Master: rows sharing an email, phone or website with a Master lead are removed right away, while rows that only have a similar name (or company and city) are listed for you to remove or keep. Then click “Add Remaining to Master”.
+        </div>
+        <div className="text-sm text-gray-300">
+          Duplicates are found by email (ignoring +tags and Gmail dots), phone (compared in international format), website, similar names, and company + city. Each match shows how confident it is; the gear next to the button sets which rules run, their confidence and the cut‑off. File and paste imports use the same settings: exact matches are left out, and possible ones are flagged in the preview to keep or drop.
         </div>
       </section>
 
@@ -37,24 +154,49 @@ export function Documentation() {
         </div>
       </section>
 
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold">Custom Fields</h3>
+        <div className="text-sm text-gray-300">
+          Admins add fields with “Add New Lead Info”. Besides text, phone, URL and email, a field can be a number, currency, date, checkbox, single select, multi‑select (list the options when creating it) or tags (any comma-separated labels). Each type gets its own editor in the grid: numbers and amounts, a date picker, a checkbox, a dropdown, or a tag list (Enter or comma adds a tag, × removes one).
+        </div>
+        <div className="text-sm text-gray-300">
+          Typed values are checked when you edit, paste or fill: “$1,200” becomes 1200.00, “3/5/2026” a date, “Yes” a ticked box, and option labels their option. Values that don’t fit (text in a number column, an unknown option) are not saved, and a message lists them.
+        </div>
+        <div className="text-sm text-gray-300">
+          “Dropdowns” (admins and reps) manages the options of custom dropdown fields such as Industry, Lead Source or Timezone: add, rename, reorder or delete options and give them a color. Colored options show as tags in the grids, and the Add Lead form offers the same menus.
+        </div>
+        <div className="text-sm text-gray-300">
+          “Fields” (admins) is the Field Manager: rename any field, move fields up or down to set the default column order for every tab (tabs whose columns someone rearranged keep their own order), change a custom field’s type or delete it. Changing a type first previews how many values convert, stay the same or get cleared, with examples. Deleting removes the column from Master, every outreach tab and Temp Leads. Both keep a snapshot of the field and its values, listed at the bottom of the Field Manager, so the change can be reverted. Built-in fields (name, email, phone, website, outreach method, stage, owner, date added, next follow-up) can only be renamed and reordered.
+        </div>
+        <div className="text-sm text-gray-300">
+          “Rules” in the Field Manager makes a field required or sets limits: a regular expression (with the message to show when a value doesn’t match), a minimum and maximum (the amount for number and currency fields, the length for text), allowed domains for email and website fields, or “Unique across Master” so no two leads share the value. Add Lead refuses to save until the rules pass, and edits, pastes and fills skip the values that break them with a message. Import previews mark rows that break a rule in red (hover for why); they are left out unless you fix or remove them. Cells that already break a rule, e.g. an empty required field on a new row, get a red corner in the grids, and hovering shows the reason.
+        </div>
+      </section>
+
       <section className="space-y-2">
         <h3 className="text-lg font-semibold">Columns</h3>
+        <div className="text-sm text-gray-300">
+          Websites, emails and phone numbers are links: click the text to open the site, start an email or call the number (double-click the cell or press Enter to edit it instead). Column headers show an icon for the kind of data they hold, and tags appear as bubbles.
+        </div>
         <div className="text-sm text-gray-300">
           Use the Columns menu to hide/show fields and reorder columns. Changes are saved per tab.
         </div>
+        <div className="text-sm text-gray-300">
+          Export downloads the rows you currently see (search, filters and sort applied) with the visible columns in their current order, as CSV, Excel or vCard 3.0. vCards carry the name, email, phone (in international format, ready for SMS), website and company; the other visible columns go into the contact’s note. Tick “Include cell comments” to add each cell’s comments next to its column.
+        </div>
       </section>
 
       <section className="space-y-2">
         <h3 className="text-lg font-semibold">Saved Views</h3>
         <div className="text-sm text-gray-300">
-          Save a view to persist your search + column layout. Apply or delete views from the Views menu.
+          Save a view to persist your search, filters, sorts and column layout. Views are stored on the server; share one to make it visible to the whole team. Only the person who saved a view can share, unshare or delete it.
         </div>
       </section>
 
       <section className="space-y-2">
         <h3 className="text-lg font-semibold">Bulk Actions</h3>
         <div className="text-sm text-gray-300">
-          Select rows with checkboxes to apply Outreach Method or delete in bulk.
+          Select rows with checkboxes to add them to a channel, remove them from the current tab’s channel, or delete in bulk.
         </div>
       </section>
     </div>
@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Lead, LeadField } from '../lib/supabase';
+import { READ_ONLY_FIELDS } from '../lib/leadFieldConfig';
+import { DuplicateGroup, groupDuplicates, loadDedupConfig } from '../lib/dedup';
+
+type Option = { key: string; label: string };
+
+type DuplicateReviewModalProps = {
+  leads: Lead[];
+  fields: LeadField[];
+  selectOptions: Record<string, Option[]>;
+  onMerge: (survivorId: string, loserIds: string[], fieldValues: Record<string, string | null>) => Promise<void>;
+  onClose: () => void;
+};
+
+const cellValue = (lead: Lead, fieldKey: string) => {
+  const value = (lead as Record<string, string | null>)[fieldKey];
+  return value === undefined || value === null || value === '' ? null : String(value);
+};
+
+type FoundGroup = DuplicateGroup<Lead> & { key: string; ids: string[] };
+
+export function DuplicateReviewModal({ leads, fields, selectOptions, onMerge, onClose }: DuplicateReviewModalProps) {
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [merged, setMerged] = useState<Set<string>>(new Set());
+
+  // Grouping is the slow part, so it runs once on open; reloads only refresh the leads shown
+  const [found] = useState<FoundGroup[]>(() =>
+    groupDuplicates(leads, loadDedupConfig()).map((group) => {
+      const ids = group.records.map((lead) => lead.id);
+      return { ...group, ids, key: [...ids].sort().join(',') };
+    })
+  );
+  // Merged leads are dropped right away so the next group shows before Master reloads
+  const groups = useMemo(() => {
+    const byId = new Map(leads.map((lead) => [lead.id, lead]));
+    return found
+      .filter((group) => !skipped.has(group.key))
+      .map((group) => ({
+        ...group,
+        records: group.ids
+          .filter((id) => !merged.has(id))
+          .map((id) => byId.get(id))
+          .filter((lead): lead is Lead => !!lead),
+      }))
+      .filter((group) => group.records.length > 1);
+  }, [found, leads, merged, skipped]);
+  const group = groups[0];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-5xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Find Duplicates</h2>
+            {group && (
+              <div className="text-xs text-gray-400">
+                {groups.length} group{groups.length === 1 ? '' : 's'} left · matched by {group.labels.join(', ')} (
+                {Math.round(group.confidence * 100)}%)
+              </div>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {group ? (
+          <DuplicateGroupReview
+            key={group.key}
+            group={group}
+            fields={fields}
+            selectOptions={selectOptions}
+            onSkip={() => setSkipped((prev) => new Set(prev).add(group.key))}
+            onMerge={async (survivorId, loserIds, fieldValues) => {
+              await onMerge(survivorId, loserIds, fieldValues);
+              setMerged((prev) => new Set([...prev, ...loserIds]));
+            }}
+          />
+        ) : (
+          <div className="text-sm text-gray-400">
+            {skipped.size > 0 ? 'No more groups to review.' : 'No likely duplicates found.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type DuplicateGroupReviewProps = {
+  group: DuplicateGroup<Lead>;
+  fields: LeadField[];
+  selectOptions: Record<string, Option[]>;
+  onSkip: () => void;
+  onMerge: (survivorId: string, loserIds: string[], fieldValues: Record<string, string | null>) => Promise<void>;
+};
+
+function DuplicateGroupReview({ group, fields, selectOptions, onSkip, onMerge }: DuplicateGroupReviewProps) {
+  const leads = group.records;
+  // Channels and tasks are combined on merge rather than picked
+  const rows = fields.filter(
+    (field) =>
+      field.field_key !== 'outreach_method' &&
+      !READ_ONLY_FIELDS.has(field.field_key) &&
+      leads.some((lead) => cellValue(lead, field.field_key) !== null)
+  );
+
+  const [survivorId, setSurvivorId] = useState(() => {
+    const filled = (lead: Lead) => rows.filter((field) => cellValue(lead, field.field_key) !== null).length;
+    return [...leads].sort((a, b) => filled(b) - filled(a) || a.created_at.localeCompare(b.created_at))[0].id;
+  });
+  // Which lead each field's value is taken from; unset fields follow the survivor
+  const [picks, setPicks] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const survivor = leads.find((lead) => lead.id === survivorId) as Lead;
+  const sourceFor = (fieldKey: string) => {
+    if (picks[fieldKey]) return picks[fieldKey];
+    if (cellValue(survivor, fieldKey) !== null) return survivorId;
+    return leads.find((lead) => cellValue(lead, fieldKey) !== null)?.id ?? survivorId;
+  };
+
+  const display = (fieldKey: string, value: string | null) => {
+    if (value === null) return '—';
+    return selectOptions[fieldKey]?.find((option) => option.key === value)?.label ?? value;
+  };
+
+  const handleMerge = async () => {
+    const fieldValues: Record<string, string | null> = {};
+    rows.forEach((field) => {
+      const source = leads.find((lead) => lead.id === sourceFor(field.field_key)) as Lead;
+      const value = cellValue(source, field.field_key);
+      if (value !== cellValue(survivor, field.field_key)) fieldValues[field.field_key] = value;
+    });
+    setSaving(true);
+    setError('');
+    try {
+      await onMerge(
+        survivorId,
+        leads.filter((lead) => lead.id !== survivorId).map((lead) => lead.id),
+        fieldValues
+      );
+    } catch (err) {
+      console.error('Failed to merge leads', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge leads');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex-1 overflow-auto border border-gray-800 rounded-md">
+        <table className="w-full text-sm text-gray-200">
+          <thead className="bg-gray-900 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left text-gray-400 font-medium w-40">Keep</th>
+              {leads.map((lead) => (
+                <th key={lead.id} className="px-3 py-2 text-left font-medium">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      checked={lead.id === survivorId}
+                      onChange={() => setSurvivorId(lead.id)}
+                    />
+                    <span className="text-xs text-gray-400">
+                      Added {new Date(lead.created_at).toLocaleDateString()}
+                    </span>
+                  </label>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((field) => (
+              <tr key={field.field_key} className="border-t border-gray-800">
+                <td className="px-3 py-2 text-gray-400">{field.label}</td>
+                {leads.map((lead) => {
+                  const value = cellValue(lead, field.field_key);
+                  const chosen = sourceFor(field.field_key) === lead.id;
+                  return (
+                    <td key={lead.id} className="px-2 py-1">
+                      <button
+                        onClick={() => setPicks((prev) => ({ ...prev, [field.field_key]: lead.id }))}
+                        className={`w-full text-left px-2 py-1 rounded border break-words ${
+                          chosen
+                            ? 'bg-purple-950 border-purple-600 text-white'
+                            : 'border-transparent text-gray-400 hover:border-gray-700'
+                        }`}
+                      >
+                        {display(field.field_key, value)}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 text-xs text-gray-400">
+        Click a value to keep it. Channels, activity, tasks and comments of the other leads move to the kept lead, and
+        the other leads are deleted. Undo reverses the whole merge.
+      </div>
+
+      {error && (
+        <div className="mt-3 bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onSkip}
+          disabled={saving}
+          className="px-4 py-2 bg-gray-800 text-gray-200 rounded-md hover:bg-gray-700 text-sm disabled:opacity-50"
+        >
+          Not duplicates
+        </button>
+        <button
+          onClick={handleMerge}
+          disabled={saving}
+          className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 text-sm font-medium disabled:opacity-50"
+        >
+          {saving ? 'Merging...' : `Merge ${leads.length} leads`}
+        </button>
+      </div>
+    </>
+  );
+}
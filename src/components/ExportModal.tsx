@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Lead, LeadField } from '../lib/supabase';
+import { EXPORT_FORMATS, ExportFormat, exportLeads } from '../lib/exportLeads';
+
+type ExportModalProps = {
+  rows: Lead[];
+  fields: LeadField[];
+  selectOptions: Record<string, { key: string; label: string }[]>;
+  /** File name prefix, e.g. "master-leads" */
+  baseName: string;
+  onClose: () => void;
+};
+
+export function ExportModal({ rows, fields, selectOptions, baseName, onClose }: ExportModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [includeNotes, setIncludeNotes] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError('');
+    try {
+      await exportLeads(rows, fields, format, { selectOptions, includeNotes, baseName });
+      onClose();
+    } catch (err) {
+      console.error('Error exporting leads:', err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Export Leads</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-950 border border-red-800 rounded-md text-red-200 text-sm">{error}</div>
+        )}
+
+        <div className="text-sm text-gray-300 mb-4">
+          {rows.length} {rows.length === 1 ? 'row' : 'rows'} × {fields.length}{' '}
+          {fields.length === 1 ? 'column' : 'columns'}, as currently filtered, sorted and shown.
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {EXPORT_FORMATS.map((option) => (
+            <label key={option.key} className="flex items-start gap-2 text-sm text-gray-200">
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === option.key}
+                onChange={() => setFormat(option.key)}
+                className="mt-1"
+              />
+              <span>
+                {option.label}
+                <span className="block text-xs text-gray-400">{option.hint}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-200 mb-6">
+          <input type="checkbox" checked={includeNotes} onChange={(e) => setIncludeNotes(e.target.checked)} />
+          Include cell comments
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-300 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || rows.length === 0 || fields.length === 0}
+            className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
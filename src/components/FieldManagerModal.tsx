@@ -0,0 +1,512 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, FieldRules, LeadField } from '../lib/supabase';
+import { X } from 'lucide-react';
+import { SelectOption } from '../lib/dropdownCell';
+import { FIELD_TYPES } from '../lib/fieldTypes';
+import { BUILT_IN_FIELDS, READ_ONLY_FIELDS } from '../lib/leadFieldConfig';
+import {
+  FieldSnapshot,
+  RetypePreview,
+  deleteField,
+  loadFieldSnapshots,
+  previewRetype,
+  renameField,
+  restoreFieldSnapshot,
+  retypeField,
+  saveFieldOrder,
+  saveFieldRules,
+} from '../lib/fieldManager';
+import { hasFieldRules } from '../lib/fieldRules';
+
+type FieldManagerModalProps = {
+  fieldOptions: Record<string, SelectOption[]>;
+  onClose: () => void;
+  onChange: () => void;
+};
+
+const typeLabel = (type: string) => FIELD_TYPES.find((t) => t.key === type)?.label ?? type;
+
+type RulesDraft = {
+  required: boolean;
+  unique: boolean;
+  pattern: string;
+  patternHint: string;
+  min: string;
+  max: string;
+  domains: string;
+};
+
+const toDraft = (field: LeadField): RulesDraft => ({
+  required: Boolean(field.required),
+  unique: Boolean(field.rules?.unique),
+  pattern: field.rules?.pattern ?? '',
+  patternHint: field.rules?.pattern_hint ?? '',
+  min: field.rules?.min != null ? String(field.rules.min) : '',
+  max: field.rules?.max != null ? String(field.rules.max) : '',
+  domains: (field.rules?.domains ?? []).join(', '),
+});
+
+const isNumericField = (field: LeadField) => field.type === 'number' || field.type === 'currency';
+const hasLength = (field: LeadField) => ['text', 'phone', 'url', 'email'].includes(field.type);
+const hasDomains = (field: LeadField) =>
+  field.type === 'email' || field.type === 'url' || field.field_key === 'email' || field.field_key === 'website';
+
+const inputClass =
+  'w-full px-2 py-1 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-950 text-white text-sm';
+
+export function FieldManagerModal({ fieldOptions, onClose, onChange }: FieldManagerModalProps) {
+  const [fields, setFields] = useState<LeadField[]>([]);
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [snapshots, setSnapshots] = useState<FieldSnapshot[]>([]);
+  const [retyping, setRetyping] = useState<LeadField | null>(null);
+  const [newType, setNewType] = useState('text');
+  const [preview, setPreview] = useState<RetypePreview | null>(null);
+  const [editingRules, setEditingRules] = useState<LeadField | null>(null);
+  const [rulesDraft, setRulesDraft] = useState<RulesDraft | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('lead_fields')
+        .select('*')
+        .order('position', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true });
+      if (fetchError) throw fetchError;
+      setFields(data || []);
+      setLabels(Object.fromEntries((data || []).map((field: LeadField) => [field.field_key, field.label])));
+      setSnapshots(await loadFieldSnapshots());
+    } catch (err) {
+      console.error('Error loading fields:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    setLoading(true);
+    try {
+      await action();
+      await load();
+      onChange();
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRename = async (field: LeadField) => {
+    const next = labels[field.field_key]?.trim();
+    if (!next || next === field.label) return;
+    await run(() => renameField(field.field_key, next), 'Failed to rename field');
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    if (!fields[index + direction]) return;
+    const reordered = [...fields];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    setFields(reordered);
+    await run(() => saveFieldOrder(reordered.map((field) => field.field_key)), 'Failed to save field order');
+  };
+
+  const startRules = (field: LeadField) => {
+    setEditingRules(field);
+    setRulesDraft(toDraft(field));
+    setRetyping(null);
+    setError('');
+  };
+
+  const handleSaveRules = async () => {
+    if (!editingRules || !rulesDraft) return;
+    const field = editingRules;
+    const draft = rulesDraft;
+    const rules: FieldRules = {};
+    if (draft.pattern.trim()) {
+      try {
+        new RegExp(draft.pattern.trim());
+      } catch {
+        setError(`"${draft.pattern.trim()}" is not a valid regular expression`);
+        return;
+      }
+      rules.pattern = draft.pattern.trim();
+      if (draft.patternHint.trim()) rules.pattern_hint = draft.patternHint.trim();
+    }
+    for (const bound of ['min', 'max'] as const) {
+      const raw = draft[bound].trim();
+      if (!raw) continue;
+      const value = Number(raw);
+      if (!Number.isFinite(value)) {
+        setError(`${bound === 'min' ? 'Minimum' : 'Maximum'} must be a number`);
+        return;
+      }
+      rules[bound] = value;
+    }
+    const domains = draft.domains
+      .split(/[\s,]+/)
+      .map((domain) => domain.trim().toLowerCase().replace(/^@/, ''))
+      .filter(Boolean);
+    if (domains.length > 0) rules.domains = domains;
+    if (draft.unique) rules.unique = true;
+
+    await run(async () => {
+      await saveFieldRules(field.field_key, draft.required, rules);
+      setEditingRules(null);
+    }, 'Failed to save field rules');
+  };
+
+  const startRetype = (field: LeadField) => {
+    setEditingRules(null);
+    setRetyping(field);
+    setNewType(FIELD_TYPES.find((t) => t.key !== field.type)?.key ?? 'text');
+    setPreview(null);
+    setError('');
+  };
+
+  const handlePreview = async () => {
+    if (!retyping) return;
+    setError('');
+    setLoading(true);
+    try {
+      setPreview(await previewRetype(retyping, newType, fieldOptions[retyping.field_key]));
+    } catch (err) {
+      console.error('Error previewing type change:', err);
+      setError(err instanceof Error ? err.message : 'Failed to preview type change');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRetype = async () => {
+    if (!retyping || !preview) return;
+    if (
+      preview.cleared > 0 &&
+      !confirm(`${preview.cleared} value(s) can't be converted and will be cleared. You can revert this below. Continue?`)
+    ) {
+      return;
+    }
+    const field = retyping;
+    await run(async () => {
+      await retypeField(field, preview);
+      setRetyping(null);
+      setPreview(null);
+    }, 'Failed to change field type');
+  };
+
+  const handleDelete = async (field: LeadField) => {
+    if (
+      !confirm(
+        `Delete the "${field.label}" field? Its column is removed from Master, every outreach tab and Temp Leads. ` +
+          'A snapshot of its values is kept so it can be restored below.'
+      )
+    ) {
+      return;
+    }
+    await run(async () => {
+      await deleteField(field.field_key);
+      if (retyping?.field_key === field.field_key) setRetyping(null);
+    }, 'Failed to delete field');
+  };
+
+  const handleRestore = async (snapshot: FieldSnapshot) => {
+    const what = snapshot.action === 'delete' ? 'Restore' : 'Revert the type change of';
+    if (!confirm(`${what} "${snapshot.field.label}"? Values saved since the change are replaced by the snapshot.`)) return;
+    await run(() => restoreFieldSnapshot(snapshot.id), 'Failed to restore field');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-white">Field Manager</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          The order here is the default column order for every tab; layouts someone has rearranged themselves keep
+          their own order.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          {fields.map((field, index) => {
+            const builtIn = BUILT_IN_FIELDS.has(field.field_key);
+            return (
+              <div key={field.field_key}>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={loading || index === 0}
+                    className="text-gray-400 hover:text-white text-xs disabled:opacity-30"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={loading || index === fields.length - 1}
+                    className="text-gray-400 hover:text-white text-xs disabled:opacity-30"
+                  >
+                    ▼
+                  </button>
+                  <input
+                    type="text"
+                    value={labels[field.field_key] ?? field.label}
+                    onChange={(e) => setLabels((prev) => ({ ...prev, [field.field_key]: e.target.value }))}
+                    onBlur={() => handleRename(field)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    disabled={loading}
+                    className="flex-1 min-w-0 px-3 py-1.5 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white text-sm"
+                  />
+                  <span className="w-28 text-xs text-gray-400 truncate" title={field.field_key}>
+                    {builtIn ? 'Built-in' : typeLabel(field.type)}
+                    {field.required && <span className="text-red-400"> · required</span>}
+                  </span>
+                  {!READ_ONLY_FIELDS.has(field.field_key) && (
+                    <button
+                      onClick={() => startRules(field)}
+                      disabled={loading}
+                      className={`text-xs hover:text-white ${hasFieldRules(field) ? 'text-purple-300' : 'text-gray-400'}`}
+                    >
+                      Rules
+                    </button>
+                  )}
+                  {!builtIn && (
+                    <>
+                      <button
+                        onClick={() => startRetype(field)}
+                        disabled={loading}
+                        className="text-xs text-purple-300 hover:text-purple-200"
+                      >
+                        Change type
+                      </button>
+                      <button
+                        onClick={() => handleDelete(field)}
+                        disabled={loading}
+                        className="text-xs text-red-400 hover:text-red-300"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                {editingRules?.field_key === field.field_key && rulesDraft && (
+                  <div className="mt-2 ml-10 p-3 bg-gray-900 border border-gray-800 rounded-md space-y-3 text-sm text-gray-300">
+                    <div className="flex flex-wrap gap-4">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={rulesDraft.required}
+                          onChange={(e) => setRulesDraft((prev) => (prev ? { ...prev, required: e.target.checked } : prev))}
+                        />
+                        Required
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={rulesDraft.unique}
+                          onChange={(e) => setRulesDraft((prev) => (prev ? { ...prev, unique: e.target.checked } : prev))}
+                        />
+                        Unique across Master
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="space-y-1">
+                        <span className="text-xs text-gray-400">Pattern (regular expression)</span>
+                        <input
+                          type="text"
+                          value={rulesDraft.pattern}
+                          onChange={(e) => setRulesDraft((prev) => (prev ? { ...prev, pattern: e.target.value } : prev))}
+                          placeholder="e.g., ^https://(www\.)?linkedin\.com/"
+                          className={`${inputClass} font-mono`}
+                        />
+                      </label>
+                      <label className="space-y-1">
+                        <span className="text-xs text-gray-400">Message when it doesn’t match</span>
+                        <input
+                          type="text"
+                          value={rulesDraft.patternHint}
+                          onChange={(e) => setRulesDraft((prev) => (prev ? { ...prev, patternHint: e.target.value } : prev))}
+                          placeholder="e.g., must be a LinkedIn URL"
+                          className={inputClass}
+                        />
+                      </label>
+                      {(isNumericField(field) || hasLength(field)) && (
+                        <>
+                          <label className="space-y-1">
+                            <span className="text-xs text-gray-400">
+                              {isNumericField(field) ? 'Minimum' : 'Minimum length'}
+                            </span>
+                            <input
+                              type="number"
+                              value={rulesDraft.min}
+                              onChange={(e) => setRulesDraft((prev) => (prev ? { ...prev, min: e.target.value } : prev))}
+                              className={inputClass}
+                            />
+                          </label>
+                          <label className="space-y-1">
+                            <span className="text-xs text-gray-400">
+                              {isNumericField(field) ? 'Maximum' : 'Maximum length'}
+                            </span>
+                            <input
+                              type="number"
+                              value={rulesDraft.max}
+                              onChange={(e) => setRulesDraft((prev) => (prev ? { ...prev, max: e.target.value } : prev))}
+                              className={inputClass}
+                            />
+                          </label>
+                        </>
+                      )}
+                      {hasDomains(field) && (
+                        <label className="space-y-1 col-span-2">
+                          <span className="text-xs text-gray-400">Allowed domains (subdomains included)</span>
+                          <input
+                            type="text"
+                            value={rulesDraft.domains}
+                            onChange={(e) => setRulesDraft((prev) => (prev ? { ...prev, domains: e.target.value } : prev))}
+                            placeholder="e.g., acme.com, acme.co.uk"
+                            className={inputClass}
+                          />
+                        </label>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleSaveRules}
+                        disabled={loading}
+                        className="px-4 py-1.5 bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:opacity-50 text-sm font-medium"
+                      >
+                        Save rules
+                      </button>
+                      <button
+                        onClick={() => setEditingRules(null)}
+                        className="px-3 py-1.5 text-xs text-gray-400 hover:text-white"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {retyping?.field_key === field.field_key && (
+                  <div className="mt-2 ml-10 p-3 bg-gray-900 border border-gray-800 rounded-md space-y-3">
+                    <div className="flex items-center gap-2 text-sm text-gray-300">
+                      <span>
+                        {typeLabel(field.type)} →
+                      </span>
+                      <select
+                        value={newType}
+                        onChange={(e) => {
+                          setNewType(e.target.value);
+                          setPreview(null);
+                        }}
+                        className="px-2 py-1 border border-gray-700 rounded-md bg-gray-950 text-white text-sm"
+                      >
+                        {FIELD_TYPES.filter((t) => t.key !== field.type).map((t) => (
+                          <option key={t.key} value={t.key}>
+                            {t.label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handlePreview}
+                        disabled={loading}
+                        className="px-3 py-1 bg-gray-800 text-white rounded-md hover:bg-gray-700 text-xs"
+                      >
+                        Preview
+                      </button>
+                      <button
+                        onClick={() => setRetyping(null)}
+                        className="ml-auto text-xs text-gray-400 hover:text-white"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+
+                    {preview && (
+                      <>
+                        <div className="text-xs text-gray-400">
+                          {preview.total} value(s): {preview.unchanged} unchanged, {preview.converted} converted,{' '}
+                          <span className={preview.cleared > 0 ? 'text-red-300' : ''}>{preview.cleared} cleared</span>
+                          {preview.newOptions.length > 0 && ` · ${preview.newOptions.length} dropdown option(s) created`}
+                        </div>
+                        {preview.samples.length > 0 && (
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-gray-500 text-left">
+                                <th className="font-medium py-1">Before</th>
+                                <th className="font-medium py-1">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {preview.samples.map((sample, sampleIndex) => (
+                                <tr key={sampleIndex} className="border-t border-gray-800">
+                                  <td className="py-1 pr-2 text-gray-300 truncate max-w-[16rem]">{sample.before}</td>
+                                  <td className={`py-1 ${sample.after === null ? 'text-red-300' : 'text-gray-300'}`}>
+                                    {sample.after ?? 'cleared'}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        <button
+                          onClick={handleRetype}
+                          disabled={loading}
+                          className="px-4 py-1.5 bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:opacity-50 text-sm font-medium"
+                        >
+                          Change to {typeLabel(preview.newType)}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {snapshots.length > 0 && (
+          <div className="border-t border-gray-800 pt-4">
+            <h3 className="text-sm font-semibold text-gray-200 mb-2">Deleted and retyped fields</h3>
+            <div className="space-y-1">
+              {snapshots.map((snapshot) => (
+                <div key={snapshot.id} className="flex items-center gap-2 text-xs text-gray-400">
+                  <span className="flex-1 min-w-0 truncate">
+                    <span className="text-gray-200">{snapshot.field.label}</span>{' '}
+                    {snapshot.action === 'delete' ? 'deleted' : `changed from ${typeLabel(snapshot.field.type)}`} ·{' '}
+                    {new Date(snapshot.created_at).toLocaleString()}
+                  </span>
+                  {snapshot.restored_at ? (
+                    <span>Restored</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRestore(snapshot)}
+                      disabled={loading}
+                      className="text-purple-300 hover:text-purple-200"
+                    >
+                      {snapshot.action === 'delete' ? 'Restore' : 'Revert'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,16 @@ import { useCallback, useEffect, useState } from 'react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import { Upload } from 'lucide-react';
-import { supabase, LeadField } from '../lib/supabase';
+import { supabase, Lead, LeadField } from '../lib/supabase';
+import { READ_ONLY_FIELDS } from '../lib/leadFieldConfig';
 import { checkDuplicates, bulkInsertLeads, ImportLead, DuplicateResult } from '../lib/importUtils';
 import { ImportPreview } from './ImportPreview';
+import { applyTemplate, matchTemplate, templateOptions } from '../lib/importTemplates';
+import { EMPTY_IMPORT_OPTIONS, ImportOptions, buildImportLeads, importedFields } from '../lib/importTransforms';
+import { ImportMappingEditor } from './ImportMappingEditor';
+import { useImportIssues } from '../lib/useFieldIssues';
+import { useImportTemplates } from '../lib/useImportTemplates';
+import { CONTACT_SOURCE_LABELS, ContactSource, detectContactsCsv, normalizeContactsCsv, parseVCards } from '../lib/contactImport';
 
 const AUTO_MAP: Record<string, string[]> = {
   name: ['name', 'full name', 'full_name', 'contact', 'contact name', 'person', 'first name', 'firstname'],
@@ -17,34 +24,44 @@ const AUTO_MAP: Record<string, string[]> = {
 type Step = 'upload' | 'mapping' | 'preview';
 
 type FileUploadProps = {
-  onImport: () => void;
+  /** Fixed choices for fields like outreach_method, offered as default values */
+  selectOptions?: Record<string, { key: string; label: string }[]>;
+  /** Called with the rows added to Temp Leads */
+  onImport: (rows: Lead[]) => void;
 };
 
-export function FileUpload({ onImport }: FileUploadProps) {
+export function FileUpload({ selectOptions = {}, onImport }: FileUploadProps) {
   const [file, setFile] = useState<File | null>(null);
   const [headers, setHeaders] = useState<string[]>([]);
   const [rows, setRows] = useState<string[][]>([]);
   const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [options, setOptions] = useState<ImportOptions>(EMPTY_IMPORT_OPTIONS);
   const [fields, setFields] = useState<LeadField[]>([]);
   const [step, setStep] = useState<Step>('upload');
   const [newLeads, setNewLeads] = useState<ImportLead[]>([]);
   const [duplicates, setDuplicates] = useState<DuplicateResult[]>([]);
+  const [possibleDuplicates, setPossibleDuplicates] = useState<DuplicateResult[]>([]);
   const [importing, setImporting] = useState(false);
   const [error, setError] = useState('');
   const [dragOver, setDragOver] = useState(false);
+  const [templateId, setTemplateId] = useState('');
+  const [autoApplied, setAutoApplied] = useState(false);
+  const [contactSource, setContactSource] = useState<ContactSource | null>(null);
+  const { templates, ownerId, saveTemplate, setTemplateShared, deleteTemplate } = useImportTemplates();
+  const selectedTemplate = templates.find((template) => template.id === templateId) ?? null;
+  const issues = useImportIssues(newLeads, fields);
 
   useEffect(() => {
     supabase
       .from('lead_fields')
       .select('*')
+      .order('position', { ascending: true, nullsFirst: false })
       .order('created_at', { ascending: true })
       .then(({ data }) => {
-        if (data) setFields(data);
+        if (data) setFields(data.filter((field: LeadField) => !READ_ONLY_FIELDS.has(field.field_key)));
       });
   }, []);
 
-  const fieldOptions = fields.map((f) => ({ key: f.field_key, label: f.label }));
-
   const autoDetectMapping = useCallback(
     (fileHeaders: string[]) => {
       const map: Record<string, string> = {};
@@ -70,6 +87,34 @@ export function FileUpload({ onImport }: FileUploadProps) {
     [fields]
   );
 
+  /** Saved template matching the file's headers if there is one, otherwise alias/label detection */
+  const detectMapping = useCallback(
+    (fileHeaders: string[]) => {
+      const detected = autoDetectMapping(fileHeaders);
+      const template = matchTemplate(templates, fileHeaders, ownerId);
+      setTemplateId(template?.id ?? '');
+      setAutoApplied(Boolean(template));
+      setOptions(template ? templateOptions(template, fileHeaders) : EMPTY_IMPORT_OPTIONS);
+      return template ? applyTemplate(template, fileHeaders, detected) : detected;
+    },
+    [autoDetectMapping, templates, ownerId]
+  );
+
+  const loadTable = useCallback(
+    (hdrs: string[], body: string[][], source: ContactSource | null) => {
+      if (body.length === 0) {
+        setError('File has no data rows.');
+        return;
+      }
+      setContactSource(source);
+      setHeaders(hdrs);
+      setRows(body);
+      setMapping(detectMapping(hdrs));
+      setStep('mapping');
+    },
+    [detectMapping]
+  );
+
   const parseFile = useCallback(
     (f: File) => {
       setError('');
@@ -84,12 +129,14 @@ export function FileUpload({ onImport }: FileUploadProps) {
               setError('File has no data rows.');
               return;
             }
-            const hdrs = data[0];
-            const body = data.slice(1);
-            setHeaders(hdrs);
-            setRows(body);
-            setMapping(autoDetectMapping(hdrs));
-            setStep('mapping');
+            // Google / Outlook contact exports are flattened to one email and phone per row
+            const source = detectContactsCsv(data[0]);
+            if (source) {
+              const contacts = normalizeContactsCsv(source, data[0], data.slice(1));
+              loadTable(contacts.headers, contacts.rows, source);
+            } else {
+              loadTable(data[0], data.slice(1), null);
+            }
           },
           error: () => setError('Failed to parse CSV file.'),
         });
@@ -106,20 +153,24 @@ export function FileUpload({ onImport }: FileUploadProps) {
             }
             const hdrs = (data[0] as string[]).map(String);
             const body = data.slice(1).map((row) => (row as string[]).map(String));
-            setHeaders(hdrs);
-            setRows(body);
-            setMapping(autoDetectMapping(hdrs));
-            setStep('mapping');
+            loadTable(hdrs, body, null);
           } catch {
             setError('Failed to parse Excel file.');
           }
         };
         reader.readAsArrayBuffer(f);
+      } else if (ext === 'vcf' || ext === 'vcard') {
+        f.text()
+          .then((text) => {
+            const contacts = parseVCards(text);
+            loadTable(contacts.headers, contacts.rows, 'vcard');
+          })
+          .catch(() => setError('Failed to parse vCard file.'));
       } else {
-        setError('Unsupported file type. Please upload a .csv, .xlsx, or .xls file.');
+        setError('Unsupported file type. Please upload a .csv, .xlsx, .xls or .vcf file.');
       }
     },
-    [autoDetectMapping]
+    [loadTable]
   );
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -140,35 +191,53 @@ export function FileUpload({ onImport }: FileUploadProps) {
     }
   };
 
+  const chooseTemplate = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    const detected = autoDetectMapping(headers);
+    setTemplateId(id);
+    setAutoApplied(false);
+    setMapping(template ? applyTemplate(template, headers, detected) : detected);
+    setOptions(template ? templateOptions(template, headers) : EMPTY_IMPORT_OPTIONS);
+  };
+
+  const runTemplateAction = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+    }
+  };
+
+  const saveAsTemplate = () => {
+    const suggested =
+      selectedTemplate?.ownerId === ownerId ? selectedTemplate.name : file?.name.replace(/\.[^.]+$/, '') ?? '';
+    const name = prompt('Template name', suggested)?.trim();
+    if (!name) return;
+    const shared = confirm('Share this template with the team?');
+    runTemplateAction(async () => {
+      const saved = await saveTemplate(name, headers, mapping, options, shared);
+      setTemplateId(saved.id);
+    }, 'Failed to save template.');
+  };
+
   const handleMapping = async () => {
     setError('');
 
     // Check at least name or email is mapped
-    const mappedFields = Object.values(mapping).filter(Boolean);
+    const mappedFields = importedFields(mapping, options);
     if (!mappedFields.includes('name') && !mappedFields.includes('email')) {
       setError('Please map at least Name or Email.');
       return;
     }
 
-    // Build leads from rows using mapping
-    const leads: ImportLead[] = rows.map((row) => {
-      const lead: ImportLead = { name: 'Unknown' };
-      headers.forEach((header, colIdx) => {
-        const fieldKey = mapping[header];
-        if (fieldKey && row[colIdx]?.trim()) {
-          lead[fieldKey] = row[colIdx].trim();
-        }
-      });
-      if (!lead.name || lead.name === 'Unknown') {
-        lead.name = lead.email?.split('@')[0] || 'Unknown';
-      }
-      return lead;
-    });
+    const leads: ImportLead[] = buildImportLeads(headers, rows, mapping, options);
 
     try {
       // Ensure dynamic columns exist
       const baseColumns = new Set(['name', 'email', 'phone', 'website', 'outreach_method']);
-      const dynamicKeys = [...new Set(mappedFields)].filter((k) => !baseColumns.has(k));
+      const dynamicKeys = mappedFields.filter((k) => !baseColumns.has(k));
       for (const key of dynamicKeys) {
         await supabase.rpc('add_lead_column', { column_name: key, column_type: 'text' });
       }
@@ -176,6 +245,7 @@ export function FileUpload({ onImport }: FileUploadProps) {
       const result = await checkDuplicates(leads);
       setNewLeads(result.newLeads);
       setDuplicates(result.duplicates);
+      setPossibleDuplicates(result.possibleDuplicates);
       setStep('preview');
     } catch (err) {
       console.error('Error processing file:', err);
@@ -187,15 +257,17 @@ export function FileUpload({ onImport }: FileUploadProps) {
     if (newLeads.length === 0) return;
     setImporting(true);
     try {
-      await bulkInsertLeads(newLeads);
+      const inserted = await bulkInsertLeads(newLeads.filter((_, idx) => !issues[idx]?.length));
       setFile(null);
       setHeaders([]);
       setRows([]);
       setMapping({});
+      setOptions(EMPTY_IMPORT_OPTIONS);
       setNewLeads([]);
       setDuplicates([]);
+      setPossibleDuplicates([]);
       setStep('upload');
-      onImport();
+      onImport(inserted);
     } catch (err) {
       console.error('Error importing leads:', err);
       setError('Error importing leads.');
@@ -205,13 +277,16 @@ export function FileUpload({ onImport }: FileUploadProps) {
   };
 
   const handleEditLead = (index: number, field: string, value: string) => {
-    setNewLeads((prev) =>
-      prev.map((lead, i) => (i === index ? { ...lead, [field]: value } : lead))
-    );
+    const edited = newLeads[index];
+    const next = { ...edited, [field]: value };
+    setNewLeads((prev) => prev.map((lead, i) => (i === index ? next : lead)));
+    setPossibleDuplicates((prev) => prev.map((dup) => (dup.original === edited ? { ...dup, original: next } : dup)));
   };
 
   const handleRemoveLead = (index: number) => {
+    const removed = newLeads[index];
     setNewLeads((prev) => prev.filter((_, i) => i !== index));
+    setPossibleDuplicates((prev) => prev.filter((dup) => dup.original !== removed));
   };
 
   // Upload step
@@ -231,18 +306,18 @@ export function FileUpload({ onImport }: FileUploadProps) {
         >
           <Upload className="w-10 h-10 mx-auto text-gray-400 mb-3" />
           <p className="text-gray-600 mb-2">
-            {file ? file.name : 'Drag & drop a CSV or Excel file here'}
+            {file ? file.name : 'Drag & drop a CSV, Excel or vCard file here'}
           </p>
           <label className="inline-block px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 cursor-pointer font-medium text-sm">
             Choose File
             <input
               type="file"
-              accept=".csv,.xlsx,.xls"
+              accept=".csv,.xlsx,.xls,.vcf,.vcard"
               onChange={handleFileSelect}
               className="hidden"
             />
           </label>
-          <p className="text-xs text-gray-400 mt-2">Supports .csv, .xlsx, .xls</p>
+          <p className="text-xs text-gray-400 mt-2">Supports .csv, .xlsx, .xls, .vcf and Google / Outlook contact exports</p>
         </div>
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
@@ -271,32 +346,80 @@ export function FileUpload({ onImport }: FileUploadProps) {
           <p className="text-sm text-gray-500 mb-4">
             {rows.length} row{rows.length !== 1 ? 's' : ''} detected. Map each column to a lead field.
           </p>
+          {contactSource && (
+            <p className="text-xs text-purple-300 -mt-2 mb-2">
+              Read as a {CONTACT_SOURCE_LABELS[contactSource]} export: each contact’s preferred (or first mobile)
+              phone and preferred (or first) email fill Phone and Email; the rest are listed under “Other Phones”
+              and “Other Emails”.
+            </p>
+          )}
         </div>
 
-        <div className="bg-gray-950 rounded-lg border border-gray-800 divide-y divide-gray-800">
-          {headers.map((header) => (
-            <div key={header} className="flex items-center justify-between px-4 py-3">
-              <div>
-                <span className="font-medium text-gray-100">{header}</span>
-                <span className="text-xs text-gray-400 ml-2">
-                  e.g. "{rows[0]?.[headers.indexOf(header)] || ''}"
-                </span>
-              </div>
-              <select
-                value={mapping[header] || ''}
-                onChange={(e) => setMapping((prev) => ({ ...prev, [header]: e.target.value }))}
-                className="px-3 py-1.5 border border-gray-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-400">Template:</span>
+          <select
+            value={templateId}
+            onChange={(e) => chooseTemplate(e.target.value)}
+            className="px-3 py-1.5 border border-gray-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+          >
+            <option value="">None</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+                {template.ownerId !== ownerId ? ' (shared)' : ''}
+              </option>
+            ))}
+          </select>
+          {selectedTemplate?.ownerId === ownerId && (
+            <>
+              <button
+                onClick={() =>
+                  runTemplateAction(
+                    () => setTemplateShared(selectedTemplate.id, !selectedTemplate.shared),
+                    'Failed to update template.'
+                  )
+                }
+                className="text-xs text-gray-300 hover:text-white"
+              >
+                {selectedTemplate.shared ? 'Unshare' : 'Share'}
+              </button>
+              <button
+                onClick={() => {
+                  if (!confirm(`Delete template "${selectedTemplate.name}"?`)) return;
+                  runTemplateAction(async () => {
+                    await deleteTemplate(selectedTemplate.id);
+                    setTemplateId('');
+                  }, 'Failed to delete template.');
+                }}
+                className="text-xs text-red-400 hover:text-red-300"
               >
-                <option value="">-- Skip --</option>
-                {fieldOptions.map((opt) => (
-                  <option key={opt.key} value={opt.key}>
-                    {opt.label}
-                  </option>
-                ))}
-              </select>
-            </div>
-          ))}
+                Delete
+              </button>
+            </>
+          )}
+          <button
+            onClick={saveAsTemplate}
+            className="ml-auto px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700"
+          >
+            Save as template
+          </button>
         </div>
+        {autoApplied && selectedTemplate && (
+          <div className="text-xs text-purple-300">
+            Applied “{selectedTemplate.name}” because this file’s columns match it.
+          </div>
+        )}
+
+        <ImportMappingEditor
+          headers={headers}
+          rows={rows}
+          fields={fields}
+          selectOptions={selectOptions}
+          mapping={mapping}
+          onMappingChange={setMapping}
+          options={options}
+          onOptionsChange={setOptions}
+        />
 
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
@@ -326,6 +449,9 @@ export function FileUpload({ onImport }: FileUploadProps) {
       <ImportPreview
         newLeads={newLeads}
         duplicates={duplicates}
+        possibleDuplicates={possibleDuplicates}
+        onKeepDuplicate={(kept) => setPossibleDuplicates((prev) => prev.filter((dup) => dup !== kept))}
+        issues={issues}
         onImport={handleImport}
         importing={importing}
         onEditLead={handleEditLead}
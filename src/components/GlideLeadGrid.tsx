@@ -2,30 +2,98 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   CompactSelection,
   DataEditor,
+  DataEditorRef,
   EditListItem,
   FillPatternEventArgs,
   GridCell,
   GridCellKind,
   GridColumn,
+  GridColumnIcon,
   GridKeyEventArgs,
   GridSelection,
   CellClickedEventArgs,
+  DrawCellCallback,
+  GridMouseEventArgs,
   HeaderClickedEventArgs,
   Item,
 } from '@glideapps/glide-data-grid';
-import { Lead, LeadField } from '../lib/supabase';
+import { Lead, LeadField, LeadMethodMembership } from '../lib/supabase';
 import { GridPrefs, moveInArray } from '../lib/gridPrefs';
 import { useGridSize } from '../lib/useGridSize';
+import { READ_ONLY_FIELDS, isSelectField } from '../lib/leadFieldConfig';
+import { SelectOption, dropdownCellRenderer, getEditedCellValue } from '../lib/dropdownCell';
+import { dateCellRenderer } from '../lib/dateCell';
+import { tagsCellRenderer } from '../lib/tagsCell';
+import { toE164 } from '../lib/dedup';
+import { outreachStatusLabel } from '../lib/outreachEvents';
+import { FieldIssues } from '../lib/useFieldIssues';
+import { CellComments } from '../lib/comments';
+import { openLeadDetail } from '../lib/leadLink';
+
+const currencyFormat = new Intl.NumberFormat(undefined, { style: 'currency', currency: 'USD' });
+
+const customRenderers = [dropdownCellRenderer, dateCellRenderer, tagsCellRenderer];
+
+/** Header icon matching the cell kind a field is shown with */
+function columnIcon(field: LeadField): GridColumnIcon {
+  if (field.field_key === 'email' || field.type === 'email') return GridColumnIcon.HeaderEmail;
+  if (field.field_key === 'phone' || field.type === 'phone') return GridColumnIcon.HeaderPhone;
+  if (field.field_key === 'website' || field.type === 'url') return GridColumnIcon.HeaderUri;
+  if (isSelectField(field.field_key, field.type)) {
+    return field.field_key === 'outreach_method' || field.type === 'multi_select'
+      ? GridColumnIcon.HeaderArray
+      : GridColumnIcon.HeaderSingleValue;
+  }
+  if (field.type === 'tags') return GridColumnIcon.HeaderArray;
+  if (field.type === 'number' || field.type === 'currency') return GridColumnIcon.HeaderNumber;
+  if (field.type === 'checkbox') return GridColumnIcon.HeaderBoolean;
+  if (field.type === 'date' || field.field_key === 'date_added') return GridColumnIcon.HeaderDate;
+  return GridColumnIcon.HeaderString;
+}
+
+/** Where a website, email or phone cell links to (mailto:, tel:), or null for other fields */
+function cellLink(field: LeadField, value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (field.field_key === 'email' || field.type === 'email') return `mailto:${trimmed}`;
+  if (field.field_key === 'phone' || field.type === 'phone') {
+    const number = toE164(trimmed) || trimmed.replace(/[^\d+]/g, '');
+    return number ? `tel:${number}` : null;
+  }
+  if (field.field_key === 'website' || field.type === 'url') {
+    return /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  }
+  return null;
+}
+
+/** A cell to scroll to and select, e.g. from the Comments browser; `at` tells repeat requests apart */
+export type CellFocus = { leadId: string; fieldKey: string; at: number };
+
+const ISSUE_COLOR = '#ef4444';
+const COMMENT_COLOR = '#eab308';
+const RESOLVED_COLOR = '#6b7280';
 
 type GlideLeadGridProps = {
   rows: Lead[];
   orderedFields: LeadField[];
   outreachOptions: { key: string; label: string }[];
+  selectOptions?: Record<string, SelectOption[]>;
+  memberships?: Record<string, LeadMethodMembership[]>;
+  /** Cells that break their field's rules get a red marker, with the reason on hover */
+  cellIssues?: FieldIssues;
+  /** Cells with comments get a corner marker (yellow while open, gray once resolved), with the latest on hover */
+  cellComments?: CellComments;
+  /** Scrolled to and selected when it changes; a lead the grid doesn't show opens in the detail panel */
+  focusCell?: CellFocus | null;
+  /** Called once `focusCell` has been handled, so a remounted grid doesn't jump there again */
+  onCellFocused?: () => void;
   prefs: GridPrefs;
   setPrefs: React.Dispatch<React.SetStateAction<GridPrefs>>;
   formats: Record<string, string>;
   copyHeaders: boolean;
   columnTitleByKey?: Record<string, string>;
+  /** For viewers: cells can still be selected and copied, but not edited, pasted, cleared, filled, added or moved */
+  readOnly?: boolean;
   onCellsEdited: (edits: readonly EditListItem[]) => Promise<void> | void;
   onPaste: (target: Item, values: readonly (readonly string[])[]) => boolean;
   onDelete: (selection: GridSelection) => boolean | GridSelection;
@@ -41,11 +109,18 @@ export function GlideLeadGrid({
   rows,
   orderedFields,
   outreachOptions,
+  selectOptions,
+  memberships,
+  cellIssues,
+  cellComments,
+  focusCell,
+  onCellFocused,
   prefs,
   setPrefs,
   formats,
   copyHeaders,
   columnTitleByKey,
+  readOnly = false,
   onCellsEdited,
   onPaste,
   onDelete,
@@ -62,12 +137,16 @@ export function GlideLeadGrid({
     columns: CompactSelection.empty(),
   });
   const lastHeaderClickRef = useRef<{ col: number; time: number } | null>(null);
+  const editorRef = useRef<DataEditorRef>(null);
+  const focusedRef = useRef<CellFocus | null>(null);
+  const [cellTip, setCellTip] = useState<{ issue?: string; comment?: string; x: number; y: number } | null>(null);
 
   const columns: GridColumn[] = useMemo(
     () =>
       orderedFields.map((field) => ({
         id: field.field_key,
         title: columnTitleByKey?.[field.field_key] ?? field.label,
+        icon: columnIcon(field),
         width: prefs.widths[field.field_key] ?? 160,
       })),
     [orderedFields, prefs.widths, columnTitleByKey]
@@ -115,7 +194,7 @@ export function GlideLeadGrid({
     []
   );
 
-  const getCellContent = useCallback(
+  const buildCell = useCallback(
     ([col, row]: Item): GridCell => {
       const field = orderedFields[col];
       const lead = rows[row];
@@ -128,11 +207,77 @@ export function GlideLeadGrid({
         };
       }
       const value = (lead as Record<string, string | null>)[field.field_key] ?? '';
-      const displayValueRaw =
-        field.field_key === 'outreach_method'
-          ? outreachOptions.find((option) => option.key === value)?.label || value
-          : value;
-      const displayValue = formatDisplayValue(displayValueRaw || '', formats[field.field_key]);
+      const options =
+        field.field_key === 'outreach_method' ? outreachOptions : selectOptions?.[field.field_key];
+      if (options && isSelectField(field.field_key, field.type)) {
+        const isMethods = field.field_key === 'outreach_method';
+        const details: Record<string, string> = {};
+        if (isMethods) {
+          memberships?.[lead.id]?.forEach((membership) => {
+            if (membership.status) details[membership.method] = outreachStatusLabel(membership.status);
+          });
+        }
+        return {
+          kind: GridCellKind.Custom,
+          data: { kind: 'dropdown-cell', value, options, multiple: isMethods || field.type === 'multi_select', details },
+          copyData: value,
+          allowOverlay: true,
+        };
+      }
+      if (field.type === 'number' || field.type === 'currency') {
+        const num = value.trim() === '' ? NaN : Number(value);
+        const valid = Number.isFinite(num);
+        return {
+          kind: GridCellKind.Number,
+          data: valid ? num : undefined,
+          displayData: valid
+            ? field.type === 'currency'
+              ? currencyFormat.format(num)
+              : num.toLocaleString()
+            : value,
+          fixedDecimals: field.type === 'currency' ? 2 : undefined,
+          allowOverlay: true,
+        };
+      }
+      if (field.type === 'checkbox') {
+        return {
+          kind: GridCellKind.Boolean,
+          data: value === 'true' ? true : value === 'false' ? false : null,
+          readonly: readOnly,
+          allowOverlay: false,
+        };
+      }
+      if (field.type === 'date') {
+        return {
+          kind: GridCellKind.Custom,
+          data: { kind: 'date-cell', value },
+          copyData: value,
+          allowOverlay: true,
+        };
+      }
+      if (field.type === 'tags') {
+        return {
+          kind: GridCellKind.Custom,
+          data: { kind: 'tags-cell', value },
+          copyData: value,
+          allowOverlay: true,
+        };
+      }
+      const displayValue = formatDisplayValue(value || '', formats[field.field_key]);
+      const link = cellLink(field, value);
+      if (link) {
+        return {
+          kind: GridCellKind.Uri,
+          data: value,
+          displayData: displayValue,
+          hoverEffect: true,
+          onClickUri: (args) => {
+            args.preventDefault();
+            window.open(link, link.startsWith('http') ? '_blank' : '_self', 'noopener');
+          },
+          allowOverlay: true,
+        };
+      }
       return {
         kind: GridCellKind.Text,
         data: value,
@@ -140,7 +285,16 @@ export function GlideLeadGrid({
         allowOverlay: true,
       };
     },
-    [orderedFields, rows, outreachOptions, formats, formatDisplayValue]
+    [orderedFields, rows, outreachOptions, selectOptions, memberships, formats, formatDisplayValue, readOnly]
+  );
+
+  const getCellContent = useCallback(
+    (item: Item): GridCell => {
+      const cell = buildCell(item);
+      const field = orderedFields[item[0]];
+      return readOnly || (field && READ_ONLY_FIELDS.has(field.field_key)) ? { ...cell, allowOverlay: false } : cell;
+    },
+    [buildCell, orderedFields, readOnly]
   );
 
   const getCellsForSelection = useCallback(
@@ -158,7 +312,97 @@ export function GlideLeadGrid({
     [getCellContent]
   );
 
+  const issueAt = useCallback(
+    (col: number, row: number) => {
+      const field = orderedFields[col];
+      const lead = rows[row];
+      return field && lead ? cellIssues?.[lead.id]?.[field.field_key] : undefined;
+    },
+    [orderedFields, rows, cellIssues]
+  );
+
+  const commentsAt = useCallback(
+    (col: number, row: number) => {
+      const field = orderedFields[col];
+      const lead = rows[row];
+      return field && lead ? cellComments?.[lead.id]?.[field.field_key] : undefined;
+    },
+    [orderedFields, rows, cellComments]
+  );
+
+  const drawCell: DrawCellCallback = useCallback(
+    (args, drawContent) => {
+      drawContent();
+      const issue = issueAt(args.col, args.row);
+      const comments = commentsAt(args.col, args.row);
+      if (!issue && !comments) return;
+      const { ctx, rect } = args;
+      ctx.save();
+      if (issue) {
+        ctx.strokeStyle = ISSUE_COLOR;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(rect.x + 0.5, rect.y + 0.5, rect.width - 1, rect.height - 1);
+        ctx.fillStyle = ISSUE_COLOR;
+        ctx.beginPath();
+        ctx.moveTo(rect.x + rect.width - 8, rect.y);
+        ctx.lineTo(rect.x + rect.width, rect.y);
+        ctx.lineTo(rect.x + rect.width, rect.y + 8);
+        ctx.closePath();
+        ctx.fill();
+      }
+      if (comments) {
+        ctx.fillStyle = comments.resolved ? RESOLVED_COLOR : COMMENT_COLOR;
+        ctx.beginPath();
+        ctx.moveTo(rect.x, rect.y);
+        ctx.lineTo(rect.x + 8, rect.y);
+        ctx.lineTo(rect.x, rect.y + 8);
+        ctx.closePath();
+        ctx.fill();
+      }
+      ctx.restore();
+    },
+    [issueAt, commentsAt]
+  );
+
+  const handleItemHovered = (args: GridMouseEventArgs) => {
+    if (args.kind !== 'cell') {
+      setCellTip(null);
+      return;
+    }
+    const [col, row] = args.location;
+    const issue = issueAt(col, row);
+    const comments = commentsAt(col, row);
+    const comment = comments
+      ? `${comments.count} comment${comments.count === 1 ? '' : 's'}${comments.resolved ? ' (resolved)' : ''}: ${comments.latest}`
+      : undefined;
+    setCellTip(
+      issue || comment ? { issue, comment, x: args.bounds.x, y: args.bounds.y + args.bounds.height } : null
+    );
+  };
+
+  useEffect(() => {
+    if (!focusCell || focusedRef.current === focusCell) return;
+    focusedRef.current = focusCell;
+    onCellFocused?.();
+    const row = rows.findIndex((lead) => lead.id === focusCell.leadId);
+    if (row < 0) {
+      openLeadDetail(focusCell.leadId);
+      return;
+    }
+    const col = Math.max(
+      orderedFields.findIndex((field) => field.field_key === focusCell.fieldKey),
+      0
+    );
+    setGridSelection({
+      current: { cell: [col, row], range: { x: col, y: row, width: 1, height: 1 }, rangeStack: [] },
+      rows: CompactSelection.empty(),
+      columns: CompactSelection.empty(),
+    });
+    editorRef.current?.scrollTo(col, row, 'both', 0, 0, { vAlign: 'center' });
+  }, [focusCell, onCellFocused, rows, orderedFields]);
+
   const handleCellsEdited = (edits: readonly EditListItem[]) => {
+    if (readOnly) return;
     void onCellsEdited(edits);
   };
 
@@ -185,12 +429,7 @@ export function GlideLeadGrid({
     }
     for (const row of cells) {
       rowsText.push(
-        row
-          .map((cell) => {
-            if (cell.kind === GridCellKind.Text) return cell.data ?? '';
-            return '';
-          })
-          .join('\t')
+        row.map((cell) => getEditedCellValue(cell) ?? '').join('\t')
       );
     }
     return rowsText.join('\n');
@@ -231,7 +470,7 @@ export function GlideLeadGrid({
     try {
       await navigator.clipboard.writeText(text);
       args.preventDefault();
-      if (isCut) {
+      if (isCut && !readOnly) {
         onDelete(selection);
       }
     } catch {
@@ -271,8 +510,15 @@ export function GlideLeadGrid({
   };
 
   return (
-    <div ref={gridRef} className="h-[520px] w-full" data-glide-grid tabIndex={0}>
+    <div
+      ref={gridRef}
+      className="h-[520px] w-full"
+      data-glide-grid
+      tabIndex={0}
+      onMouseLeave={() => setCellTip(null)}
+    >
       <DataEditor
+        ref={editorRef}
         width={size.width}
         height={size.height}
         rows={rows.length}
@@ -285,30 +531,48 @@ export function GlideLeadGrid({
         columnSelect="multi"
         rangeSelect="multi-rect"
         getCellContent={getCellContent}
+        customRenderers={customRenderers}
+        drawCell={cellIssues || cellComments ? drawCell : undefined}
+        onItemHovered={cellIssues || cellComments ? handleItemHovered : undefined}
         getCellsForSelection={getCellsForSelection}
         onCellsEdited={handleCellsEdited}
-        onPaste={onPaste}
-        onDelete={onDelete}
+        onPaste={readOnly ? false : onPaste}
+        onDelete={readOnly ? () => false : onDelete}
         onKeyDown={handleKeyDown}
         onCellContextMenu={(cell, event) => {
           event.preventDefault();
           onCellContextMenu?.(cell, event);
         }}
-        fillHandle
-        onFillPattern={onFillPattern}
-        trailingRowOptions={{ hint: 'Add row', sticky: true }}
-        onRowAppended={onAppendRow}
+        fillHandle={!readOnly}
+        onFillPattern={readOnly ? undefined : onFillPattern}
+        trailingRowOptions={readOnly ? undefined : { hint: 'Add row', sticky: true }}
+        onRowAppended={readOnly ? undefined : onAppendRow}
         onGridSelectionChange={setGridSelection}
         gridSelection={gridSelection}
         onColumnResizeEnd={handleColumnResize}
         onColumnResize={handleColumnResize}
         onHeaderClicked={handleHeaderClick}
-        onRowMoved={onRowMoved}
+        onRowMoved={readOnly ? undefined : onRowMoved}
         onColumnMoved={handleColumnMoved}
         freezeColumns={1}
         smoothScrollX
         smoothScrollY
       />
+      {cellTip && (
+        <div
+          className="fixed z-40 max-w-xs space-y-1 pointer-events-none text-xs"
+          style={{ left: cellTip.x, top: cellTip.y + 2 }}
+        >
+          {cellTip.issue && (
+            <div className="px-2 py-1 rounded bg-red-950 border border-red-800 text-red-200">{cellTip.issue}</div>
+          )}
+          {cellTip.comment && (
+            <div className="px-2 py-1 rounded bg-yellow-950 border border-yellow-800 text-yellow-100 whitespace-pre-wrap">
+              {cellTip.comment}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
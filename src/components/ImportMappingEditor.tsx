@@ -0,0 +1,265 @@
+import { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { LeadField } from '../lib/supabase';
+import { IMPORT_TRANSFORMS, ImportOptions, ImportTransform, buildImportLeads, importedFields } from '../lib/importTransforms';
+
+type Option = { key: string; label: string };
+
+type ImportMappingEditorProps = {
+  headers: string[];
+  rows: string[][];
+  fields: LeadField[];
+  /** Fixed choices for fields like outreach_method, used for their default values */
+  selectOptions: Record<string, Option[]>;
+  mapping: Record<string, string>;
+  onMappingChange: (mapping: Record<string, string>) => void;
+  options: ImportOptions;
+  onOptionsChange: (options: ImportOptions) => void;
+};
+
+const SEPARATORS: { value: string; label: string }[] = [
+  { value: ' ', label: 'space' },
+  { value: ', ', label: 'comma' },
+  { value: ' - ', label: 'dash' },
+  { value: '\n', label: 'new line' },
+  { value: '', label: 'nothing' },
+];
+
+const PREVIEW_ROWS = 5;
+
+const inputClass =
+  'px-2 py-1 border border-gray-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white';
+
+export function ImportMappingEditor({
+  headers,
+  rows,
+  fields,
+  selectOptions,
+  mapping,
+  onMappingChange,
+  options,
+  onOptionsChange,
+}: ImportMappingEditorProps) {
+  const fieldLabel = (key: string) => fields.find((field) => field.field_key === key)?.label || key;
+  const update = (patch: Partial<ImportOptions>) => onOptionsChange({ ...options, ...patch });
+
+  const fieldSelect = (value: string, onChange: (value: string) => void, emptyLabel = '-- Skip --') => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      <option value="">{emptyLabel}</option>
+      {fields.map((field) => (
+        <option key={field.field_key} value={field.field_key}>
+          {field.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  const transformSelect = (value: ImportTransform, onChange: (value: ImportTransform) => void, allowSplit = true) => (
+    <select value={value} onChange={(e) => onChange(e.target.value as ImportTransform)} className={inputClass}>
+      {IMPORT_TRANSFORMS.filter((transform) => allowSplit || transform.key !== 'split_name').map((transform) => (
+        <option key={transform.key} value={transform.key}>
+          {transform.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  const setTransform = (header: string, transform: ImportTransform) => {
+    const splitTargets = { ...options.splitTargets };
+    if (transform !== 'split_name') delete splitTargets[header];
+    update({ transforms: { ...options.transforms, [header]: transform }, splitTargets });
+  };
+
+  const setExtra = (index: number, patch: Partial<ImportOptions['extras'][number]>) =>
+    update({ extras: options.extras.map((extra, i) => (i === index ? { ...extra, ...patch } : extra)) });
+
+  // Fields fed by more than one column get a join separator
+  const joinedFields = useMemo(() => {
+    const counts = new Map<string, number>();
+    const count = (field: string) => {
+      if (field) counts.set(field, (counts.get(field) ?? 0) + 1);
+    };
+    headers.forEach((header) => {
+      count(mapping[header] ?? '');
+      if (options.transforms[header] === 'split_name') count(options.splitTargets[header] ?? '');
+    });
+    options.extras.forEach((extra) => count(extra.field));
+    return Array.from(counts.entries())
+      .filter(([, total]) => total > 1)
+      .map(([field]) => field);
+  }, [headers, mapping, options]);
+
+  const previewFields = importedFields(mapping, options);
+  const preview = useMemo(
+    () => buildImportLeads(headers, rows.slice(0, PREVIEW_ROWS), mapping, options),
+    [headers, rows, mapping, options]
+  );
+
+  const defaultFields = Object.keys(options.defaults);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-950 rounded-lg border border-gray-800 divide-y divide-gray-800">
+        {headers.map((header, colIdx) => {
+          const transform = options.transforms[header] ?? 'trim';
+          return (
+            <div key={header} className="px-4 py-3 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <span className="font-medium text-gray-100">{header}</span>
+                  <span className="text-xs text-gray-400 ml-2">e.g. "{rows[0]?.[colIdx] || ''}"</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {fieldSelect(mapping[header] || '', (value) => onMappingChange({ ...mapping, [header]: value }))}
+                  {mapping[header] && transformSelect(transform, (value) => setTransform(header, value))}
+                  {mapping[header] && transform === 'split_name' && (
+                    <>
+                      <span className="text-xs text-gray-400">last name →</span>
+                      {fieldSelect(
+                        options.splitTargets[header] ?? '',
+                        (value) => update({ splitTargets: { ...options.splitTargets, [header]: value } }),
+                        '-- Drop --'
+                      )}
+                    </>
+                  )}
+                  <button
+                    onClick={() =>
+                      update({ extras: [...options.extras, { column: header, field: '', transform: 'trim' }] })
+                    }
+                    className="text-xs text-purple-300 hover:text-purple-200"
+                    title="Also write this column into another field"
+                  >
+                    + Output
+                  </button>
+                </div>
+              </div>
+              {options.extras.map((extra, index) =>
+                extra.column === header ? (
+                  <div key={index} className="flex items-center justify-end gap-2">
+                    <span className="text-xs text-gray-400">also into</span>
+                    {fieldSelect(extra.field, (value) => setExtra(index, { field: value }))}
+                    {transformSelect(extra.transform, (value) => setExtra(index, { transform: value }), false)}
+                    <button
+                      onClick={() => update({ extras: options.extras.filter((_, i) => i !== index) })}
+                      className="text-gray-400 hover:text-red-400"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : null
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {joinedFields.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-200">Joined fields</h4>
+          {joinedFields.map((field) => (
+            <div key={field} className="flex items-center gap-2 text-sm text-gray-300">
+              <span>{fieldLabel(field)} joins its columns with</span>
+              <select
+                value={options.separators[field] ?? ' '}
+                onChange={(e) => update({ separators: { ...options.separators, [field]: e.target.value } })}
+                className={inputClass}
+              >
+                {SEPARATORS.map((separator) => (
+                  <option key={separator.label} value={separator.value}>
+                    {separator.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-gray-200">Defaults for empty fields</h4>
+        {defaultFields.map((field) => {
+          const choices = selectOptions[field];
+          const setDefault = (value: string) => update({ defaults: { ...options.defaults, [field]: value } });
+          return (
+            <div key={field} className="flex items-center gap-2 text-sm text-gray-300">
+              <span className="w-40">{fieldLabel(field)}</span>
+              {choices ? (
+                <select value={options.defaults[field]} onChange={(e) => setDefault(e.target.value)} className={inputClass}>
+                  <option value="">--</option>
+                  {choices.map((choice) => (
+                    <option key={choice.key} value={choice.key}>
+                      {choice.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={options.defaults[field]}
+                  onChange={(e) => setDefault(e.target.value)}
+                  className={inputClass}
+                />
+              )}
+              <button
+                onClick={() => {
+                  const defaults = { ...options.defaults };
+                  delete defaults[field];
+                  update({ defaults });
+                }}
+                className="text-gray-400 hover:text-red-400"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+        <select
+          value=""
+          onChange={(e) => e.target.value && update({ defaults: { ...options.defaults, [e.target.value]: '' } })}
+          className={inputClass}
+        >
+          <option value="">Add a default…</option>
+          {fields
+            .filter((field) => !defaultFields.includes(field.field_key))
+            .map((field) => (
+              <option key={field.field_key} value={field.field_key}>
+                {field.label}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      {previewFields.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-200 mb-2">
+            Preview (first {Math.min(PREVIEW_ROWS, rows.length)} rows as they will be imported)
+          </h4>
+          <div className="bg-gray-950 border border-gray-800 rounded-md overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-900">
+                <tr>
+                  {previewFields.map((field) => (
+                    <th key={field} className="px-3 py-2 text-left text-gray-300 whitespace-nowrap">
+                      {fieldLabel(field)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((lead, idx) => (
+                  <tr key={idx} className="border-t border-gray-800 text-gray-200">
+                    {previewFields.map((field) => (
+                      <td key={field} className="px-3 py-2 whitespace-pre-wrap">
+                        {lead[field] || <span className="text-gray-500">-</span>}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 import { useState } from 'react';
-import { CheckCircle, X, Upload } from 'lucide-react';
+import { AlertCircle, CheckCircle, X, Upload } from 'lucide-react';
 import { ImportLead, DuplicateResult } from '../lib/importUtils';
 
 type ImportPreviewProps = {
   newLeads: ImportLead[];
   duplicates: DuplicateResult[];
+  /** Fuzzy matches still in `newLeads`; each is kept or dropped by the user */
+  possibleDuplicates?: DuplicateResult[];
+  onKeepDuplicate?: (duplicate: DuplicateResult) => void;
+  /** Per row, the field rules it breaks; those rows are left out of the import */
+  issues?: string[][];
   onImport: () => void;
   importing: boolean;
   onEditLead: (index: number, field: string, value: string) => void;
@@ -14,6 +19,9 @@ type ImportPreviewProps = {
 export function ImportPreview({
   newLeads,
   duplicates,
+  possibleDuplicates = [],
+  onKeepDuplicate,
+  issues = [],
   onImport,
   importing,
   onEditLead,
@@ -21,6 +29,9 @@ export function ImportPreview({
 }: ImportPreviewProps) {
   const [editingCell, setEditingCell] = useState<{ row: number; field: string } | null>(null);
   const [editValue, setEditValue] = useState('');
+  const blocked = newLeads.filter((_, idx) => issues[idx]?.length).length;
+  const ready = newLeads.length - blocked;
+  const possibleFor = (lead: ImportLead) => possibleDuplicates.find((dup) => dup.original === lead);
 
   const startEdit = (row: number, field: string, value: string) => {
     setEditingCell({ row, field });
@@ -42,18 +53,25 @@ export function ImportPreview({
           <div className="flex items-center gap-2 text-purple-200">
             <CheckCircle className="w-5 h-5" />
             <span className="font-semibold">
-              {newLeads.length} new lead{newLeads.length !== 1 ? 's' : ''} ready to import
+              {ready} new lead{ready !== 1 ? 's' : ''} ready to import
             </span>
           </div>
+          {blocked > 0 && (
+            <div className="flex items-center gap-2 text-red-300 text-sm mt-1">
+              <AlertCircle className="w-4 h-4" />
+              {blocked} row{blocked !== 1 ? 's' : ''} break field rules and will be skipped — hover the red mark, then
+              edit or remove them
+            </div>
+          )}
         </div>
-        {newLeads.length > 0 && (
+        {ready > 0 && (
           <button
             onClick={onImport}
             disabled={importing}
             className="ml-4 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed font-medium flex items-center gap-2"
           >
             <Upload className="w-4 h-4" />
-            {importing ? 'Importing...' : `Add ${newLeads.length} to Master`}
+            {importing ? 'Importing...' : `Add ${ready} to Temp Leads`}
           </button>
         )}
       </div>
@@ -61,12 +79,12 @@ export function ImportPreview({
       {duplicates.length > 0 && (
         <div className="bg-gray-900 border border-gray-700 rounded-md p-4">
           <h3 className="font-semibold text-gray-200 mb-2">
-            {duplicates.length} duplicate{duplicates.length !== 1 ? 's' : ''} removed:
+            {duplicates.length} exact duplicate{duplicates.length !== 1 ? 's' : ''} removed:
           </h3>
           <div className="space-y-1 text-sm text-gray-300">
             {duplicates.slice(0, 10).map((dup, idx) => (
               <div key={idx} className="font-mono">
-                {dup.original.name} - matched by {dup.reason} with "{dup.matchedWith}"
+                {dup.original.name} - matched by {dup.reason} with "{dup.matchedWith}" ({Math.round(dup.confidence * 100)}%)
               </div>
             ))}
             {duplicates.length > 10 && (
@@ -78,6 +96,38 @@ export function ImportPreview({
         </div>
       )}
 
+      {possibleDuplicates.length > 0 && (
+        <div className="bg-gray-900 border border-yellow-800 rounded-md p-4">
+          <h3 className="font-semibold text-gray-200 mb-2">
+            {possibleDuplicates.length} possible duplicate{possibleDuplicates.length !== 1 ? 's' : ''} to review — these
+            are imported unless you drop them:
+          </h3>
+          <div className="space-y-1 text-sm text-gray-300 max-h-64 overflow-y-auto">
+            {possibleDuplicates.map((dup, idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                <span className="flex-1 min-w-0 truncate font-mono">
+                  {dup.original.name} - {dup.reason} to "{dup.matchedWith}" ({Math.round(dup.confidence * 100)}%)
+                </span>
+                <button
+                  onClick={() => onRemoveLead(newLeads.indexOf(dup.original))}
+                  className="px-2 py-0.5 rounded-md bg-red-900 text-white text-xs hover:bg-red-800"
+                >
+                  Drop
+                </button>
+                {onKeepDuplicate && (
+                  <button
+                    onClick={() => onKeepDuplicate(dup)}
+                    className="px-2 py-0.5 rounded-md bg-gray-800 text-gray-200 text-xs hover:bg-gray-700"
+                  >
+                    Keep
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {newLeads.length > 0 && (
         <div>
           <h3 className="font-semibold text-white mb-2">Preview (click to edit):</h3>
@@ -85,6 +135,7 @@ export function ImportPreview({
             <table className="min-w-full text-sm">
               <thead className="bg-gray-900">
                 <tr>
+                  <th className="px-3 py-2 w-8"></th>
                   <th className="px-3 py-2 text-left text-gray-300">Name</th>
                   <th className="px-3 py-2 text-left text-gray-300">Email</th>
                   <th className="px-3 py-2 text-left text-gray-300">Phone</th>
@@ -95,6 +146,19 @@ export function ImportPreview({
               <tbody>
                 {newLeads.map((lead, idx) => (
                   <tr key={idx} className="border-t border-gray-800 text-gray-200">
+                    <td className="px-3 py-2">
+                      {issues[idx]?.length > 0 ? (
+                        <span title={issues[idx].join('\n')}>
+                          <AlertCircle className="w-4 h-4 text-red-400" />
+                        </span>
+                      ) : (
+                        possibleFor(lead) && (
+                          <span title={`Possible duplicate of "${possibleFor(lead)?.matchedWith}"`}>
+                            <AlertCircle className="w-4 h-4 text-yellow-400" />
+                          </span>
+                        )
+                      )}
+                    </td>
                     {(['name', 'email', 'phone', 'website'] as const).map((field) => (
                       <td
                         key={field}
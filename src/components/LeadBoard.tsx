@@ -0,0 +1,91 @@
+import { useMemo, useState } from 'react';
+import { Lead } from '../lib/supabase';
+
+type LeadBoardProps = {
+  leads: Lead[];
+  stages: { key: string; label: string }[];
+  onMove: (lead: Lead, stageKey: string) => void;
+  onOpen?: (lead: Lead) => void;
+  /** Cards can't be dragged to another stage */
+  readOnly?: boolean;
+};
+
+export function LeadBoard({ leads, stages, onMove, onOpen, readOnly = false }: LeadBoardProps) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overStage, setOverStage] = useState<string | null>(null);
+
+  const columns = useMemo(() => {
+    const known = new Set(stages.map((stage) => stage.key));
+    const byStage = new Map<string, Lead[]>(stages.map((stage) => [stage.key, []]));
+    const unstaged: Lead[] = [];
+    leads.forEach((lead) => {
+      const key = lead.pipeline_status ?? '';
+      if (known.has(key)) byStage.get(key)?.push(lead);
+      else unstaged.push(lead);
+    });
+    const result = stages.map((stage) => ({ key: stage.key, label: stage.label, leads: byStage.get(stage.key) ?? [] }));
+    if (unstaged.length > 0) result.unshift({ key: '', label: 'No stage', leads: unstaged });
+    return result;
+  }, [leads, stages]);
+
+  const handleDrop = (stageKey: string) => {
+    const lead = leads.find((l) => l.id === dragId);
+    setDragId(null);
+    setOverStage(null);
+    if (!lead || !stageKey) return;
+    onMove(lead, stageKey);
+  };
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2 min-h-[520px]">
+      {columns.map((column) => (
+        <div
+          key={column.key || '__none'}
+          onDragOver={(e) => {
+            if (!column.key || readOnly) return;
+            e.preventDefault();
+            setOverStage(column.key);
+          }}
+          onDragLeave={() => setOverStage((prev) => (prev === column.key ? null : prev))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(column.key);
+          }}
+          className={`w-64 shrink-0 rounded-lg border p-2 flex flex-col ${
+            overStage === column.key ? 'border-purple-500 bg-purple-950/40' : 'border-gray-800 bg-gray-950'
+          }`}
+        >
+          <div className="flex items-center justify-between px-1 pb-2 text-sm">
+            <span className="font-medium text-gray-200">{column.label}</span>
+            <span className="text-xs text-gray-500">{column.leads.length}</span>
+          </div>
+          <div className="space-y-2 overflow-y-auto max-h-[600px]">
+            {column.leads.map((lead) => (
+              <div
+                key={lead.id}
+                draggable={!readOnly}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragId(lead.id);
+                }}
+                onDragEnd={() => {
+                  setDragId(null);
+                  setOverStage(null);
+                }}
+                onClick={() => onOpen?.(lead)}
+                className={`bg-gray-900 border border-gray-800 rounded-md p-2 ${readOnly ? 'cursor-pointer' : 'cursor-grab'} hover:border-gray-600 ${
+                  dragId === lead.id ? 'opacity-50' : ''
+                }`}
+              >
+                <div className="text-sm text-white truncate">{lead.name || 'Unnamed lead'}</div>
+                {lead.email && <div className="text-xs text-gray-400 truncate">{lead.email}</div>}
+                {lead.phone && <div className="text-xs text-gray-400 truncate">{lead.phone}</div>}
+                {lead.website && <div className="text-xs text-gray-500 truncate">{lead.website}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
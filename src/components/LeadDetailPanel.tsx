@@ -0,0 +1,391 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link2, MessageSquare, X } from 'lucide-react';
+import { supabase, Lead, LeadField, LeadThread, OutreachEvent } from '../lib/supabase';
+import { AUTO_FIELDS } from '../lib/leadFieldConfig';
+import { describeRejected, normalizeTypedValues, validateFieldValue } from '../lib/fieldTypes';
+import { checkFieldRules, loadTakenValues } from '../lib/fieldRules';
+import { CellChange, LeadTable, recordLeadChanges } from '../lib/leadChanges';
+import { LEAD_WITH_METHODS, parseMethodKeys, splitMemberships, updateLeadRow } from '../lib/leadMethods';
+import { loadOutreachEvents, outreachStatusLabel } from '../lib/outreachEvents';
+import { lastActivity, loadLeadThreads } from '../lib/comments';
+import { leadDetailUrl } from '../lib/leadLink';
+import { useAuth } from '../contexts/AuthContext';
+import { LeadFieldInput } from './LeadFieldInput';
+import { LeadHistoryList } from './LeadHistoryPanel';
+import { CommentThread } from './CommentThread';
+import { CommentThreadModal } from './CommentThreadModal';
+import { LeadTasks } from './LeadTasks';
+
+type Option = { key: string; label: string };
+
+type LeadDetailPanelProps = {
+  leadId: string;
+  outreachOptions: Option[];
+  selectOptions: Record<string, Option[]>;
+  onClose: () => void;
+};
+
+/** Undo in the grid picks up edits made here, since they're logged under the grid's scope */
+const SCOPE_FOR_TABLE: Record<LeadTable, string> = { leads: 'master', temp_leads: 'temp' };
+
+/** Everything about one lead in a slide-over: its fields as a form, tasks, comments, activity and change history */
+export function LeadDetailPanel({ leadId, outreachOptions, selectOptions, onClose }: LeadDetailPanelProps) {
+  const { user, canEdit } = useAuth();
+  const [fields, setFields] = useState<LeadField[]>([]);
+  const [lead, setLead] = useState<Lead | null>(null);
+  const [table, setTable] = useState<LeadTable>('leads');
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [cellThreads, setCellThreads] = useState<LeadThread[]>([]);
+  const [events, setEvents] = useState<OutreachEvent[]>([]);
+  const [commentField, setCommentField] = useState<LeadField | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadLead = useCallback(async () => {
+    try {
+      const { data: fieldRows, error: fieldsError } = await supabase
+        .from('lead_fields')
+        .select('*')
+        .order('position', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true });
+      if (fieldsError) throw fieldsError;
+      const nextFields: LeadField[] = fieldRows || [];
+      setFields(nextFields);
+
+      const { data: master, error: masterError } = await supabase
+        .from('leads')
+        .select(LEAD_WITH_METHODS)
+        .eq('id', leadId)
+        .maybeSingle();
+      if (masterError) throw masterError;
+      if (master) {
+        setTable('leads');
+        setLead(normalizeTypedValues(splitMemberships([master]).leads, nextFields)[0]);
+        return;
+      }
+
+      const { data: temp, error: tempError } = await supabase
+        .from('temp_leads')
+        .select('*')
+        .eq('id', leadId)
+        .maybeSingle();
+      if (tempError) throw tempError;
+      setTable('temp_leads');
+      setLead(temp ? normalizeTypedValues([temp as Lead], nextFields)[0] : null);
+    } catch (err) {
+      console.error('Failed to load lead', err);
+      setError('Failed to load lead');
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId]);
+
+  const loadCellThreads = useCallback(async () => {
+    try {
+      const threads = await loadLeadThreads(leadId);
+      setCellThreads(
+        threads
+          .filter((thread) => thread.field_key !== null && (thread.comments?.length ?? 0) > 0)
+          .sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)))
+      );
+    } catch (err) {
+      console.error('Failed to load comments', err);
+    }
+  }, [leadId]);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setEvents(await loadOutreachEvents(leadId));
+    } catch (err) {
+      console.error('Failed to load outreach events', err);
+    }
+  }, [leadId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setDrafts({});
+    loadLead();
+    loadCellThreads();
+    loadEvents();
+    const channel = supabase
+      .channel(`lead-detail-${leadId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'leads', filter: `id=eq.${leadId}` }, () => {
+        loadLead();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'temp_leads', filter: `id=eq.${leadId}` }, () => {
+        loadLead();
+      })
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_outreach_methods', filter: `lead_id=eq.${leadId}` },
+        () => {
+          loadLead();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_comments', filter: `lead_id=eq.${leadId}` },
+        () => {
+          loadCellThreads();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_threads', filter: `lead_id=eq.${leadId}` },
+        () => {
+          loadCellThreads();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'outreach_events', filter: `lead_id=eq.${leadId}` },
+        () => {
+          loadEvents();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leadId, loadLead, loadCellThreads, loadEvents]);
+
+  const editableFields = useMemo(() => fields.filter((field) => !AUTO_FIELDS.has(field.field_key)), [fields]);
+
+  const storedValue = (fieldKey: string) =>
+    lead ? ((lead as Record<string, string | null>)[fieldKey] ?? '').toString() : '';
+  const optionsFor = (field: LeadField) =>
+    field.field_key === 'outreach_method' ? outreachOptions : selectOptions[field.field_key] ?? [];
+  const fieldLabel = (key: string) => fields.find((field) => field.field_key === key)?.label || key;
+  const optionLabel = (options: Option[] | undefined, key: string) =>
+    options?.find((option) => option.key === key)?.label || key;
+  const dirty = Object.keys(drafts).length > 0;
+
+  const handleSave = async () => {
+    if (!lead || !user) return;
+    setSaving(true);
+    setError('');
+    try {
+      const taken = await loadTakenValues(editableFields);
+      const payload: Record<string, string | null> = {};
+      const changes: CellChange[] = [];
+      const rejected: string[] = [];
+
+      editableFields.forEach((field) => {
+        if (!(field.field_key in drafts)) return;
+        let nextValue = drafts[field.field_key];
+        if (field.field_key === 'outreach_method' && table === 'leads') {
+          nextValue = parseMethodKeys(nextValue, outreachOptions).join(',');
+        }
+        const checked = validateFieldValue(field, nextValue, selectOptions[field.field_key]);
+        if (!checked.ok) {
+          rejected.push(checked.message);
+          return;
+        }
+        const ruleError = checkFieldRules(field, checked.value, lead.id, taken);
+        if (ruleError) {
+          rejected.push(ruleError);
+          return;
+        }
+        const prev = (lead as Record<string, string | null>)[field.field_key] ?? null;
+        if ((prev ?? '') === (checked.value ?? '')) return;
+        payload[field.field_key] = checked.value;
+        changes.push({ id: lead.id, fieldKey: field.field_key, prev, next: checked.value });
+      });
+
+      if (rejected.length > 0) {
+        setError(describeRejected(rejected));
+        return;
+      }
+      if (changes.length > 0) {
+        if (table === 'leads') {
+          await updateLeadRow(lead.id, payload, outreachOptions);
+        } else {
+          const { error: updateError } = await supabase.from('temp_leads').update(payload).eq('id', lead.id);
+          if (updateError) throw updateError;
+        }
+        await recordLeadChanges(SCOPE_FOR_TABLE[table], table, user.id, changes, []);
+      }
+      setDrafts({});
+      await loadLead();
+    } catch (err) {
+      console.error('Failed to save lead', err);
+      setError('Failed to save lead');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(leadDetailUrl(leadId));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Failed to copy link', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-[560px] max-w-[95vw] bg-gray-950 border-l border-gray-800 shadow-xl z-40 flex flex-col">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold text-white truncate">
+            {lead ? lead.name || lead.email || 'Unnamed lead' : 'Lead'}
+          </h3>
+          <div className="text-xs text-gray-400">{table === 'temp_leads' ? 'Temp Import' : 'Master Leads'}</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleCopyLink}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-gray-800 text-gray-200 text-xs hover:bg-gray-700"
+          >
+            <Link2 className="w-3.5 h-3.5" />
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4 space-y-6">
+        {loading && <div className="text-sm text-gray-400">Loading...</div>}
+        {!loading && !lead && !error && <div className="text-sm text-gray-500">This lead no longer exists</div>}
+
+        {lead && (
+          <section className="space-y-3">
+            <h4 className="text-sm font-semibold text-gray-300">Details</h4>
+            {editableFields.map((field) => (
+              <div key={field.id} className="space-y-1">
+                <label className="block text-xs font-medium text-gray-400">
+                  {field.label}
+                  {field.required && <span className="text-red-400"> *</span>}
+                </label>
+                <LeadFieldInput
+                  field={field}
+                  value={drafts[field.field_key] ?? storedValue(field.field_key)}
+                  options={optionsFor(field)}
+                  multiple={field.field_key === 'outreach_method' && table === 'leads'}
+                  disabled={!canEdit || saving}
+                  onChange={(value) => setDrafts((prev) => ({ ...prev, [field.field_key]: value }))}
+                />
+              </div>
+            ))}
+            {error && (
+              <div className="p-3 bg-red-950 border border-red-800 text-red-200 rounded-md text-xs whitespace-pre-wrap">
+                {error}
+              </div>
+            )}
+            {canEdit && (
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => {
+                    setDrafts({});
+                    setError('');
+                  }}
+                  disabled={!dirty || saving}
+                  className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!dirty || saving}
+                  className="px-3 py-1.5 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )}
+          </section>
+        )}
+
+        {lead && table === 'leads' && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-300">Tasks</h4>
+            <LeadTasks leadId={lead.id} assigneeOptions={selectOptions.owner_id ?? []} />
+          </section>
+        )}
+
+        {lead && table === 'leads' && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-300">Comments</h4>
+            <CommentThread leadId={lead.id} fieldKey={null} />
+          </section>
+        )}
+
+        {lead && table === 'leads' && cellThreads.length > 0 && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-300">Cell comments</h4>
+            {cellThreads.map((thread) => {
+              const comments = thread.comments ?? [];
+              return (
+                <button
+                  key={thread.id}
+                  onClick={() => setCommentField(fields.find((field) => field.field_key === thread.field_key) ?? null)}
+                  className={`w-full text-left border-l-2 pl-3 py-1 rounded-r-md hover:bg-gray-900 ${
+                    thread.resolved_at ? 'border-gray-600 opacity-70' : 'border-yellow-600'
+                  }`}
+                >
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-gray-300">{fieldLabel(thread.field_key ?? '')}</span>
+                    <span className="flex items-center gap-1 text-gray-500">
+                      <MessageSquare className="w-3.5 h-3.5" />
+                      {comments.length}
+                      {thread.resolved_at && ' · Resolved'}
+                    </span>
+                  </div>
+                  <div className="mt-1 text-sm text-white whitespace-pre-wrap break-words line-clamp-2">
+                    {comments[comments.length - 1]?.body}
+                  </div>
+                </button>
+              );
+            })}
+          </section>
+        )}
+
+        {lead && table === 'leads' && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-300">Activity</h4>
+            {events.length === 0 && <div className="text-sm text-gray-500">No activity logged yet</div>}
+            <ol className="space-y-3">
+              {events.map((event) => (
+                <li key={event.id} className="border-l-2 border-purple-700 pl-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-white font-medium">
+                      {selectOptions.pipeline_status?.some((stage) => stage.key === event.status)
+                        ? optionLabel(selectOptions.pipeline_status, event.status)
+                        : outreachStatusLabel(event.status)}
+                      <span className="text-gray-400 font-normal"> via {optionLabel(outreachOptions, event.method)}</span>
+                    </span>
+                    <span className="text-xs text-gray-500">{new Date(event.created_at).toLocaleString()}</span>
+                  </div>
+                  {event.notes && <div className="mt-1 text-xs text-gray-300 whitespace-pre-wrap">{event.notes}</div>}
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        {lead && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-300">History</h4>
+            <LeadHistoryList leadId={lead.id} fields={fields} />
+          </section>
+        )}
+      </div>
+
+      {commentField && (
+        <CommentThreadModal
+          leadId={leadId}
+          fieldKey={commentField.field_key}
+          fieldLabel={commentField.label}
+          onClose={() => setCommentField(null)}
+        />
+      )}
+    </div>
+  );
+}
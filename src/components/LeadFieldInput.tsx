@@ -0,0 +1,97 @@
+import { LeadField } from '../lib/supabase';
+import { isSelectField } from '../lib/leadFieldConfig';
+import { splitMultiValue } from '../lib/dropdownCell';
+
+type LeadFieldInputProps = {
+  field: LeadField;
+  value: string;
+  options: { key: string; label: string }[];
+  /** Show a select field as a checkbox list even if it isn't a multi-select (a lead's channels) */
+  multiple?: boolean;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+};
+
+const inputTypeFor = (type: string) =>
+  type === 'email'
+    ? 'email'
+    : type === 'phone'
+    ? 'tel'
+    : type === 'url'
+    ? 'url'
+    : type === 'number' || type === 'currency'
+    ? 'number'
+    : type === 'date'
+    ? 'date'
+    : 'text';
+
+/** The form control for one lead field, matching its type; used by Add Lead and the lead detail panel */
+export function LeadFieldInput({ field, value, options, multiple, disabled, onChange }: LeadFieldInputProps) {
+  const isSelect = isSelectField(field.field_key, field.type);
+
+  if (isSelect && (multiple || field.type === 'multi_select')) {
+    const selected = splitMultiValue(value);
+    return (
+      <div className="flex flex-wrap gap-x-4 gap-y-1 px-3 py-2 border border-gray-700 rounded-md bg-gray-900">
+        {options.map((option) => {
+          const checked = selected.includes(option.key);
+          return (
+            <label key={option.key} className="flex items-center gap-1.5 text-sm text-gray-200">
+              <input
+                type="checkbox"
+                checked={checked}
+                disabled={disabled}
+                onChange={() =>
+                  onChange((checked ? selected.filter((key) => key !== option.key) : [...selected, option.key]).join(','))
+                }
+              />
+              {option.label}
+            </label>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (isSelect) {
+    return (
+      <select
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+      >
+        <option value="">-</option>
+        {options.map((option) => (
+          <option key={option.key} value={option.key}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  if (field.type === 'checkbox') {
+    return (
+      <input
+        type="checkbox"
+        checked={value === 'true'}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.checked ? 'true' : '')}
+        className="block mt-2"
+      />
+    );
+  }
+
+  return (
+    <input
+      type={inputTypeFor(field.type)}
+      step={field.type === 'currency' ? '0.01' : field.type === 'number' ? 'any' : undefined}
+      placeholder={field.type === 'tags' ? 'Comma-separated, e.g., vip, retail' : undefined}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white disabled:opacity-70"
+    />
+  );
+}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase, LeadChange, LeadField, Profile } from '../lib/supabase';
+import { loadLeadHistory } from '../lib/leadChanges';
+import { loadTeam, profileLabel } from '../lib/team';
+import { useAuth } from '../contexts/AuthContext';
+
+type LeadHistoryPanelProps = {
+  lead: { id: string; name: string | null; email: string | null };
+  fields: LeadField[];
+  onClose: () => void;
+};
+
+const ACTION_PREFIX: Record<LeadChange['action'], string> = {
+  update: '',
+  insert: '',
+  merge: '',
+  undo: 'Undo: ',
+  redo: 'Redo: ',
+};
+
+/** A lead's change log, newest first; shown in the History drawer and the lead detail panel */
+export function LeadHistoryList({ leadId, fields }: { leadId: string; fields: LeadField[] }) {
+  const { user } = useAuth();
+  const [changes, setChanges] = useState<LeadChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [team, setTeam] = useState<Profile[]>([]);
+
+  useEffect(() => {
+    loadTeam()
+      .then(setTeam)
+      .catch((err) => console.error('Failed to load team', err));
+  }, []);
+
+  const loadChanges = useCallback(async () => {
+    try {
+      setChanges(await loadLeadHistory(leadId));
+    } catch (err) {
+      console.error('Failed to load lead history', err);
+      setError('Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadChanges();
+    const channel = supabase
+      .channel(`lead-history-${leadId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'lead_changes', filter: `lead_id=eq.${leadId}` },
+        () => {
+          loadChanges();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leadId, loadChanges]);
+
+  const fieldLabel = (key: string) => fields.find((field) => field.field_key === key)?.label || key;
+  const actorLabel = (actor: string | null) =>
+    actor && actor === user?.id ? 'You' : profileLabel(team.find((member) => member.id === actor));
+  const valueLabel = (value: string | null) => (value === null || value === '' ? 'empty' : `“${value}”`);
+
+  const describe = (change: LeadChange) => {
+    const prefix = ACTION_PREFIX[change.action];
+    const merged = (change.row_data as { loser_ids?: string[] } | null)?.loser_ids;
+    if (merged) {
+      const count = `${merged.length} duplicate${merged.length === 1 ? '' : 's'}`;
+      return change.action === 'undo' ? `${prefix}split ${count} back out` : `${prefix}merged ${count} into this lead`;
+    }
+    if (!change.field_key) {
+      return change.action === 'undo' ? `${prefix}removed the row` : `${prefix}created the row`;
+    }
+    return `${prefix}${fieldLabel(change.field_key)} ${valueLabel(change.old_value)} → ${valueLabel(change.new_value)}`;
+  };
+
+  return (
+    <>
+      {loading && <div className="text-sm text-gray-400">Loading...</div>}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      {!loading && !error && changes.length === 0 && (
+        <div className="text-sm text-gray-500">No changes recorded yet</div>
+      )}
+      <ol className="space-y-3">
+        {changes.map((change) => (
+          <li
+            key={change.id}
+            className={`border-l-2 pl-3 ${change.undone_at ? 'border-gray-700 opacity-60' : 'border-purple-700'}`}
+          >
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-300">{actorLabel(change.actor)}</span>
+              <span className="text-gray-500">{new Date(change.created_at).toLocaleString()}</span>
+            </div>
+            <div className="mt-1 text-sm text-white break-words">{describe(change)}</div>
+            {change.undone_at && <div className="text-xs text-gray-500">Undone</div>}
+          </li>
+        ))}
+      </ol>
+    </>
+  );
+}
+
+export function LeadHistoryPanel({ lead, fields, onClose }: LeadHistoryPanelProps) {
+  return (
+    <div className="fixed inset-y-0 right-0 w-[420px] max-w-[95vw] bg-gray-950 border-l border-gray-800 shadow-xl z-40 flex flex-col">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+        <div>
+          <h3 className="text-lg font-semibold text-white">History</h3>
+          <div className="text-xs text-gray-400">{lead.name || lead.email || 'Unnamed lead'}</div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4">
+        <LeadHistoryList leadId={lead.id} fields={fields} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, LeadTask } from '../lib/supabase';
+import {
+  DUE_STATE_CLASS,
+  TaskDraft,
+  addTask,
+  deleteTask,
+  formatDueDate,
+  loadLeadTasks,
+  localDay,
+  setTaskDone,
+  taskDueState,
+  updateTask,
+} from '../lib/tasks';
+import { useAuth } from '../contexts/AuthContext';
+
+type Option = { key: string; label: string };
+
+const inputClass = 'px-2 py-1.5 rounded-md bg-gray-950 border border-gray-800 text-white text-sm';
+
+type TaskFormProps = {
+  initial: TaskDraft;
+  assigneeOptions: Option[];
+  submitLabel: string;
+  /** Resolves to whether it was saved; a new task's title is only cleared when it was */
+  onSubmit: (draft: TaskDraft) => Promise<boolean>;
+  onCancel?: () => void;
+};
+
+/** Title, due date and assignee of a new or edited task */
+function TaskForm({ initial, assigneeOptions, submitLabel, onSubmit, onCancel }: TaskFormProps) {
+  const [draft, setDraft] = useState<TaskDraft>(initial);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!draft.title.trim() || !draft.due_date) return;
+    setSaving(true);
+    try {
+      if ((await onSubmit(draft)) && !onCancel) setDraft((prev) => ({ ...prev, title: '' }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={draft.title}
+        onChange={(e) => setDraft((prev) => ({ ...prev, title: e.target.value }))}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSubmit();
+        }}
+        placeholder="e.g., Call back, send proposal"
+        className={`w-full ${inputClass}`}
+      />
+      <div className="flex gap-2">
+        <input
+          type="date"
+          value={draft.due_date}
+          onChange={(e) => setDraft((prev) => ({ ...prev, due_date: e.target.value }))}
+          className={inputClass}
+        />
+        <select
+          value={draft.assignee_id ?? ''}
+          onChange={(e) => setDraft((prev) => ({ ...prev, assignee_id: e.target.value || null }))}
+          className={`flex-1 min-w-0 ${inputClass}`}
+        >
+          <option value="">Unassigned</option>
+          {assigneeOptions.map((option) => (
+            <option key={option.key} value={option.key}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={saving || !draft.title.trim() || !draft.due_date}
+          className="px-3 py-1.5 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600 disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type LeadTasksProps = {
+  leadId: string;
+  /** Teammates a task can be assigned to */
+  assigneeOptions: Option[];
+};
+
+/** A lead's follow-up tasks: tick them off, edit or delete them, and add new ones */
+export function LeadTasks({ leadId, assigneeOptions }: LeadTasksProps) {
+  const { user, canEdit } = useAuth();
+  const [tasks, setTasks] = useState<LeadTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const today = localDay();
+
+  const refresh = useCallback(async () => {
+    try {
+      setTasks(await loadLeadTasks(leadId));
+    } catch (err) {
+      console.error('Failed to load tasks', err);
+      setError('Failed to load tasks');
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+    const channel = supabase
+      .channel(`lead-tasks-${leadId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_tasks', filter: `lead_id=eq.${leadId}` },
+        () => {
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leadId, refresh]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    try {
+      await action();
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+      return false;
+    }
+  };
+
+  const assigneeLabel = (id: string | null) =>
+    id ? (id === user?.id ? 'You' : assigneeOptions.find((option) => option.key === id)?.label || 'Unknown user') : 'Unassigned';
+
+  return (
+    <div className="space-y-3">
+      {loading && <div className="text-sm text-gray-400">Loading...</div>}
+      {!loading && tasks.length === 0 && <div className="text-sm text-gray-500">No tasks yet</div>}
+
+      <ul className="space-y-2">
+        {tasks.map((task) => {
+          const state = taskDueState(task, today);
+          return (
+            <li key={task.id} className={task.done_at ? 'opacity-60' : ''}>
+              {editingId === task.id ? (
+                <TaskForm
+                  initial={{ title: task.title, due_date: task.due_date, assignee_id: task.assignee_id }}
+                  assigneeOptions={assigneeOptions}
+                  submitLabel="Save"
+                  onSubmit={(draft) =>
+                    run(async () => {
+                      await updateTask(task.id, draft);
+                      setEditingId(null);
+                    }, 'Failed to save task')
+                  }
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(task.done_at)}
+                    disabled={!canEdit}
+                    onChange={(e) =>
+                      run(() => setTaskDone(task.id, e.target.checked, user?.id ?? null), 'Failed to update task')
+                    }
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-sm text-white break-words ${task.done_at ? 'line-through' : ''}`}>
+                      {task.title}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      <span className={task.done_at ? '' : DUE_STATE_CLASS[state]}>
+                        {!task.done_at && state === 'overdue' ? 'Overdue' : 'Due'} {formatDueDate(task.due_date)}
+                      </span>
+                      {' · '}
+                      {assigneeLabel(task.assignee_id)}
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-3 text-xs">
+                      {!task.done_at && (
+                        <button onClick={() => setEditingId(task.id)} className="text-gray-500 hover:text-white">
+                          Edit
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          if (!confirm('Delete this task?')) return;
+                          run(() => deleteTask(task.id), 'Failed to delete task');
+                        }}
+                        className="text-gray-500 hover:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {canEdit && (
+        <TaskForm
+          initial={{ title: '', due_date: today, assignee_id: user?.id ?? null }}
+          assigneeOptions={assigneeOptions}
+          submitLabel="Add task"
+          onSubmit={(draft) => run(() => addTask(leadId, draft), 'Failed to add task')}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { supabase, LeadField } from '../lib/supabase';
+import { X } from 'lucide-react';
+import { SelectOption } from '../lib/dropdownCell';
+import { OPTION_COLORS, optionColorHex } from '../lib/optionColors';
+
+type ManageFieldOptionsModalProps = {
+  /** Current option lists, keyed by field */
+  fieldOptions: Record<string, SelectOption[]>;
+  onClose: () => void;
+  onChange: () => void;
+};
+
+/** Select fields whose options come from their own tables (channels, stages, team) */
+const BUILT_IN_SELECTS = new Set(['outreach_method', 'pipeline_status', 'owner_id']);
+
+export function ManageFieldOptionsModal({ fieldOptions, onClose, onChange }: ManageFieldOptionsModalProps) {
+  const [fields, setFields] = useState<LeadField[]>([]);
+  const [fieldKey, setFieldKey] = useState('');
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [newLabel, setNewLabel] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const options = fieldOptions[fieldKey] ?? [];
+
+  useEffect(() => {
+    supabase
+      .from('lead_fields')
+      .select('*')
+      .in('type', ['select', 'multi_select'])
+      .order('created_at', { ascending: true })
+      .then(({ data, error: fetchError }) => {
+        if (fetchError) {
+          console.error('Error loading select fields:', fetchError);
+          return;
+        }
+        const selects = (data || []).filter((field: LeadField) => !BUILT_IN_SELECTS.has(field.field_key));
+        setFields(selects);
+        setFieldKey((current) => current || selects[0]?.field_key || '');
+      });
+  }, []);
+
+  useEffect(() => {
+    setLabels(Object.fromEntries((fieldOptions[fieldKey] ?? []).map((option) => [option.key, option.label])));
+  }, [fieldOptions, fieldKey]);
+
+  const normalizeKey = (value: string) =>
+    value
+      .toLowerCase()
+      .trim()
+      .replace(/\s+/g, '_')
+      .replace(/[^a-z0-9_]/g, '');
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    setLoading(true);
+    try {
+      await action();
+      onChange();
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateOption = (key: string, patch: Partial<SelectOption> & { position?: number }) =>
+    supabase.from('lead_field_options').update(patch).eq('field_key', fieldKey).eq('key', key);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = newLabel.trim();
+    const key = normalizeKey(trimmed);
+    if (!key) {
+      setError('Invalid option name');
+      return;
+    }
+    if (options.some((option) => option.key === key)) {
+      setError('This option already exists');
+      return;
+    }
+    await run(async () => {
+      const { error: insertError } = await supabase
+        .from('lead_field_options')
+        .insert([{ field_key: fieldKey, key, label: trimmed, position: options.length + 1 }]);
+      if (insertError) throw insertError;
+      setNewLabel('');
+    }, 'Failed to add option');
+  };
+
+  const handleRename = async (option: SelectOption) => {
+    const next = labels[option.key]?.trim();
+    if (!next || next === option.label) return;
+    await run(async () => {
+      const { error: updateError } = await updateOption(option.key, { label: next });
+      if (updateError) throw updateError;
+    }, 'Failed to rename option');
+  };
+
+  const handleColor = async (option: SelectOption, color: string) => {
+    await run(async () => {
+      const { error: updateError } = await updateOption(option.key, { color: color || null });
+      if (updateError) throw updateError;
+    }, 'Failed to change color');
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    if (!options[index + direction]) return;
+    const reordered = [...options];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    await run(async () => {
+      const results = await Promise.all(
+        reordered.map((option, position) => updateOption(option.key, { position: position + 1 }))
+      );
+      const failed = results.find((result) => result.error);
+      if (failed?.error) throw failed.error;
+    }, 'Failed to reorder options');
+  };
+
+  const handleDelete = async (option: SelectOption) => {
+    if (!confirm(`Delete "${option.label}" option? Leads using it keep their value but it will no longer be listed.`)) return;
+    await run(async () => {
+      const { error: deleteError } = await supabase
+        .from('lead_field_options')
+        .delete()
+        .eq('field_key', fieldKey)
+        .eq('key', option.key);
+      if (deleteError) throw deleteError;
+    }, 'Failed to delete option');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Dropdown Options</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {fields.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No custom dropdown fields yet. Add one with “Add New Lead Info” and the Single select or Multi-select type.
+          </p>
+        ) : (
+          <>
+            <select
+              value={fieldKey}
+              onChange={(e) => setFieldKey(e.target.value)}
+              className="w-full mb-4 px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+            >
+              {fields.map((field) => (
+                <option key={field.field_key} value={field.field_key}>
+                  {field.label}
+                  {field.type === 'multi_select' ? ' (multi-select)' : ''}
+                </option>
+              ))}
+            </select>
+
+            <div className="space-y-2 max-h-80 overflow-y-auto mb-4">
+              {options.map((option, index) => (
+                <div key={option.key} className="flex items-center gap-2">
+                  <span
+                    className="w-3 h-3 rounded-full border border-gray-700 shrink-0"
+                    style={{ backgroundColor: optionColorHex(option.color) ?? 'transparent' }}
+                  />
+                  <input
+                    type="text"
+                    value={labels[option.key] ?? option.label}
+                    onChange={(e) => setLabels((prev) => ({ ...prev, [option.key]: e.target.value }))}
+                    onBlur={() => handleRename(option)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    disabled={loading}
+                    className="flex-1 min-w-0 px-3 py-1.5 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white text-sm"
+                  />
+                  <select
+                    value={option.color ?? ''}
+                    onChange={(e) => handleColor(option, e.target.value)}
+                    disabled={loading}
+                    className="text-xs bg-gray-900 border border-gray-700 text-gray-200 rounded px-1 py-1"
+                  >
+                    <option value="">No color</option>
+                    {OPTION_COLORS.map((color) => (
+                      <option key={color.key} value={color.key}>
+                        {color.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={loading || index === 0}
+                    className="text-gray-400 hover:text-white text-xs disabled:opacity-30"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={loading || index === options.length - 1}
+                    className="text-gray-400 hover:text-white text-xs disabled:opacity-30"
+                  >
+                    ▼
+                  </button>
+                  <button
+                    onClick={() => handleDelete(option)}
+                    disabled={loading}
+                    className="text-xs text-red-400 hover:text-red-300"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <input
+                type="text"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                placeholder="e.g., Agency"
+                className="flex-1 px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+              />
+              <button
+                type="submit"
+                disabled={loading || !newLabel.trim() || !fieldKey}
+                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                Add Option
+              </button>
+            </form>
+          </>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { supabase, PipelineStage } from '../lib/supabase';
+import { X } from 'lucide-react';
+
+type ManageStagesModalProps = {
+  stages: PipelineStage[];
+  onClose: () => void;
+  onChange: () => void;
+};
+
+export function ManageStagesModal({ stages, onClose, onChange }: ManageStagesModalProps) {
+  // Unsaved label edits only; stages reload on every realtime change, so the rest follow `stages`
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [newLabel, setNewLabel] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const normalizeKey = (value: string) =>
+    value
+      .toLowerCase()
+      .trim()
+      .replace(/\s+/g, '_')
+      .replace(/[^a-z0-9_]/g, '');
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    setLoading(true);
+    try {
+      await action();
+      onChange();
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = newLabel.trim();
+    const key = normalizeKey(trimmed);
+    if (!key) {
+      setError('Invalid stage name');
+      return;
+    }
+    if (stages.some((stage) => stage.key === key)) {
+      setError('This stage already exists');
+      return;
+    }
+    await run(async () => {
+      const position = Math.max(0, ...stages.map((stage) => stage.position)) + 1;
+      const { error: insertError } = await supabase
+        .from('pipeline_stages')
+        .insert([{ key, label: trimmed, position }]);
+      if (insertError) throw insertError;
+      setNewLabel('');
+    }, 'Failed to add stage');
+  };
+
+  const dropDraft = (key: string) =>
+    setLabels((prev) => {
+      const rest = { ...prev };
+      delete rest[key];
+      return rest;
+    });
+
+  const handleRename = async (stage: PipelineStage) => {
+    const next = labels[stage.key]?.trim();
+    if (next === undefined) return;
+    if (!next) {
+      // Put the saved name back so the input doesn't look renamed
+      dropDraft(stage.key);
+      setError('Stage name cannot be empty');
+      return;
+    }
+    if (next === stage.label) {
+      dropDraft(stage.key);
+      return;
+    }
+    await run(async () => {
+      const { error: updateError } = await supabase
+        .from('pipeline_stages')
+        .update({ label: next })
+        .eq('key', stage.key);
+      if (updateError) throw updateError;
+      dropDraft(stage.key);
+    }, 'Failed to rename stage');
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const current = stages[index];
+    const other = stages[index + direction];
+    if (!current || !other) return;
+    await run(async () => {
+      const results = await Promise.all([
+        supabase.from('pipeline_stages').update({ position: other.position }).eq('key', current.key),
+        supabase.from('pipeline_stages').update({ position: current.position }).eq('key', other.key),
+      ]);
+      const failed = results.find((result) => result.error);
+      if (failed?.error) throw failed.error;
+    }, 'Failed to reorder stages');
+  };
+
+  const handleDelete = async (stage: PipelineStage) => {
+    if (!confirm(`Delete "${stage.label}" stage? Leads in this stage keep their value but it will no longer be listed.`)) return;
+    await run(async () => {
+      const { error: deleteError } = await supabase.from('pipeline_stages').delete().eq('key', stage.key);
+      if (deleteError) throw deleteError;
+    }, 'Failed to delete stage');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Pipeline Stages</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto mb-4">
+          {stages.map((stage, index) => (
+            <div key={stage.key} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={labels[stage.key] ?? stage.label}
+                onChange={(e) => setLabels((prev) => ({ ...prev, [stage.key]: e.target.value }))}
+                onBlur={() => handleRename(stage)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                disabled={loading}
+                className="flex-1 px-3 py-1.5 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white text-sm"
+              />
+              <button
+                onClick={() => handleMove(index, -1)}
+                disabled={loading || index === 0}
+                className="text-gray-400 hover:text-white text-xs disabled:opacity-30"
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                disabled={loading || index === stages.length - 1}
+                className="text-gray-400 hover:text-white text-xs disabled:opacity-30"
+              >
+                ▼
+              </button>
+              <button
+                onClick={() => handleDelete(stage)}
+                disabled={loading}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            type="text"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="e.g., Proposal Sent"
+            className="flex-1 px-3 py-2 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white"
+          />
+          <button
+            type="submit"
+            disabled={loading || !newLabel.trim()}
+            className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            Add Stage
+          </button>
+        </form>
+
+        {error && (
+          <div className="mt-4 bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
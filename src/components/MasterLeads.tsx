@@ -1,19 +1,45 @@
 import { useEffect, useMemo, useState } from 'react';
-import { EditListItem, FillPatternEventArgs, GridCellKind, GridSelection, Item } from '@glideapps/glide-data-grid';
-import { supabase, Lead, LeadField } from '../lib/supabase';
-import { Plus } from 'lucide-react';
+import { EditListItem, FillPatternEventArgs, GridSelection, Item } from '@glideapps/glide-data-grid';
+import { supabase, Lead, LeadField, LeadMethodMembership } from '../lib/supabase';
+import { Plus, X } from 'lucide-react';
 import { AddLeadModal } from './AddLeadModal';
-import { GridPrefs, SavedView, loadGridPrefs, saveGridPrefs, loadViews, saveViews, moveInArray } from '../lib/gridPrefs';
-import { GlideLeadGrid } from './GlideLeadGrid';
-import { CellNoteModal } from './CellNoteModal';
+import { GridPrefs, SavedView, loadGridPrefs, saveGridPrefs, moveInArray } from '../lib/gridPrefs';
+import { useSavedViews } from '../lib/useSavedViews';
+import { useAuth } from '../contexts/AuthContext';
+import { ChangeTarget, useChangeHistory } from '../lib/useChangeHistory';
+import { CellChange, describeSaveError, saveRowEdits } from '../lib/leadChanges';
+import { CellFocus, GlideLeadGrid } from './GlideLeadGrid';
+import { CommentThreadModal } from './CommentThreadModal';
+import { openLeadDetail } from '../lib/leadLink';
+import { LeadHistoryPanel } from './LeadHistoryPanel';
+import { ExportModal } from './ExportModal';
+import { getEditedCellValue } from '../lib/dropdownCell';
+import { READ_ONLY_FIELDS } from '../lib/leadFieldConfig';
+import { describeRejected, normalizeTypedValues, validateFieldValue } from '../lib/fieldTypes';
+import { checkFieldRules, claimValue, loadTakenValues } from '../lib/fieldRules';
+import { useFieldIssues } from '../lib/useFieldIssues';
+import { useCellComments } from '../lib/useCellComments';
+import { OutreachLogDrawer } from './OutreachLogDrawer';
+import { DuplicateReviewModal } from './DuplicateReviewModal';
+import { mergeLeads } from '../lib/leadMerge';
+import {
+  LEAD_WITH_METHODS,
+  addLeadsToMethod,
+  insertLeadRows,
+  parseMethodKeys,
+  splitMemberships,
+  updateLeadRow,
+} from '../lib/leadMethods';
 
 type MasterLeadsProps = {
   outreachOptions: { key: string; label: string }[];
-};
-
-type UndoAction = {
-  changes: { id: string; fieldKey: string; prev: string | null; next: string | null }[];
-  insertedRows: Lead[];
+  stageOptions: { key: string; label: string }[];
+  ownerOptions: { key: string; label: string }[];
+  /** Option lists of custom select fields, keyed by field */
+  fieldOptions: Record<string, { key: string; label: string }[]>;
+  /** Cell to jump to, e.g. from the Comments browser */
+  focusCell?: CellFocus | null;
+  onCellFocused?: () => void;
 };
 
 type SortRule = {
@@ -21,31 +47,50 @@ type SortRule = {
   dir: 'asc' | 'desc';
 };
 
-export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
+export function MasterLeads({
+  outreachOptions,
+  stageOptions,
+  ownerOptions,
+  fieldOptions,
+  focusCell,
+  onCellFocused,
+}: MasterLeadsProps) {
   const [leads, setLeads] = useState<Lead[]>([]);
+  const [memberships, setMemberships] = useState<Record<string, LeadMethodMembership[]>>({});
   const [fields, setFields] = useState<LeadField[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddLead, setShowAddLead] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [bulkMethod, setBulkMethod] = useState('');
+  const [bulkOwner, setBulkOwner] = useState('');
+  const { user, canEdit } = useAuth();
+  const [myLeadsOnly, setMyLeadsOnly] = useState(() => {
+    if (typeof window === 'undefined') return false;
+    return localStorage.getItem('myLeads:master') === 'true';
+  });
   const [searchQuery, setSearchQuery] = useState('');
   const [prefs, setPrefs] = useState<GridPrefs>(() => loadGridPrefs('master'));
-  const [views, setViews] = useState<SavedView[]>(() => loadViews('master'));
+  const { views, ownerId, saveView, setViewShared, deleteView: removeView } = useSavedViews('master');
   const [showColumns, setShowColumns] = useState(false);
   const [showViews, setShowViews] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [activeView, setActiveView] = useState<string>('');
   const [showHint, setShowHint] = useState(false);
-  const [undoStack, setUndoStack] = useState<UndoAction[]>([]);
-  const [redoStack, setRedoStack] = useState<UndoAction[]>([]);
+  // What the last edit, paste, undo or redo couldn't save, shown above the grid until the next one
+  const [rejectedNotice, setRejectedNotice] = useState('');
+  const [showExport, setShowExport] = useState(false);
+  const history = useChangeHistory('master', 'leads');
   const [filters, setFilters] = useState<Record<string, string>>({});
   const [sorts, setSorts] = useState<SortRule[]>([]);
   const formatOptions = ['text', 'number', 'date', 'phone'];
-  const [noteTarget, setNoteTarget] = useState<{
+  const [commentTarget, setCommentTarget] = useState<{
     leadId: string;
     fieldKey: string;
     fieldLabel: string;
   } | null>(null);
+  const [activityLeadId, setActivityLeadId] = useState<string | null>(null);
+  const [historyLeadId, setHistoryLeadId] = useState<string | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -58,6 +103,13 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
           loadData();
         }
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_outreach_methods' },
+        () => {
+          loadData();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -65,53 +117,29 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
     };
   }, []);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const undoRaw = localStorage.getItem('undo:master');
-    const redoRaw = localStorage.getItem('redo:master');
-    if (undoRaw) {
-      try {
-        setUndoStack(JSON.parse(undoRaw));
-      } catch {
-        // ignore
-      }
-    }
-    if (redoRaw) {
-      try {
-        setRedoStack(JSON.parse(redoRaw));
-      } catch {
-        // ignore
-      }
-    }
-  }, []);
-
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem('undo:master', JSON.stringify(undoStack.slice(-50)));
-  }, [undoStack]);
-
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem('redo:master', JSON.stringify(redoStack.slice(-50)));
-  }, [redoStack]);
-
   const loadData = async () => {
     setLoading(true);
     try {
       const [leadsResult, fieldsResult] = await Promise.all([
         supabase
           .from('leads')
-          .select('*')
+          .select(LEAD_WITH_METHODS)
           .order('pinned', { ascending: false })
           .order('sort_order', { ascending: true, nullsFirst: false })
           .order('created_at', { ascending: true }),
-        supabase.from('lead_fields').select('*').order('created_at', { ascending: true }),
+        supabase
+          .from('lead_fields')
+          .select('*')
+          .order('position', { ascending: true, nullsFirst: false })
+          .order('created_at', { ascending: true }),
       ]);
 
       if (leadsResult.error) throw leadsResult.error;
       if (fieldsResult.error) throw fieldsResult.error;
 
-      setLeads(leadsResult.data || []);
+      const split = splitMemberships(leadsResult.data || []);
+      setLeads(normalizeTypedValues(split.leads, fieldsResult.data || []));
+      setMemberships(split.memberships);
       setFields(fieldsResult.data || []);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -120,6 +148,11 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
     }
   };
 
+  const showRejected = (rejected: string[]) => {
+    if (rejected.length > 0) console.error('Values not saved:', rejected);
+    setRejectedNotice(rejected.length > 0 ? describeRejected(rejected) : '');
+  };
+
   const applyMatrix = async (startRow: number, startCol: number, matrix: string[][]) => {
     if (matrix.length === 0) return;
     const baseColumns = new Set(['name', 'email', 'phone', 'website', 'outreach_method']);
@@ -131,29 +164,42 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
       }
     }
 
-    const updates: Promise<unknown>[] = [];
+    const payloads = new Map<string, Record<string, string | null>>();
     const inserts: Record<string, string | number | null>[] = [];
-    const changes: UndoAction['changes'] = [];
+    const changes: CellChange[] = [];
+    const rejected: string[] = [];
+    const taken = await loadTakenValues(orderedFields);
 
     for (let r = 0; r < matrix.length; r += 1) {
       const rowIndex = startRow + r;
+      const targetRow = filteredLeads[rowIndex];
       const updatesRow: Record<string, string | null> = {};
       for (let c = 0; c < matrix[r].length; c += 1) {
         const colIndex = startCol + c;
         if (colIndex >= orderedFields.length) break;
         const targetField = orderedFields[colIndex];
-        const value = matrix[r][c]?.trim() ?? '';
-        updatesRow[targetField.field_key] = value.length > 0 ? value : null;
+        if (READ_ONLY_FIELDS.has(targetField.field_key)) continue;
+        const checked = validateFieldValue(targetField, matrix[r][c] ?? '', selectOptions[targetField.field_key]);
+        if (!checked.ok) {
+          rejected.push(checked.message);
+          continue;
+        }
+        const ruleError = checkFieldRules(targetField, checked.value, targetRow?.id, taken);
+        if (ruleError) {
+          rejected.push(ruleError);
+          continue;
+        }
+        claimValue(taken, targetField, checked.value, targetRow?.id ?? `new-${r}`);
+        updatesRow[targetField.field_key] = checked.value;
       }
 
-      const targetRow = filteredLeads[rowIndex];
       if (targetRow) {
         if (Object.keys(updatesRow).length > 0) {
           for (const [fieldKey, nextVal] of Object.entries(updatesRow)) {
             const prevVal = (targetRow as Record<string, string | null>)[fieldKey] ?? null;
             changes.push({ id: targetRow.id, fieldKey, prev: prevVal, next: nextVal });
           }
-          updates.push(Promise.resolve(supabase.from('leads').update(updatesRow).eq('id', targetRow.id)));
+          payloads.set(targetRow.id, updatesRow);
         }
       } else if (prefs.autoAddRows) {
         const payload: Record<string, string | null | number> = {
@@ -169,17 +215,20 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
       }
     }
 
-    if (updates.length > 0) await Promise.all(updates);
+    const { saved, failures } = await saveRowEdits(payloads, changes, (id, payload) =>
+      updateLeadRow(id, payload, outreachOptions)
+    );
+    let insertedRows: Lead[] = [];
     if (inserts.length > 0) {
-      const { data } = await supabase.from('leads').insert(inserts).select();
-      if (data && data.length > 0) {
-        setUndoStack((prev) => [...prev, { changes, insertedRows: data as Lead[] }]);
-        setRedoStack([]);
+      try {
+        insertedRows = await insertLeadRows(inserts, outreachOptions);
+      } catch (error) {
+        console.error('Error adding leads:', error);
+        failures.push(describeSaveError(error));
       }
-    } else if (changes.length > 0) {
-      setUndoStack((prev) => [...prev, { changes, insertedRows: [] }]);
-      setRedoStack([]);
     }
+    showRejected([...rejected, ...failures]);
+    await history.record(saved, insertedRows);
     loadData();
   };
 
@@ -210,38 +259,48 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
   const handleCellsEdited = async (edits: readonly EditListItem[]) => {
     if (edits.length === 0) return;
     const updatesById = new Map<string, Record<string, string | null>>();
-    const changes: UndoAction['changes'] = [];
+    const changes: CellChange[] = [];
+    const rejected: string[] = [];
+    const taken = await loadTakenValues(orderedFields);
 
     for (const edit of edits) {
-      if (edit.value.kind !== GridCellKind.Text) continue;
+      const rawValue = getEditedCellValue(edit.value);
+      if (rawValue === null) continue;
       const [col, row] = edit.location;
       const lead = filteredLeads[row];
       const field = orderedFields[col];
-      if (!lead || !field) continue;
-      let nextValue = edit.value.data ?? '';
+      if (!lead || !field || READ_ONLY_FIELDS.has(field.field_key)) continue;
+      let nextValue = rawValue;
       if (field.field_key === 'outreach_method') {
-        const match = outreachOptions.find(
-          (option) =>
-            option.key.toLowerCase() === nextValue.toLowerCase() ||
-            option.label.toLowerCase() === nextValue.toLowerCase()
-        );
-        if (match) nextValue = match.key;
+        nextValue = parseMethodKeys(nextValue, outreachOptions).join(',');
+      }
+      const checked = validateFieldValue(field, nextValue, selectOptions[field.field_key]);
+      if (!checked.ok) {
+        rejected.push(checked.message);
+        continue;
       }
+      const ruleError = checkFieldRules(field, checked.value, lead.id, taken);
+      if (ruleError) {
+        rejected.push(ruleError);
+        continue;
+      }
+      claimValue(taken, field, checked.value, lead.id);
       const payload = updatesById.get(lead.id) || {};
       const prevVal = (lead as Record<string, string | null>)[field.field_key] ?? null;
-      payload[field.field_key] = nextValue.length > 0 ? nextValue : null;
+      payload[field.field_key] = checked.value;
       updatesById.set(lead.id, payload);
       changes.push({ id: lead.id, fieldKey: field.field_key, prev: prevVal, next: payload[field.field_key] });
     }
 
-    if (updatesById.size === 0) return;
-    await Promise.all(
-      Array.from(updatesById.entries()).map(([id, payload]) =>
-        supabase.from('leads').update(payload).eq('id', id)
-      )
+    if (updatesById.size === 0) {
+      showRejected(rejected);
+      return;
+    }
+    const { saved, failures } = await saveRowEdits(updatesById, changes, (id, payload) =>
+      updateLeadRow(id, payload, outreachOptions)
     );
-    setUndoStack((prev) => [...prev, { changes, insertedRows: [] }]);
-    setRedoStack([]);
+    showRejected([...rejected, ...failures]);
+    await history.record(saved, []);
     loadData();
   };
 
@@ -381,45 +440,37 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
     loadData();
   };
 
-  const applyUndoAction = async (action: UndoAction, useNext: boolean) => {
-    if (action.insertedRows.length > 0) {
-      if (useNext) {
-        await supabase.from('leads').insert(action.insertedRows);
-      } else {
-        const ids = action.insertedRows.map((row) => row.id);
-        if (ids.length > 0) await supabase.from('leads').delete().in('id', ids);
-      }
-    }
-    if (action.changes.length > 0) {
-      const updatesById = new Map<string, Record<string, string | null>>();
-      action.changes.forEach((change) => {
-        const payload = updatesById.get(change.id) || {};
-        payload[change.fieldKey] = useNext ? change.next : change.prev;
-        updatesById.set(change.id, payload);
-      });
-      await Promise.all(
-        Array.from(updatesById.entries()).map(([id, payload]) =>
-          supabase.from('leads').update(payload).eq('id', id)
-        )
+  const changeTarget: ChangeTarget = {
+    update: (id, payload) => updateLeadRow(id, payload, outreachOptions),
+    current: (id, fieldKey) => {
+      // Channel lists load in membership order, so they can't be compared to the logged value
+      if (fieldKey === 'outreach_method') return undefined;
+      const lead = leads.find((item) => item.id === id);
+      return lead ? (lead as Record<string, string | null>)[fieldKey] ?? null : undefined;
+    },
+  };
+
+  const replayHistory = async (replay: (target: ChangeTarget) => Promise<number>) => {
+    try {
+      const skipped = await replay(changeTarget);
+      setRejectedNotice(
+        skipped > 0 ? `${skipped} cell(s) were changed by someone else since and were left as they are.` : ''
       );
+    } catch (error) {
+      console.error('Error replaying change history:', error);
+      setRejectedNotice(describeSaveError(error));
     }
     loadData();
   };
 
-  const handleUndo = async () => {
-    const last = undoStack[undoStack.length - 1];
-    if (!last) return;
-    setUndoStack((prev) => prev.slice(0, -1));
-    setRedoStack((prev) => [...prev, last]);
-    await applyUndoAction(last, false);
-  };
+  const handleUndo = () => replayHistory(history.undo);
 
-  const handleRedo = async () => {
-    const last = redoStack[redoStack.length - 1];
-    if (!last) return;
-    setRedoStack((prev) => prev.slice(0, -1));
-    setUndoStack((prev) => [...prev, last]);
-    await applyUndoAction(last, true);
+  const handleRedo = () => replayHistory(history.redo);
+
+  const handleMerge = async (survivorId: string, loserIds: string[], fieldValues: Record<string, string | null>) => {
+    const mergeId = await mergeLeads(survivorId, loserIds, fieldValues);
+    await history.recordMerge(mergeId, survivorId, loserIds);
+    loadData();
   };
 
   const handleHeaderClick = (colIndex: number, event: { shiftKey: boolean }) => {
@@ -470,25 +521,39 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
     const field = orderedFields[col];
     const lead = filteredLeads[row];
     if (!field || !lead) return;
-    setNoteTarget({ leadId: lead.id, fieldKey: field.field_key, fieldLabel: field.label });
+    setCommentTarget({ leadId: lead.id, fieldKey: field.field_key, fieldLabel: field.label });
   };
 
   const applyBulkMethod = async () => {
     if (!bulkMethod || selectedIds.size === 0) return;
-    const ids = Array.from(selectedIds);
-    const { error } = await supabase
-      .from('leads')
-      .update({ outreach_method: bulkMethod })
-      .in('id', ids);
-    if (!error) {
-      setLeads((prev) =>
-        prev.map((lead) => (selectedIds.has(lead.id) ? { ...lead, outreach_method: bulkMethod } : lead))
-      );
+    try {
+      await addLeadsToMethod(Array.from(selectedIds), bulkMethod);
       setSelectedIds(new Set());
       setBulkMethod('');
+      loadData();
+    } catch (error) {
+      console.error('Error adding leads to channel:', error);
     }
   };
 
+  const assignSelected = async () => {
+    if (!bulkOwner || selectedIds.size === 0) return;
+    const ownerId = bulkOwner === '__none' ? null : bulkOwner;
+    const ids = Array.from(selectedIds);
+    const changes: CellChange[] = leads
+      .filter((lead) => selectedIds.has(lead.id))
+      .map((lead) => ({ id: lead.id, fieldKey: 'owner_id', prev: lead.owner_id ?? null, next: ownerId }));
+    const { error } = await supabase.from('leads').update({ owner_id: ownerId }).in('id', ids);
+    if (error) {
+      console.error('Error assigning leads:', error);
+      return;
+    }
+    await history.record(changes, []);
+    setLeads((prev) => prev.map((lead) => (selectedIds.has(lead.id) ? { ...lead, owner_id: ownerId } : lead)));
+    setSelectedIds(new Set());
+    setBulkOwner('');
+  };
+
   const deleteSelected = async () => {
     if (selectedIds.size === 0) return;
     if (!confirm(`Delete ${selectedIds.size} leads?`)) return;
@@ -517,6 +582,7 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
     const filterEntries = Object.entries(filters).filter(([, val]) => val.trim().length > 0);
     const indexed = leads.map((lead, idx) => ({ lead, idx }));
     const filtered = indexed.filter(({ lead }) => {
+      if (myLeadsOnly && lead.owner_id !== user?.id) return false;
       if (q) {
         const hay = [
           lead.name,
@@ -558,7 +624,10 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
       return a.idx - b.idx;
     });
     return sorted.map((entry) => entry.lead);
-  }, [leads, searchQuery, filters, sorts]);
+  }, [leads, searchQuery, filters, sorts, myLeadsOnly, user?.id]);
+
+  const cellIssues = useFieldIssues(leads, fields);
+  const cellComments = useCellComments('master');
 
   const orderedFields = useMemo(() => {
     const order = prefs.order.length > 0 ? prefs.order : fields.map((f) => f.field_key);
@@ -594,12 +663,13 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
   }, [fields, sorts]);
 
   useEffect(() => {
-    saveGridPrefs('master', prefs);
-  }, [prefs]);
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('myLeads:master', String(myLeadsOnly));
+  }, [myLeadsOnly]);
 
   useEffect(() => {
-    saveViews('master', views);
-  }, [views]);
+    saveGridPrefs('master', prefs);
+  }, [prefs]);
 
 
   const toggleFieldVisibility = (fieldKey: string) => {
@@ -620,9 +690,10 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
     });
   };
 
-  const saveCurrentView = () => {
+  const saveCurrentView = async () => {
     const name = prompt('Name this view');
     if (!name) return;
+    const shared = confirm('Share this view with the team?');
     const newView: SavedView = {
       name,
       searchQuery,
@@ -636,12 +707,16 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
       filters,
       sorts,
     };
-    setViews((prev) => [...prev.filter((v) => v.name !== name), newView]);
-    setActiveView(name);
+    try {
+      const saved = await saveView(newView, shared);
+      setActiveView(saved.id ?? '');
+    } catch (error) {
+      console.error('Error saving view:', error);
+    }
   };
 
-  const applyView = (name: string) => {
-    const view = views.find((v) => v.name === name);
+  const applyView = (id: string) => {
+    const view = views.find((v) => v.id === id);
     if (!view) return;
     setSearchQuery(view.searchQuery);
     setPrefs((prev) => ({
@@ -656,14 +731,42 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
     }));
     setFilters(view.filters ?? {});
     setSorts(view.sorts ?? []);
-    setActiveView(name);
+    setActiveView(id);
+  };
+
+  const deleteView = async (id: string) => {
+    try {
+      await removeView(id);
+      if (activeView === id) setActiveView('');
+    } catch (error) {
+      console.error('Error deleting view:', error);
+    }
   };
 
-  const deleteView = (name: string) => {
-    setViews((prev) => prev.filter((v) => v.name !== name));
-    if (activeView === name) setActiveView('');
+  const toggleViewShared = async (view: SavedView) => {
+    if (!view.id) return;
+    try {
+      await setViewShared(view.id, !view.shared);
+    } catch (error) {
+      console.error('Error sharing view:', error);
+    }
   };
 
+  const activityLead = useMemo(
+    () => (activityLeadId ? leads.find((lead) => lead.id === activityLeadId) ?? null : null),
+    [leads, activityLeadId]
+  );
+
+  const historyLead = useMemo(
+    () => (historyLeadId ? leads.find((lead) => lead.id === historyLeadId) ?? null : null),
+    [leads, historyLeadId]
+  );
+
+  const selectOptions = useMemo<Record<string, { key: string; label: string }[]>>(
+    () => ({ ...fieldOptions, pipeline_status: stageOptions, owner_id: ownerOptions }),
+    [stageOptions, ownerOptions, fieldOptions]
+  );
+
   const handleAddLead = () => {
     setShowAddLead(true);
   };
@@ -685,18 +788,42 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
             className="px-3 py-2 rounded-md bg-gray-900 border border-gray-700 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
           />
           <button
-            onClick={handleUndo}
-            disabled={undoStack.length === 0}
-            className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+            onClick={() => setMyLeadsOnly((prev) => !prev)}
+            className={`px-3 py-2 rounded-md text-sm ${
+              myLeadsOnly ? 'bg-purple-800 text-white hover:bg-purple-700' : 'bg-gray-800 text-gray-200 hover:bg-gray-700'
+            }`}
           >
-            Undo
+            My leads
           </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={handleUndo}
+                disabled={!history.canUndo}
+                className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+              >
+                Undo
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!history.canRedo}
+                className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+              >
+                Redo
+              </button>
+              <button
+                onClick={() => setShowDuplicates(true)}
+                className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700"
+              >
+                Find duplicates
+              </button>
+            </>
+          )}
           <button
-            onClick={handleRedo}
-            disabled={redoStack.length === 0}
-            className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+            onClick={() => setShowExport(true)}
+            className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700"
           >
-            Redo
+            Export
           </button>
           <button
             onClick={() => setShowHint((prev) => !prev)}
@@ -704,12 +831,14 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
           >
             Hint
           </button>
-          <button
-            onClick={focusGridForPaste}
-            className="px-3 py-2 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600"
-          >
-            Paste
-          </button>
+          {canEdit && (
+            <button
+              onClick={focusGridForPaste}
+              className="px-3 py-2 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600"
+            >
+              Paste
+            </button>
+          )}
           <div className="relative">
             <button
               onClick={() => setShowColumns((prev) => !prev)}
@@ -841,76 +970,139 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
                     <div className="text-xs text-gray-500">No saved views</div>
                   )}
                   {views.map((view) => (
-                    <div key={view.name} className="flex items-center gap-2">
+                    <div key={view.id} className="flex items-center gap-2">
                       <button
-                        onClick={() => applyView(view.name)}
+                        onClick={() => applyView(view.id ?? '')}
                         className={`flex-1 text-left text-sm ${
-                          activeView === view.name ? 'text-white' : 'text-gray-300'
+                          activeView === view.id ? 'text-white' : 'text-gray-300'
                         } hover:text-white`}
                       >
                         {view.name}
                       </button>
-                      <button
-                        onClick={() => deleteView(view.name)}
-                        className="text-xs text-red-400 hover:text-red-300"
-                      >
-                        Delete
-                      </button>
+                      {view.ownerId === ownerId ? (
+                        <>
+                          <button
+                            onClick={() => toggleViewShared(view)}
+                            className="text-xs text-gray-400 hover:text-white"
+                          >
+                            {view.shared ? 'Unshare' : 'Share'}
+                          </button>
+                          <button
+                            onClick={() => deleteView(view.id ?? '')}
+                            className="text-xs text-red-400 hover:text-red-300"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-xs text-gray-500">Shared</span>
+                      )}
                     </div>
                   ))}
                 </div>
               </div>
             )}
           </div>
-          <button
-            onClick={handleAddLead}
-            className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 text-sm font-medium"
-          >
-            <Plus className="w-4 h-4" />
-            Add Lead
-          </button>
+          {canEdit && (
+            <button
+              onClick={handleAddLead}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" />
+              Add Lead
+            </button>
+          )}
         </div>
       </div>
 
       {selectedIds.size > 0 && (
         <div className="mb-3 flex items-center gap-3 text-sm">
           <span className="text-gray-300">{selectedIds.size} selected</span>
-          <select
-            value={bulkMethod}
-            onChange={(e) => setBulkMethod(e.target.value)}
-            className="px-2 py-1 rounded-md bg-gray-900 border border-gray-700 text-white"
-          >
-            <option value="">Set outreach method...</option>
-            {outreachOptions.map((option) => (
-              <option key={option.key} value={option.key}>
-                {option.label}
-              </option>
-            ))}
-          </select>
-          <button
-            onClick={applyBulkMethod}
-            className="px-3 py-1.5 rounded-md bg-purple-800 text-white hover:bg-purple-700"
-          >
-            Apply
-          </button>
-          <button
-            onClick={() => setPinnedForSelected(true)}
-            className="px-3 py-1.5 rounded-md bg-blue-900 text-white hover:bg-blue-800"
-          >
-            Pin
-          </button>
-          <button
-            onClick={() => setPinnedForSelected(false)}
-            className="px-3 py-1.5 rounded-md bg-blue-900 text-white hover:bg-blue-800"
-          >
-            Unpin
-          </button>
-          <button
-            onClick={deleteSelected}
-            className="px-3 py-1.5 rounded-md bg-red-900 text-white hover:bg-red-800"
-          >
-            Delete
-          </button>
+          {canEdit && (
+            <>
+              <select
+                value={bulkMethod}
+                onChange={(e) => setBulkMethod(e.target.value)}
+                className="px-2 py-1 rounded-md bg-gray-900 border border-gray-700 text-white"
+              >
+                <option value="">Add to channel...</option>
+                {outreachOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={applyBulkMethod}
+                className="px-3 py-1.5 rounded-md bg-purple-800 text-white hover:bg-purple-700"
+              >
+                Add
+              </button>
+              <select
+                value={bulkOwner}
+                onChange={(e) => setBulkOwner(e.target.value)}
+                className="px-2 py-1 rounded-md bg-gray-900 border border-gray-700 text-white"
+              >
+                <option value="">Assign to...</option>
+                <option value="__none">Unassigned</option>
+                {ownerOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={assignSelected}
+                className="px-3 py-1.5 rounded-md bg-purple-800 text-white hover:bg-purple-700"
+              >
+                Assign
+              </button>
+              <button
+                onClick={() => setPinnedForSelected(true)}
+                className="px-3 py-1.5 rounded-md bg-blue-900 text-white hover:bg-blue-800"
+              >
+                Pin
+              </button>
+              <button
+                onClick={() => setPinnedForSelected(false)}
+                className="px-3 py-1.5 rounded-md bg-blue-900 text-white hover:bg-blue-800"
+              >
+                Unpin
+              </button>
+            </>
+          )}
+          {selectedIds.size === 1 && (
+            <button
+              onClick={() => setActivityLeadId(Array.from(selectedIds)[0])}
+              className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 hover:bg-gray-700"
+            >
+              Activity
+            </button>
+          )}
+          {selectedIds.size === 1 && (
+            <button
+              onClick={() => openLeadDetail(Array.from(selectedIds)[0])}
+              className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 hover:bg-gray-700"
+            >
+              Details
+            </button>
+          )}
+          {selectedIds.size === 1 && (
+            <button
+              onClick={() => setHistoryLeadId(Array.from(selectedIds)[0])}
+              className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 hover:bg-gray-700"
+            >
+              History
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={deleteSelected}
+              className="px-3 py-1.5 rounded-md bg-red-900 text-white hover:bg-red-800"
+            >
+              Delete
+            </button>
+          )}
         </div>
       )}
 
@@ -920,19 +1112,38 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
         </div>
       )}
 
-      <div className="mb-3 text-xs text-gray-400">
-        Tip: Paste anywhere in the grid (Ctrl+V). Rows will auto‑add if enabled.
-      </div>
+      {canEdit ? (
+        <div className="mb-3 text-xs text-gray-400">
+          Tip: Paste anywhere in the grid (Ctrl+V). Rows will auto‑add if enabled.
+        </div>
+      ) : (
+        <div className="mb-3 text-xs text-gray-400">You have view-only access; ask an admin for the rep role to edit leads.</div>
+      )}
+      {rejectedNotice && (
+        <div className="mb-3 flex items-start justify-between gap-3 bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm whitespace-pre-line">
+          <span>{rejectedNotice}</span>
+          <button onClick={() => setRejectedNotice('')} className="text-red-300 hover:text-white" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
       <div className="bg-gray-950 rounded-lg shadow overflow-hidden border border-gray-800">
         <GlideLeadGrid
           rows={filteredLeads}
           orderedFields={orderedFields}
           outreachOptions={outreachOptions}
+          selectOptions={selectOptions}
+          cellIssues={cellIssues}
+          cellComments={cellComments}
+          focusCell={focusCell}
+          onCellFocused={onCellFocused}
+          memberships={memberships}
           prefs={prefs}
           setPrefs={setPrefs}
           formats={prefs.formats}
           copyHeaders={prefs.copyHeaders}
           columnTitleByKey={columnTitleByKey}
+          readOnly={!canEdit}
           onCellsEdited={handleCellsEdited}
           onPaste={handlePaste}
           onDelete={handleDelete}
@@ -945,12 +1156,51 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
         />
       </div>
 
-      {noteTarget && (
-        <CellNoteModal
-          leadId={noteTarget.leadId}
-          fieldKey={noteTarget.fieldKey}
-          fieldLabel={noteTarget.fieldLabel}
-          onClose={() => setNoteTarget(null)}
+      {commentTarget && (
+        <CommentThreadModal
+          leadId={commentTarget.leadId}
+          fieldKey={commentTarget.fieldKey}
+          fieldLabel={commentTarget.fieldLabel}
+          onClose={() => setCommentTarget(null)}
+        />
+      )}
+
+      {activityLead && (
+        <OutreachLogDrawer
+          key={activityLead.id}
+          lead={activityLead}
+          outreachOptions={outreachOptions}
+          stages={stageOptions}
+          onClose={() => setActivityLeadId(null)}
+        />
+      )}
+
+      {historyLead && (
+        <LeadHistoryPanel
+          key={historyLead.id}
+          lead={historyLead}
+          fields={fields}
+          onClose={() => setHistoryLeadId(null)}
+        />
+      )}
+
+      {showDuplicates && (
+        <DuplicateReviewModal
+          leads={leads}
+          fields={allFieldsOrdered}
+          selectOptions={selectOptions}
+          onMerge={handleMerge}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportModal
+          rows={filteredLeads}
+          fields={orderedFields}
+          selectOptions={{ ...selectOptions, outreach_method: outreachOptions }}
+          baseName={'master-leads'}
+          onClose={() => setShowExport(false)}
         />
       )}
 
@@ -958,6 +1208,7 @@ export function MasterLeads({ outreachOptions }: MasterLeadsProps) {
         <AddLeadModal
           fields={fields}
           outreachOptions={outreachOptions}
+          selectOptions={selectOptions}
           onClose={() => setShowAddLead(false)}
           onSuccess={() => {
             setShowAddLead(false);
@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Copy, Download, X } from 'lucide-react';
+import { Lead, LeadField } from '../lib/supabase';
+import { useMessageTemplates } from '../lib/useMessageTemplates';
+import { RenderedMessage, messageText, renderTemplate } from '../lib/messageTemplates';
+import { exportMailMerge } from '../lib/exportLeads';
+
+type Option = { key: string; label: string };
+
+type MessagePreviewModalProps = {
+  /** Selected leads, in grid order */
+  leads: Lead[];
+  fields: LeadField[];
+  /** Option lists used to show select values by label, including outreach_method */
+  selectOptions: Record<string, Option[]>;
+  method: string;
+  methodLabel: string;
+  onClose: () => void;
+};
+
+/** Fill a message template in for each selected lead, flag missing values, and copy or export the results */
+export function MessagePreviewModal({
+  leads,
+  fields,
+  selectOptions,
+  method,
+  methodLabel,
+  onClose,
+}: MessagePreviewModalProps) {
+  const { templates, loading } = useMessageTemplates(`preview-${method}`);
+  const [templateId, setTemplateId] = useState('');
+  const [skipMissing, setSkipMissing] = useState(true);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const channelTemplates = useMemo(() => templates.filter((template) => template.method === method), [templates, method]);
+  const otherTemplates = useMemo(() => templates.filter((template) => template.method !== method), [templates, method]);
+  const template = templates.find((item) => item.id === templateId) ?? null;
+
+  useEffect(() => {
+    if (!templateId && channelTemplates.length > 0) setTemplateId(channelTemplates[0].id);
+  }, [templateId, channelTemplates]);
+
+  const messages = useMemo<RenderedMessage[]>(
+    () => (template ? leads.map((lead) => renderTemplate(template, lead, fields, selectOptions)) : []),
+    [template, leads, fields, selectOptions]
+  );
+  const incomplete = messages.filter((message) => message.missing.length > 0).length;
+  const included = skipMissing ? messages.filter((message) => message.missing.length === 0) : messages;
+
+  const copy = async (text: string, id: string) => {
+    setError('');
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId((current) => (current === id ? null : current)), 1500);
+    } catch (err) {
+      console.error('Failed to copy message', err);
+      setError('Failed to copy to the clipboard');
+    }
+  };
+
+  const leadLabel = (lead: Lead) => lead.name || lead.email || 'Unnamed lead';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Messages for {leads.length} lead{leads.length === 1 ? '' : 's'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+          <select
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+            className="px-2 py-1.5 rounded-md bg-gray-900 border border-gray-700 text-white"
+          >
+            <option value="">{loading ? 'Loading templates...' : 'Pick a template...'}</option>
+            {channelTemplates.length > 0 && (
+              <optgroup label={methodLabel}>
+                {channelTemplates.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {otherTemplates.length > 0 && (
+              <optgroup label="Other channels">
+                {otherTemplates.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name} ({selectOptions.outreach_method?.find((option) => option.key === item.method)?.label ?? item.method})
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {template && incomplete > 0 && (
+            <label className="flex items-center gap-2 text-gray-300">
+              <input type="checkbox" checked={skipMissing} onChange={(e) => setSkipMissing(e.target.checked)} />
+              Leave out the {incomplete} lead{incomplete === 1 ? '' : 's'} with missing values when copying or exporting
+            </label>
+          )}
+        </div>
+
+        {!loading && templates.length === 0 && (
+          <p className="text-sm text-gray-400">No templates yet. Write one under “Templates” in the header.</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {messages.map((message) => (
+            <div key={message.lead.id} className="border border-gray-800 rounded-md p-3 bg-gray-900">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-sm font-medium text-white truncate">{leadLabel(message.lead)}</span>
+                <button
+                  onClick={() => copy(messageText(message), message.lead.id)}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md bg-gray-800 text-gray-200 text-xs hover:bg-gray-700"
+                >
+                  <Copy className="w-3.5 h-3.5" />
+                  {copiedId === message.lead.id ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              {message.missing.length > 0 && (
+                <div className="mb-2 px-2 py-1 rounded bg-yellow-950 border border-yellow-800 text-yellow-100 text-xs">
+                  Missing {message.missing.map((field) => field.label).join(', ')}
+                </div>
+              )}
+              {message.subject !== null && (
+                <div className="text-sm text-gray-300 mb-1">
+                  <span className="text-gray-500">Subject:</span> {message.subject}
+                </div>
+              )}
+              <div className="text-sm text-gray-100 whitespace-pre-wrap break-words">{message.body}</div>
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="mt-3 text-xs text-red-400">{error}</div>}
+
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            onClick={() => copy(included.map(messageText).join('\n\n---\n\n'), 'all')}
+            disabled={included.length === 0}
+            className="flex items-center gap-1 px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+          >
+            <Copy className="w-4 h-4" />
+            {copiedId === 'all' ? 'Copied' : `Copy ${included.length}`}
+          </button>
+          <button
+            onClick={() => exportMailMerge(included, `${method}-mail-merge`)}
+            disabled={included.length === 0}
+            className="flex items-center gap-1 px-3 py-2 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
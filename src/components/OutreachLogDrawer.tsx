@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase, Lead, OutreachEvent } from '../lib/supabase';
+import { OUTREACH_STATUSES, loadOutreachEvents, logOutreachTouch, outreachStatusLabel } from '../lib/outreachEvents';
+import { useAuth } from '../contexts/AuthContext';
+
+type OutreachLogDrawerProps = {
+  lead: Lead;
+  outreachOptions: { key: string; label: string }[];
+  stages?: { key: string; label: string }[];
+  defaultMethod?: string | null;
+  onClose: () => void;
+};
+
+export function OutreachLogDrawer({ lead, outreachOptions, stages, defaultMethod, onClose }: OutreachLogDrawerProps) {
+  const { canEdit } = useAuth();
+  const [events, setEvents] = useState<OutreachEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [method, setMethod] = useState(
+    defaultMethod || lead.outreach_method?.split(',')[0] || outreachOptions[0]?.key || ''
+  );
+  const [status, setStatus] = useState(OUTREACH_STATUSES[0].key);
+  const [notes, setNotes] = useState('');
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setEvents(await loadOutreachEvents(lead.id));
+    } catch (err) {
+      console.error('Failed to load outreach events', err);
+      setError('Failed to load activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [lead.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadEvents();
+    const channel = supabase
+      .channel(`outreach-events-${lead.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'outreach_events', filter: `lead_id=eq.${lead.id}` },
+        () => {
+          loadEvents();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [lead.id, loadEvents]);
+
+  const handleLog = async () => {
+    if (!method) {
+      setError('Pick an outreach method');
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      await logOutreachTouch([lead.id], method, status, notes);
+      setNotes('');
+      loadEvents();
+    } catch (err) {
+      console.error('Failed to log outreach event', err);
+      setError('Failed to log activity');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const methodLabel = (key: string) => outreachOptions.find((option) => option.key === key)?.label || key;
+  const statusLabel = (key: string) => stages?.find((stage) => stage.key === key)?.label || outreachStatusLabel(key);
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-[420px] max-w-[95vw] bg-gray-950 border-l border-gray-800 shadow-xl z-40 flex flex-col">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Activity</h3>
+          <div className="text-xs text-gray-400">{lead.name || lead.email || 'Unnamed lead'}</div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {canEdit && (
+        <div className="px-5 py-4 border-b border-gray-800 space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+              className="flex-1 px-2 py-1.5 rounded-md bg-gray-900 border border-gray-700 text-white text-sm"
+            >
+              <option value="">Method...</option>
+              {outreachOptions.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="flex-1 px-2 py-1.5 rounded-md bg-gray-900 border border-gray-700 text-white text-sm"
+            >
+              {OUTREACH_STATUSES.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            className="w-full h-20 bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-white"
+            disabled={saving}
+          />
+          {error && <div className="text-xs text-red-400">{error}</div>}
+          <div className="flex justify-end">
+            <button
+              onClick={handleLog}
+              disabled={saving}
+              className="px-3 py-1.5 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600 disabled:opacity-50"
+            >
+              {saving ? 'Logging...' : 'Log Activity'}
+            </button>
+          </div>
+        </div>
+      )}
+      {!canEdit && error && <div className="px-5 pt-4 text-xs text-red-400">{error}</div>}
+
+      <div className="flex-1 overflow-y-auto px-5 py-4">
+        {loading && <div className="text-sm text-gray-400">Loading...</div>}
+        {!loading && events.length === 0 && (
+          <div className="text-sm text-gray-500">No activity logged yet</div>
+        )}
+        <ol className="space-y-3">
+          {events.map((event) => (
+            <li key={event.id} className="border-l-2 border-purple-700 pl-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white font-medium">
+                  {statusLabel(event.status)}
+                  <span className="text-gray-400 font-normal"> via {methodLabel(event.method)}</span>
+                </span>
+                <span className="text-xs text-gray-500">{new Date(event.created_at).toLocaleString()}</span>
+              </div>
+              {event.notes && <div className="mt-1 text-xs text-gray-300 whitespace-pre-wrap">{event.notes}</div>}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
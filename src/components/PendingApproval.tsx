@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Clock } from 'lucide-react';
+
+/** Shown to signed-up accounts until an admin gives them a role; the database hides all CRM data from them */
+export function PendingApproval() {
+  const { user, signOut } = useAuth();
+  const [error, setError] = useState('');
+
+  const handleSignOut = async () => {
+    setError('');
+    try {
+      await signOut();
+    } catch (err) {
+      console.error('Failed to sign out', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign out');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-black via-gray-950 to-purple-950 flex items-center justify-center p-4">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-lg p-8 w-full max-w-md text-center">
+        <div className="flex justify-center mb-6">
+          <div className="bg-purple-950 p-3 rounded-full border border-purple-800">
+            <Clock className="w-6 h-6 text-purple-300" />
+          </div>
+        </div>
+
+        <h1 className="text-2xl font-bold text-white mb-2">Waiting for approval</h1>
+        <p className="text-gray-400 mb-6">
+          You're signed in as {user?.email}. An admin has to give your account a role under Team before you can see
+          the CRM. This page updates as soon as they do.
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm">{error}</div>
+        )}
+
+        <button
+          onClick={handleSignOut}
+          className="w-full bg-gray-800 text-gray-200 py-2 px-4 rounded-md hover:bg-gray-700 font-medium transition-colors"
+        >
+          Sign Out
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,34 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { supabase, Lead, LeadField } from '../lib/supabase';
 import { extractContacts } from '../lib/regexExtractor';
 import { checkDuplicates, bulkInsertLeads, ImportLead, DuplicateResult } from '../lib/importUtils';
 import { ImportPreview } from './ImportPreview';
+import { useImportIssues } from '../lib/useFieldIssues';
 
 type SmartPasteProps = {
-  onImport: () => void;
+  /** Called with the rows added to Temp Leads */
+  onImport: (rows: Lead[]) => void;
 };
 
 export function SmartPaste({ onImport }: SmartPasteProps) {
   const [inputText, setInputText] = useState('');
   const [newLeads, setNewLeads] = useState<ImportLead[]>([]);
   const [duplicates, setDuplicates] = useState<DuplicateResult[]>([]);
+  const [possibleDuplicates, setPossibleDuplicates] = useState<DuplicateResult[]>([]);
   const [step, setStep] = useState<'input' | 'preview'>('input');
   const [importing, setImporting] = useState(false);
   const [error, setError] = useState('');
+  const [fields, setFields] = useState<LeadField[]>([]);
+  const issues = useImportIssues(newLeads, fields);
+
+  useEffect(() => {
+    supabase
+      .from('lead_fields')
+      .select('*')
+      .then(({ data }) => {
+        if (data) setFields(data);
+      });
+  }, []);
 
   const handleExtract = async () => {
     setError('');
@@ -27,6 +42,7 @@ export function SmartPaste({ onImport }: SmartPasteProps) {
       const result = await checkDuplicates(contacts);
       setNewLeads(result.newLeads);
       setDuplicates(result.duplicates);
+      setPossibleDuplicates(result.possibleDuplicates);
       setStep('preview');
     } catch (err) {
       console.error('Error checking duplicates:', err);
@@ -38,12 +54,13 @@ export function SmartPaste({ onImport }: SmartPasteProps) {
     if (newLeads.length === 0) return;
     setImporting(true);
     try {
-      await bulkInsertLeads(newLeads);
+      const inserted = await bulkInsertLeads(newLeads.filter((_, idx) => !issues[idx]?.length));
       setInputText('');
       setNewLeads([]);
       setDuplicates([]);
+      setPossibleDuplicates([]);
       setStep('input');
-      onImport();
+      onImport(inserted);
     } catch (err) {
       console.error('Error importing leads:', err);
       setError('Error importing leads. Please try again.');
@@ -53,13 +70,16 @@ export function SmartPaste({ onImport }: SmartPasteProps) {
   };
 
   const handleEditLead = (index: number, field: string, value: string) => {
-    setNewLeads((prev) =>
-      prev.map((lead, i) => (i === index ? { ...lead, [field]: value } : lead))
-    );
+    const edited = newLeads[index];
+    const next = { ...edited, [field]: value };
+    setNewLeads((prev) => prev.map((lead, i) => (i === index ? next : lead)));
+    setPossibleDuplicates((prev) => prev.map((dup) => (dup.original === edited ? { ...dup, original: next } : dup)));
   };
 
   const handleRemoveLead = (index: number) => {
+    const removed = newLeads[index];
     setNewLeads((prev) => prev.filter((_, i) => i !== index));
+    setPossibleDuplicates((prev) => prev.filter((dup) => dup.original !== removed));
   };
 
   if (step === 'preview') {
@@ -74,6 +94,9 @@ export function SmartPaste({ onImport }: SmartPasteProps) {
         <ImportPreview
           newLeads={newLeads}
           duplicates={duplicates}
+          possibleDuplicates={possibleDuplicates}
+          onKeepDuplicate={(kept) => setPossibleDuplicates((prev) => prev.filter((dup) => dup !== kept))}
+          issues={issues}
           onImport={handleImport}
           importing={importing}
           onEditLead={handleEditLead}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase, LeadTask } from '../lib/supabase';
+import { DUE_STATE_CLASS, formatDueDate, loadDueTasks, localDay, setTaskDone, taskDueState } from '../lib/tasks';
+import { openLeadDetail } from '../lib/leadLink';
+import { useAuth } from '../contexts/AuthContext';
+
+type TasksViewProps = {
+  /** Teammates, to show who each task is assigned to */
+  ownerOptions: { key: string; label: string }[];
+};
+
+/** Open follow-up tasks across leads that are overdue or due today */
+export function TasksView({ ownerOptions }: TasksViewProps) {
+  const { user, canEdit } = useAuth();
+  const [tasks, setTasks] = useState<LeadTask[]>([]);
+  const [today, setToday] = useState(() => localDay());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [myTasksOnly, setMyTasksOnly] = useState(() => {
+    if (typeof window === 'undefined') return false;
+    return localStorage.getItem('myTasks') === 'true';
+  });
+
+  const loadTasks = useCallback(async () => {
+    const day = localDay();
+    try {
+      setTasks(await loadDueTasks(day));
+      setToday(day);
+    } catch (err) {
+      console.error('Failed to load tasks', err);
+      setError('Failed to load tasks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTasks();
+    const channel = supabase
+      .channel('due-tasks')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_tasks' }, () => {
+        loadTasks();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadTasks]);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('myTasks', String(myTasksOnly));
+  }, [myTasksOnly]);
+
+  const visible = useMemo(
+    () => tasks.filter((task) => !myTasksOnly || task.assignee_id === user?.id),
+    [tasks, myTasksOnly, user?.id]
+  );
+  const overdue = visible.filter((task) => taskDueState(task, today) === 'overdue');
+  const dueToday = visible.filter((task) => taskDueState(task, today) === 'today');
+
+  const handleDone = async (task: LeadTask) => {
+    setError('');
+    try {
+      await setTaskDone(task.id, true, user?.id ?? null);
+      setTasks((prev) => prev.filter((item) => item.id !== task.id));
+    } catch (err) {
+      console.error('Failed to update task', err);
+      setError('Failed to update task');
+    }
+  };
+
+  const assigneeLabel = (id: string | null) =>
+    id ? (id === user?.id ? 'You' : ownerOptions.find((option) => option.key === id)?.label || 'Unknown user') : 'Unassigned';
+
+  const renderGroup = (title: string, group: LeadTask[]) => (
+    <section className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-300">
+        {title} <span className="text-gray-500 font-normal">({group.length})</span>
+      </h3>
+      {group.length === 0 ? (
+        <div className="text-sm text-gray-500">Nothing here</div>
+      ) : (
+        <ul className="divide-y divide-gray-800 border border-gray-800 rounded-md bg-gray-950">
+          {group.map((task) => (
+            <li key={task.id} className="flex items-center gap-3 px-4 py-2">
+              <input
+                type="checkbox"
+                checked={false}
+                disabled={!canEdit}
+                onChange={() => handleDone(task)}
+                title="Mark done"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-white truncate">{task.title}</div>
+                <button
+                  onClick={() => openLeadDetail(task.lead_id)}
+                  className="text-xs text-purple-300 hover:text-purple-200 truncate"
+                >
+                  {task.lead?.name || task.lead?.email || 'Unnamed lead'}
+                </button>
+              </div>
+              <span className="text-xs text-gray-400 shrink-0">{assigneeLabel(task.assignee_id)}</span>
+              <span className={`text-xs shrink-0 w-24 text-right ${DUE_STATE_CLASS[taskDueState(task, today)]}`}>
+                {formatDueDate(task.due_date)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+
+  if (loading) {
+    return <div className="text-gray-400">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-white">Due Today &amp; Overdue</h2>
+        <button
+          onClick={() => setMyTasksOnly((prev) => !prev)}
+          className={`px-3 py-2 rounded-md text-sm ${
+            myTasksOnly ? 'bg-purple-800 text-white hover:bg-purple-700' : 'bg-gray-800 text-gray-200 hover:bg-gray-700'
+          }`}
+        >
+          My tasks
+        </button>
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      {renderGroup('Overdue', overdue)}
+      {renderGroup('Due today', dueToday)}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Profile, UserRole } from '../lib/supabase';
+import { ROLES, profileLabel, setUserRole } from '../lib/team';
+import { useAuth } from '../contexts/AuthContext';
+
+type TeamModalProps = {
+  team: Profile[];
+  onClose: () => void;
+  onChange: () => void;
+};
+
+export function TeamModal({ team, onClose, onChange }: TeamModalProps) {
+  const { user } = useAuth();
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleRoleChange = async (member: Profile, role: UserRole) => {
+    if (role === member.role) return;
+    if (member.id === user?.id && role !== 'admin') {
+      if (!confirm('You will lose admin access. Continue?')) return;
+    }
+    setError('');
+    setSavingId(member.id);
+    try {
+      await setUserRole(member.id, role);
+      onChange();
+    } catch (err) {
+      console.error('Failed to update role', err);
+      setError(err instanceof Error ? err.message : 'Failed to update role');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Team</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          New accounts stay pending, with no access, until you give them a role. Viewers can read, reps can edit leads;
+          admins can also manage fields, channels and roles.
+        </p>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {team.map((member) => (
+            <div key={member.id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-white truncate">{profileLabel(member)}</div>
+                {member.full_name && <div className="text-xs text-gray-500 truncate">{member.email}</div>}
+              </div>
+              <select
+                value={member.role}
+                onChange={(e) => handleRoleChange(member, e.target.value as UserRole)}
+                disabled={savingId === member.id}
+                className="px-2 py-1 rounded-md bg-gray-900 border border-gray-700 text-white text-sm"
+              >
+                {ROLES.map((role) => (
+                  <option key={role.key} value={role.key}>
+                    {role.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,52 +1,87 @@
 import { useEffect, useMemo, useState } from 'react';
-import { EditListItem, FillPatternEventArgs, GridCellKind, GridSelection, Item } from '@glideapps/glide-data-grid';
-import { Plus } from 'lucide-react';
+import { EditListItem, FillPatternEventArgs, GridSelection, Item } from '@glideapps/glide-data-grid';
+import { Plus, Settings2, X } from 'lucide-react';
 import { supabase, Lead, LeadField } from '../lib/supabase';
 import { AddLeadModal } from './AddLeadModal';
-import { GridPrefs, SavedView, loadGridPrefs, saveGridPrefs, loadViews, saveViews, moveInArray } from '../lib/gridPrefs';
+import { GridPrefs, SavedView, loadGridPrefs, saveGridPrefs, moveInArray } from '../lib/gridPrefs';
+import { useSavedViews } from '../lib/useSavedViews';
+import { useAuth } from '../contexts/AuthContext';
+import { ChangeTarget, useChangeHistory } from '../lib/useChangeHistory';
+import { CellChange, describeSaveError, saveRowEdits } from '../lib/leadChanges';
 import { GlideLeadGrid } from './GlideLeadGrid';
-import { CellNoteModal } from './CellNoteModal';
+import { openLeadDetail } from '../lib/leadLink';
+import { LeadHistoryPanel } from './LeadHistoryPanel';
+import { ExportModal } from './ExportModal';
+import { getEditedCellValue } from '../lib/dropdownCell';
+import { READ_ONLY_FIELDS } from '../lib/leadFieldConfig';
+import { describeRejected, normalizeTypedValues, validateFieldValue } from '../lib/fieldTypes';
+import { checkFieldRules, claimValue, loadTakenValues } from '../lib/fieldRules';
+import { useFieldIssues } from '../lib/useFieldIssues';
+import { DedupMatch, findDuplicates, loadDedupConfig } from '../lib/dedup';
+import { DedupSettingsModal } from './DedupSettingsModal';
+import { FileUpload } from './FileUpload';
+import { SmartPaste } from './SmartPaste';
 
 type TempLeadsProps = {
   onImport: () => void;
   outreachOptions: { key: string; label: string }[];
+  stageOptions: { key: string; label: string }[];
+  ownerOptions: { key: string; label: string }[];
+  /** Option lists of custom select fields, keyed by field */
+  fieldOptions: Record<string, { key: string; label: string }[]>;
 };
 
 type DuplicateResult = {
   original: Lead;
   reason: string;
   matchedWith: string;
+  confidence: number;
 };
 
-type UndoAction = {
-  changes: { id: string; fieldKey: string; prev: string | null; next: string | null }[];
-  insertedRows: Lead[];
-};
+type ImportSource = 'file' | 'paste';
+
+const IMPORT_SOURCES: { key: ImportSource; label: string }[] = [
+  { key: 'file', label: 'Upload CSV / Excel' },
+  { key: 'paste', label: 'Smart Paste' },
+];
 
 type SortRule = {
   fieldKey: string;
   dir: 'asc' | 'desc';
 };
 
-export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
+export function TempLeads({ onImport, outreachOptions, stageOptions, ownerOptions, fieldOptions }: TempLeadsProps) {
   const [leads, setLeads] = useState<Lead[]>([]);
   const [fields, setFields] = useState<LeadField[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddLead, setShowAddLead] = useState(false);
   const [duplicates, setDuplicates] = useState<DuplicateResult[]>([]);
+  /** Fuzzy matches (similar name, company + city) waiting for someone to confirm or dismiss them */
+  const [possibleDuplicates, setPossibleDuplicates] = useState<DedupMatch<Lead, Lead>[]>([]);
   const [checking, setChecking] = useState(false);
+  const [showDedupSettings, setShowDedupSettings] = useState(false);
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [bulkMethod, setBulkMethod] = useState('');
+  const [bulkOwner, setBulkOwner] = useState('');
+  const { user, canEdit } = useAuth();
+  const [myLeadsOnly, setMyLeadsOnly] = useState(() => {
+    if (typeof window === 'undefined') return false;
+    return localStorage.getItem('myLeads:temp') === 'true';
+  });
   const [searchQuery, setSearchQuery] = useState('');
   const [prefs, setPrefs] = useState<GridPrefs>(() => loadGridPrefs('temp'));
-  const [views, setViews] = useState<SavedView[]>(() => loadViews('temp'));
+  const { views, ownerId, saveView, setViewShared, deleteView: removeView } = useSavedViews('temp');
   const [showColumns, setShowColumns] = useState(false);
   const [showViews, setShowViews] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [activeView, setActiveView] = useState<string>('');
   const [showHint, setShowHint] = useState(false);
-  const [undoStack, setUndoStack] = useState<UndoAction[]>([]);
-  const [redoStack, setRedoStack] = useState<UndoAction[]>([]);
+  // What the last edit, paste, undo or redo couldn't save, shown above the grid until the next one
+  const [rejectedNotice, setRejectedNotice] = useState('');
+  const [showExport, setShowExport] = useState(false);
+  const history = useChangeHistory('temp', 'temp_leads');
+  const [historyLeadId, setHistoryLeadId] = useState<string | null>(null);
   const [filters, setFilters] = useState<Record<string, string>>({});
   const [sorts, setSorts] = useState<SortRule[]>([]);
   const [clearAfterImport, setClearAfterImport] = useState(() => {
@@ -54,46 +89,11 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
     return localStorage.getItem('temp:clearAfterImport') === 'true';
   });
   const formatOptions = ['text', 'number', 'date', 'phone'];
-  const [noteTarget, setNoteTarget] = useState<{
-    leadId: string;
-    fieldKey: string;
-    fieldLabel: string;
-  } | null>(null);
 
   useEffect(() => {
     loadData();
   }, []);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    const undoRaw = localStorage.getItem('undo:temp');
-    const redoRaw = localStorage.getItem('redo:temp');
-    if (undoRaw) {
-      try {
-        setUndoStack(JSON.parse(undoRaw));
-      } catch {
-        // ignore
-      }
-    }
-    if (redoRaw) {
-      try {
-        setRedoStack(JSON.parse(redoRaw));
-      } catch {
-        // ignore
-      }
-    }
-  }, []);
-
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem('undo:temp', JSON.stringify(undoStack.slice(-50)));
-  }, [undoStack]);
-
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem('redo:temp', JSON.stringify(redoStack.slice(-50)));
-  }, [redoStack]);
-
   useEffect(() => {
     if (typeof window === 'undefined') return;
     localStorage.setItem('temp:clearAfterImport', clearAfterImport ? 'true' : 'false');
@@ -109,13 +109,17 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
           .order('pinned', { ascending: false })
           .order('sort_order', { ascending: true, nullsFirst: false })
           .order('created_at', { ascending: true }),
-        supabase.from('lead_fields').select('*').order('created_at', { ascending: true }),
+        supabase
+          .from('lead_fields')
+          .select('*')
+          .order('position', { ascending: true, nullsFirst: false })
+          .order('created_at', { ascending: true }),
       ]);
 
       if (leadsResult.error) throw leadsResult.error;
       if (fieldsResult.error) throw fieldsResult.error;
 
-      setLeads(leadsResult.data || []);
+      setLeads(normalizeTypedValues(leadsResult.data || [], fieldsResult.data || []));
       setFields(fieldsResult.data || []);
     } catch (error) {
       console.error('Error loading temp leads:', error);
@@ -124,6 +128,16 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
     }
   };
 
+  const showRejected = (rejected: string[]) => {
+    if (rejected.length > 0) console.error('Values not saved:', rejected);
+    setRejectedNotice(rejected.length > 0 ? describeRejected(rejected) : '');
+  };
+
+  const updateTempRow = async (id: string, payload: Record<string, string | null>) => {
+    const { error } = await supabase.from('temp_leads').update(payload).eq('id', id);
+    if (error) throw error;
+  };
+
   const applyMatrix = async (startRow: number, startCol: number, matrix: string[][]) => {
     if (matrix.length === 0) return;
     const baseColumns = new Set(['name', 'email', 'phone', 'website', 'outreach_method']);
@@ -135,29 +149,42 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
       }
     }
 
-    const updates: Promise<unknown>[] = [];
+    const payloads = new Map<string, Record<string, string | null>>();
     const inserts: Record<string, string | number | null>[] = [];
-    const changes: UndoAction['changes'] = [];
+    const changes: CellChange[] = [];
+    const rejected: string[] = [];
+    const taken = await loadTakenValues(orderedFields);
 
     for (let r = 0; r < matrix.length; r += 1) {
       const rowIndex = startRow + r;
+      const targetRow = filteredLeads[rowIndex];
       const updatesRow: Record<string, string | null> = {};
       for (let c = 0; c < matrix[r].length; c += 1) {
         const colIndex = startCol + c;
         if (colIndex >= orderedFields.length) break;
         const targetField = orderedFields[colIndex];
-        const value = matrix[r][c]?.trim() ?? '';
-        updatesRow[targetField.field_key] = value.length > 0 ? value : null;
+        if (READ_ONLY_FIELDS.has(targetField.field_key)) continue;
+        const checked = validateFieldValue(targetField, matrix[r][c] ?? '', selectOptions[targetField.field_key]);
+        if (!checked.ok) {
+          rejected.push(checked.message);
+          continue;
+        }
+        const ruleError = checkFieldRules(targetField, checked.value, targetRow?.id, taken);
+        if (ruleError) {
+          rejected.push(ruleError);
+          continue;
+        }
+        claimValue(taken, targetField, checked.value, targetRow?.id ?? `new-${r}`);
+        updatesRow[targetField.field_key] = checked.value;
       }
 
-      const targetRow = filteredLeads[rowIndex];
       if (targetRow) {
         if (Object.keys(updatesRow).length > 0) {
           for (const [fieldKey, nextVal] of Object.entries(updatesRow)) {
             const prevVal = (targetRow as Record<string, string | null>)[fieldKey] ?? null;
             changes.push({ id: targetRow.id, fieldKey, prev: prevVal, next: nextVal });
           }
-          updates.push(Promise.resolve(supabase.from('temp_leads').update(updatesRow).eq('id', targetRow.id)));
+          payloads.set(targetRow.id, updatesRow);
         }
       } else if (prefs.autoAddRows) {
         const payload: Record<string, string | null | number> = {
@@ -173,17 +200,18 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
       }
     }
 
-    if (updates.length > 0) await Promise.all(updates);
+    const { saved, failures } = await saveRowEdits(payloads, changes, updateTempRow);
+    let insertedRows: Lead[] = [];
     if (inserts.length > 0) {
-      const { data } = await supabase.from('temp_leads').insert(inserts).select();
-      if (data && data.length > 0) {
-        setUndoStack((prev) => [...prev, { changes, insertedRows: data as Lead[] }]);
-        setRedoStack([]);
+      const { data, error } = await supabase.from('temp_leads').insert(inserts).select();
+      if (error) {
+        console.error('Error adding leads:', error);
+        failures.push(describeSaveError(error));
       }
-    } else if (changes.length > 0) {
-      setUndoStack((prev) => [...prev, { changes, insertedRows: [] }]);
-      setRedoStack([]);
+      insertedRows = (data || []) as Lead[];
     }
+    showRejected([...rejected, ...failures]);
+    await history.record(saved, insertedRows);
     loadData();
   };
 
@@ -214,15 +242,18 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
   const handleCellsEdited = async (edits: readonly EditListItem[]) => {
     if (edits.length === 0) return;
     const updatesById = new Map<string, Record<string, string | null>>();
-    const changes: UndoAction['changes'] = [];
+    const changes: CellChange[] = [];
+    const rejected: string[] = [];
+    const taken = await loadTakenValues(orderedFields);
 
     for (const edit of edits) {
-      if (edit.value.kind !== GridCellKind.Text) continue;
+      const rawValue = getEditedCellValue(edit.value);
+      if (rawValue === null) continue;
       const [col, row] = edit.location;
       const lead = filteredLeads[row];
       const field = orderedFields[col];
-      if (!lead || !field) continue;
-      let nextValue = edit.value.data ?? '';
+      if (!lead || !field || READ_ONLY_FIELDS.has(field.field_key)) continue;
+      let nextValue = rawValue;
       if (field.field_key === 'outreach_method') {
         const match = outreachOptions.find(
           (option) =>
@@ -231,21 +262,31 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
         );
         if (match) nextValue = match.key;
       }
+      const checked = validateFieldValue(field, nextValue, selectOptions[field.field_key]);
+      if (!checked.ok) {
+        rejected.push(checked.message);
+        continue;
+      }
+      const ruleError = checkFieldRules(field, checked.value, lead.id, taken);
+      if (ruleError) {
+        rejected.push(ruleError);
+        continue;
+      }
+      claimValue(taken, field, checked.value, lead.id);
       const payload = updatesById.get(lead.id) || {};
       const prevVal = (lead as Record<string, string | null>)[field.field_key] ?? null;
-      payload[field.field_key] = nextValue.length > 0 ? nextValue : null;
+      payload[field.field_key] = checked.value;
       updatesById.set(lead.id, payload);
       changes.push({ id: lead.id, fieldKey: field.field_key, prev: prevVal, next: payload[field.field_key] });
     }
 
-    if (updatesById.size === 0) return;
-    await Promise.all(
-      Array.from(updatesById.entries()).map(([id, payload]) =>
-        supabase.from('temp_leads').update(payload).eq('id', id)
-      )
-    );
-    setUndoStack((prev) => [...prev, { changes, insertedRows: [] }]);
-    setRedoStack([]);
+    if (updatesById.size === 0) {
+      showRejected(rejected);
+      return;
+    }
+    const { saved, failures } = await saveRowEdits(updatesById, changes, updateTempRow);
+    showRejected([...rejected, ...failures]);
+    await history.record(saved, []);
     loadData();
   };
 
@@ -385,46 +426,33 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
     el?.focus();
   };
 
-  const applyUndoAction = async (action: UndoAction, useNext: boolean) => {
-    if (action.insertedRows.length > 0) {
-      if (useNext) {
-        await supabase.from('temp_leads').insert(action.insertedRows);
-      } else {
-        const ids = action.insertedRows.map((row) => row.id);
-        if (ids.length > 0) await supabase.from('temp_leads').delete().in('id', ids);
-      }
-    }
-    if (action.changes.length > 0) {
-      const updatesById = new Map<string, Record<string, string | null>>();
-      action.changes.forEach((change) => {
-        const payload = updatesById.get(change.id) || {};
-        payload[change.fieldKey] = useNext ? change.next : change.prev;
-        updatesById.set(change.id, payload);
-      });
-      await Promise.all(
-        Array.from(updatesById.entries()).map(([id, payload]) =>
-          supabase.from('temp_leads').update(payload).eq('id', id)
-        )
+  const changeTarget: ChangeTarget = {
+    update: async (id, payload) => {
+      const { error } = await supabase.from('temp_leads').update(payload).eq('id', id);
+      if (error) throw error;
+    },
+    current: (id, fieldKey) => {
+      const lead = leads.find((item) => item.id === id);
+      return lead ? (lead as Record<string, string | null>)[fieldKey] ?? null : undefined;
+    },
+  };
+
+  const replayHistory = async (replay: (target: ChangeTarget) => Promise<number>) => {
+    try {
+      const skipped = await replay(changeTarget);
+      setRejectedNotice(
+        skipped > 0 ? `${skipped} cell(s) were changed by someone else since and were left as they are.` : ''
       );
+    } catch (error) {
+      console.error('Error replaying change history:', error);
+      setRejectedNotice(describeSaveError(error));
     }
     loadData();
   };
 
-  const handleUndo = async () => {
-    const last = undoStack[undoStack.length - 1];
-    if (!last) return;
-    setUndoStack((prev) => prev.slice(0, -1));
-    setRedoStack((prev) => [...prev, last]);
-    await applyUndoAction(last, false);
-  };
+  const handleUndo = () => replayHistory(history.undo);
 
-  const handleRedo = async () => {
-    const last = redoStack[redoStack.length - 1];
-    if (!last) return;
-    setRedoStack((prev) => prev.slice(0, -1));
-    setUndoStack((prev) => [...prev, last]);
-    await applyUndoAction(last, true);
-  };
+  const handleRedo = () => replayHistory(history.redo);
 
   const applyBulkMethod = async () => {
     if (!bulkMethod || selectedIds.size === 0) return;
@@ -442,6 +470,24 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
     }
   };
 
+  const assignSelected = async () => {
+    if (!bulkOwner || selectedIds.size === 0) return;
+    const ownerId = bulkOwner === '__none' ? null : bulkOwner;
+    const ids = Array.from(selectedIds);
+    const changes: CellChange[] = leads
+      .filter((lead) => selectedIds.has(lead.id))
+      .map((lead) => ({ id: lead.id, fieldKey: 'owner_id', prev: lead.owner_id ?? null, next: ownerId }));
+    const { error } = await supabase.from('temp_leads').update({ owner_id: ownerId }).in('id', ids);
+    if (error) {
+      console.error('Error assigning leads:', error);
+      return;
+    }
+    await history.record(changes, []);
+    setLeads((prev) => prev.map((lead) => (selectedIds.has(lead.id) ? { ...lead, owner_id: ownerId } : lead)));
+    setSelectedIds(new Set());
+    setBulkOwner('');
+  };
+
   const deleteSelected = async () => {
     if (selectedIds.size === 0) return;
     if (!confirm(`Delete ${selectedIds.size} leads?`)) return;
@@ -508,19 +554,12 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
     loadData();
   };
 
-  const handleCellContextMenu = (cell: Item) => {
-    const [col, row] = cell;
-    const field = orderedFields[col];
-    const lead = filteredLeads[row];
-    if (!field || !lead) return;
-    setNoteTarget({ leadId: lead.id, fieldKey: field.field_key, fieldLabel: field.label });
-  };
-
   const filteredLeads = useMemo(() => {
     const q = searchQuery.trim().toLowerCase();
     const filterEntries = Object.entries(filters).filter(([, val]) => val.trim().length > 0);
     const indexed = leads.map((lead, idx) => ({ lead, idx }));
     const filtered = indexed.filter(({ lead }) => {
+      if (myLeadsOnly && lead.owner_id !== user?.id) return false;
       if (q) {
         const hay = [
           lead.name,
@@ -562,7 +601,9 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
       return a.idx - b.idx;
     });
     return sorted.map((entry) => entry.lead);
-  }, [leads, searchQuery, filters, sorts]);
+  }, [leads, searchQuery, filters, sorts, myLeadsOnly, user?.id]);
+
+  const cellIssues = useFieldIssues(leads, fields);
 
   const orderedFields = useMemo(() => {
     const order = prefs.order.length > 0 ? prefs.order : fields.map((f) => f.field_key);
@@ -598,12 +639,13 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
   }, [fields, sorts]);
 
   useEffect(() => {
-    saveGridPrefs('temp', prefs);
-  }, [prefs]);
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('myLeads:temp', String(myLeadsOnly));
+  }, [myLeadsOnly]);
 
   useEffect(() => {
-    saveViews('temp', views);
-  }, [views]);
+    saveGridPrefs('temp', prefs);
+  }, [prefs]);
 
 
   const toggleFieldVisibility = (fieldKey: string) => {
@@ -624,9 +666,10 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
     });
   };
 
-  const saveCurrentView = () => {
+  const saveCurrentView = async () => {
     const name = prompt('Name this view');
     if (!name) return;
+    const shared = confirm('Share this view with the team?');
     const newView: SavedView = {
       name,
       searchQuery,
@@ -640,12 +683,16 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
       filters,
       sorts,
     };
-    setViews((prev) => [...prev.filter((v) => v.name !== name), newView]);
-    setActiveView(name);
+    try {
+      const saved = await saveView(newView, shared);
+      setActiveView(saved.id ?? '');
+    } catch (error) {
+      console.error('Error saving view:', error);
+    }
   };
 
-  const applyView = (name: string) => {
-    const view = views.find((v) => v.name === name);
+  const applyView = (id: string) => {
+    const view = views.find((v) => v.id === id);
     if (!view) return;
     setSearchQuery(view.searchQuery);
     setPrefs((prev) => ({
@@ -660,19 +707,38 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
     }));
     setFilters(view.filters ?? {});
     setSorts(view.sorts ?? []);
-    setActiveView(name);
+    setActiveView(id);
   };
 
-  const deleteView = (name: string) => {
-    setViews((prev) => prev.filter((v) => v.name !== name));
-    if (activeView === name) setActiveView('');
+  const deleteView = async (id: string) => {
+    try {
+      await removeView(id);
+      if (activeView === id) setActiveView('');
+    } catch (error) {
+      console.error('Error deleting view:', error);
+    }
+  };
+
+  const toggleViewShared = async (view: SavedView) => {
+    if (!view.id) return;
+    try {
+      await setViewShared(view.id, !view.shared);
+    } catch (error) {
+      console.error('Error sharing view:', error);
+    }
   };
 
+  const historyLead = useMemo(
+    () => (historyLeadId ? leads.find((lead) => lead.id === historyLeadId) ?? null : null),
+    [leads, historyLeadId]
+  );
+
   const clearTempLeads = async () => {
     if (!window.confirm('Clear all temp leads? This cannot be undone.')) return;
     await supabase.from('temp_leads').delete().neq('id', '');
     setLeads([]);
     setDuplicates([]);
+    setPossibleDuplicates([]);
   };
 
   const addRemainingToMaster = async () => {
@@ -709,77 +775,55 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
         setLeads([]);
       }
       setDuplicates([]);
+      setPossibleDuplicates([]);
       onImport();
     }
   };
 
+  const selectOptions = useMemo<Record<string, { key: string; label: string }[]>>(
+    () => ({ ...fieldOptions, pipeline_status: stageOptions, owner_id: ownerOptions }),
+    [stageOptions, ownerOptions, fieldOptions]
+  );
+
   const handleAddLead = () => {
     setShowAddLead(true);
   };
 
-  const normalizeEmail = (value?: string | null) => value?.trim().toLowerCase() || '';
-  const normalizePhone = (value?: string | null) => value?.replace(/\D/g, '') || '';
-  const normalizeWebsite = (value?: string | null) =>
-    value
-      ?.trim()
-      .toLowerCase()
-      .replace(/^https?:\/\//, '')
-      .replace(/^www\./, '') || '';
+  const importSelectOptions = useMemo(
+    () => ({ ...selectOptions, outreach_method: outreachOptions }),
+    [selectOptions, outreachOptions]
+  );
+
+  const handleImported = async (rows: Lead[]) => {
+    await history.record([], rows);
+    setImportSource(null);
+    loadData();
+  };
 
   const checkDuplicates = async () => {
     setChecking(true);
     try {
-      const { data: masterLeads, error } = await supabase
-        .from('leads')
-        .select('id,name,email,phone,website');
+      const { data: masterLeads, error } = await supabase.from('leads').select('*');
       if (error) throw error;
 
-      const existingByEmail = new Map<string, Lead>();
-      const existingByPhone = new Map<string, Lead>();
-      const existingByWebsite = new Map<string, Lead>();
-
-      (masterLeads || []).forEach((lead) => {
-        const email = normalizeEmail(lead.email);
-        const phone = normalizePhone(lead.phone);
-        const website = normalizeWebsite(lead.website);
-        if (email) existingByEmail.set(email, lead as Lead);
-        if (phone) existingByPhone.set(phone, lead as Lead);
-        if (website) existingByWebsite.set(website, lead as Lead);
-      });
-
-      const dupes: DuplicateResult[] = [];
-      const toRemove: string[] = [];
-
-      leads.forEach((tempLead) => {
-        const email = normalizeEmail(tempLead.email);
-        const phone = normalizePhone(tempLead.phone);
-        const website = normalizeWebsite(tempLead.website);
-
-        const existing =
-          (email && existingByEmail.get(email)) ||
-          (phone && existingByPhone.get(phone)) ||
-          (website && existingByWebsite.get(website));
-
-        if (existing) {
-          const reason = email && existingByEmail.get(email)
-            ? 'email'
-            : phone && existingByPhone.get(phone)
-            ? 'phone'
-            : 'website';
-          dupes.push({
-            original: tempLead,
-            reason,
-            matchedWith: existing.name || 'Unknown',
-          });
-          toRemove.push(tempLead.id);
-        }
-      });
+      const { matches } = findDuplicates(leads, (masterLeads || []) as Lead[], loadDedupConfig());
+      // Only a shared email, phone or website is removed outright; similar names can be different businesses
+      const exact = matches.filter((match) => match.exact);
+      const dupes: DuplicateResult[] = exact.map((match) => ({
+        original: match.record,
+        reason: match.label,
+        matchedWith: match.existing.name || 'Unknown',
+        confidence: match.confidence,
+      }));
+      const toRemove = exact.map((match) => match.record.id);
 
       if (toRemove.length > 0) {
-        await supabase.from('temp_leads').delete().in('id', toRemove);
+        const { error: deleteError } = await supabase.from('temp_leads').delete().in('id', toRemove);
+        if (deleteError) throw deleteError;
       }
 
       setDuplicates(dupes);
+      setPossibleDuplicates(matches.filter((match) => !match.exact));
       if (toRemove.length > 0) {
         setLeads(leads.filter((lead) => !toRemove.includes(lead.id)));
       }
@@ -790,6 +834,22 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
     }
   };
 
+  const removePossibleDuplicates = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const { error } = await supabase.from('temp_leads').delete().in('id', ids);
+    if (error) {
+      console.error('Error removing duplicates:', error);
+      return;
+    }
+    const removed = new Set(ids);
+    setLeads((prev) => prev.filter((lead) => !removed.has(lead.id)));
+    setPossibleDuplicates((prev) => prev.filter((match) => !removed.has(match.record.id)));
+  };
+
+  const keepPossibleDuplicate = (id: string) => {
+    setPossibleDuplicates((prev) => prev.filter((match) => match.record.id !== id));
+  };
+
   if (loading) {
     return <div className="text-gray-400">Loading...</div>;
   }
@@ -807,18 +867,36 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
             className="px-3 py-2 rounded-md bg-gray-900 border border-gray-700 text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
           />
           <button
-            onClick={handleUndo}
-            disabled={undoStack.length === 0}
-            className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+            onClick={() => setMyLeadsOnly((prev) => !prev)}
+            className={`px-3 py-2 rounded-md text-sm ${
+              myLeadsOnly ? 'bg-purple-800 text-white hover:bg-purple-700' : 'bg-gray-800 text-gray-200 hover:bg-gray-700'
+            }`}
           >
-            Undo
+            My leads
           </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={handleUndo}
+                disabled={!history.canUndo}
+                className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+              >
+                Undo
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!history.canRedo}
+                className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+              >
+                Redo
+              </button>
+            </>
+          )}
           <button
-            onClick={handleRedo}
-            disabled={redoStack.length === 0}
-            className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700 disabled:opacity-50"
+            onClick={() => setShowExport(true)}
+            className="px-3 py-2 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700"
           >
-            Redo
+            Export
           </button>
           <button
             onClick={() => setShowHint((prev) => !prev)}
@@ -826,12 +904,14 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
           >
             Hint
           </button>
-          <button
-            onClick={focusGridForPaste}
-            className="px-3 py-2 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600"
-          >
-            Paste
-          </button>
+          {canEdit && (
+            <button
+              onClick={focusGridForPaste}
+              className="px-3 py-2 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600"
+            >
+              Paste
+            </button>
+          )}
           <div className="relative">
             <button
               onClick={() => setShowColumns((prev) => !prev)}
@@ -971,96 +1051,160 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
                     <div className="text-xs text-gray-500">No saved views</div>
                   )}
                   {views.map((view) => (
-                    <div key={view.name} className="flex items-center gap-2">
+                    <div key={view.id} className="flex items-center gap-2">
                       <button
-                        onClick={() => applyView(view.name)}
+                        onClick={() => applyView(view.id ?? '')}
                         className={`flex-1 text-left text-sm ${
-                          activeView === view.name ? 'text-white' : 'text-gray-300'
+                          activeView === view.id ? 'text-white' : 'text-gray-300'
                         } hover:text-white`}
                       >
                         {view.name}
                       </button>
-                      <button
-                        onClick={() => deleteView(view.name)}
-                        className="text-xs text-red-400 hover:text-red-300"
-                      >
-                        Delete
-                      </button>
+                      {view.ownerId === ownerId ? (
+                        <>
+                          <button
+                            onClick={() => toggleViewShared(view)}
+                            className="text-xs text-gray-400 hover:text-white"
+                          >
+                            {view.shared ? 'Unshare' : 'Share'}
+                          </button>
+                          <button
+                            onClick={() => deleteView(view.id ?? '')}
+                            className="text-xs text-red-400 hover:text-red-300"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-xs text-gray-500">Shared</span>
+                      )}
                     </div>
                   ))}
                 </div>
               </div>
             )}
           </div>
-          <button
-            onClick={checkDuplicates}
-            disabled={checking}
-            className="flex items-center gap-2 px-4 py-2 bg-purple-900 text-white rounded-md hover:bg-purple-800 text-sm font-medium disabled:opacity-50"
-          >
-            {checking ? 'Checking...' : 'Check Duplicates'}
-          </button>
-          <button
-            onClick={addRemainingToMaster}
-            disabled={leads.length === 0}
-            className="flex items-center gap-2 px-4 py-2 bg-purple-700 text-white rounded-md hover:bg-purple-600 text-sm font-medium disabled:opacity-50"
-          >
-            Add Remaining to Master
-          </button>
-          <button
-            onClick={clearTempLeads}
-            className="flex items-center gap-2 px-4 py-2 bg-red-900 text-white rounded-md hover:bg-red-800 text-sm font-medium"
-          >
-            Clear Temp
-          </button>
-          <button
-            onClick={handleAddLead}
-            className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 text-sm font-medium"
-          >
-            <Plus className="w-4 h-4" />
-            Add Lead
-          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={checkDuplicates}
+                disabled={checking}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-900 text-white rounded-md hover:bg-purple-800 text-sm font-medium disabled:opacity-50"
+              >
+                {checking ? 'Checking...' : 'Check Duplicates'}
+              </button>
+              <button
+                onClick={() => setShowDedupSettings(true)}
+                title="Duplicate matching settings"
+                className="flex items-center px-2 py-2 bg-gray-900 text-gray-300 rounded-md hover:bg-gray-800 hover:text-white"
+              >
+                <Settings2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={addRemainingToMaster}
+                disabled={leads.length === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-700 text-white rounded-md hover:bg-purple-600 text-sm font-medium disabled:opacity-50"
+              >
+                Add Remaining to Master
+              </button>
+              <button
+                onClick={clearTempLeads}
+                className="flex items-center gap-2 px-4 py-2 bg-red-900 text-white rounded-md hover:bg-red-800 text-sm font-medium"
+              >
+                Clear Temp
+              </button>
+              <button
+                onClick={handleAddLead}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-500 text-sm font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                Add Lead
+              </button>
+            </>
+          )}
         </div>
       </div>
 
       {selectedIds.size > 0 && (
         <div className="mb-3 flex items-center gap-3 text-sm">
           <span className="text-gray-300">{selectedIds.size} selected</span>
-          <select
-            value={bulkMethod}
-            onChange={(e) => setBulkMethod(e.target.value)}
-            className="px-2 py-1 rounded-md bg-gray-900 border border-gray-700 text-white"
-          >
-            <option value="">Set outreach method...</option>
-            {outreachOptions.map((option) => (
-              <option key={option.key} value={option.key}>
-                {option.label}
-              </option>
-            ))}
-          </select>
-          <button
-            onClick={applyBulkMethod}
-            className="px-3 py-1.5 rounded-md bg-purple-800 text-white hover:bg-purple-700"
-          >
-            Apply
-          </button>
-          <button
-            onClick={() => setPinnedForSelected(true)}
-            className="px-3 py-1.5 rounded-md bg-blue-900 text-white hover:bg-blue-800"
-          >
-            Pin
-          </button>
-          <button
-            onClick={() => setPinnedForSelected(false)}
-            className="px-3 py-1.5 rounded-md bg-blue-900 text-white hover:bg-blue-800"
-          >
-            Unpin
-          </button>
-          <button
-            onClick={deleteSelected}
-            className="px-3 py-1.5 rounded-md bg-red-900 text-white hover:bg-red-800"
-          >
-            Delete
-          </button>
+          {canEdit && (
+            <>
+              <select
+                value={bulkMethod}
+                onChange={(e) => setBulkMethod(e.target.value)}
+                className="px-2 py-1 rounded-md bg-gray-900 border border-gray-700 text-white"
+              >
+                <option value="">Set outreach method...</option>
+                {outreachOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={applyBulkMethod}
+                className="px-3 py-1.5 rounded-md bg-purple-800 text-white hover:bg-purple-700"
+              >
+                Apply
+              </button>
+              <select
+                value={bulkOwner}
+                onChange={(e) => setBulkOwner(e.target.value)}
+                className="px-2 py-1 rounded-md bg-gray-900 border border-gray-700 text-white"
+              >
+                <option value="">Assign to...</option>
+                <option value="__none">Unassigned</option>
+                {ownerOptions.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={assignSelected}
+                className="px-3 py-1.5 rounded-md bg-purple-800 text-white hover:bg-purple-700"
+              >
+                Assign
+              </button>
+              <button
+                onClick={() => setPinnedForSelected(true)}
+                className="px-3 py-1.5 rounded-md bg-blue-900 text-white hover:bg-blue-800"
+              >
+                Pin
+              </button>
+              <button
+                onClick={() => setPinnedForSelected(false)}
+                className="px-3 py-1.5 rounded-md bg-blue-900 text-white hover:bg-blue-800"
+              >
+                Unpin
+              </button>
+            </>
+          )}
+          {selectedIds.size === 1 && (
+            <button
+              onClick={() => openLeadDetail(Array.from(selectedIds)[0])}
+              className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 hover:bg-gray-700"
+            >
+              Details
+            </button>
+          )}
+          {selectedIds.size === 1 && (
+            <button
+              onClick={() => setHistoryLeadId(Array.from(selectedIds)[0])}
+              className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 hover:bg-gray-700"
+            >
+              History
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={deleteSelected}
+              className="px-3 py-1.5 rounded-md bg-red-900 text-white hover:bg-red-800"
+            >
+              Delete
+            </button>
+          )}
         </div>
       )}
 
@@ -1070,10 +1214,43 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
         </div>
       )}
 
-      <div className="mb-3 text-xs text-gray-400">
-        Tip: Paste anywhere in the grid (Ctrl+V). Rows will auto‑add if enabled.
-      </div>
+      {canEdit ? (
+        <div className="mb-3 text-xs text-gray-400">
+          Tip: Paste anywhere in the grid (Ctrl+V). Rows will auto‑add if enabled.
+        </div>
+      ) : (
+        <div className="mb-3 text-xs text-gray-400">You have view-only access; ask an admin for the rep role to import leads.</div>
+      )}
 
+      {canEdit && (
+        <div className="mb-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-400">Import:</span>
+            {IMPORT_SOURCES.map((source) => (
+              <button
+                key={source.key}
+                onClick={() => setImportSource((prev) => (prev === source.key ? null : source.key))}
+                className={`px-3 py-1.5 rounded-md text-sm ${
+                  importSource === source.key
+                    ? 'bg-purple-800 text-white hover:bg-purple-700'
+                    : 'bg-gray-800 text-gray-200 hover:bg-gray-700'
+                }`}
+              >
+                {source.label}
+              </button>
+            ))}
+          </div>
+          {importSource && (
+            <div className="mt-3 bg-gray-950 border border-gray-800 rounded-lg p-4">
+              {importSource === 'file' ? (
+                <FileUpload selectOptions={importSelectOptions} onImport={handleImported} />
+              ) : (
+                <SmartPaste onImport={handleImported} />
+              )}
+            </div>
+          )}
+        </div>
+      )}
       {duplicates.length > 0 && (
         <div className="mb-4 bg-gray-900 border border-gray-700 rounded-md p-4">
           <h3 className="font-semibold text-gray-200 mb-2">
@@ -1086,7 +1263,7 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
                   dup.original.email ||
                   dup.original.phone ||
                   dup.original.website ||
-                  'Unknown lead') + ` — matched by ${dup.reason} with ${dup.matchedWith}`}
+                  'Unknown lead') + ` — matched by ${dup.reason} with ${dup.matchedWith} (${Math.round(dup.confidence * 100)}%)`}
               </div>
             ))}
             {duplicates.length > 10 && (
@@ -1098,17 +1275,74 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
         </div>
       )}
 
+      {possibleDuplicates.length > 0 && (
+        <div className="mb-4 bg-gray-900 border border-yellow-800 rounded-md p-4">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <h3 className="font-semibold text-gray-200">
+              {possibleDuplicates.length} possible duplicate{possibleDuplicates.length === 1 ? '' : 's'} to review:
+            </h3>
+            <div className="flex gap-2 text-sm">
+              <button
+                onClick={() => removePossibleDuplicates(possibleDuplicates.map((match) => match.record.id))}
+                className="px-3 py-1.5 rounded-md bg-red-900 text-white hover:bg-red-800"
+              >
+                Remove all
+              </button>
+              <button
+                onClick={() => setPossibleDuplicates([])}
+                className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 hover:bg-gray-700"
+              >
+                Keep all
+              </button>
+            </div>
+          </div>
+          <div className="space-y-1 text-sm text-gray-300 max-h-64 overflow-y-auto">
+            {possibleDuplicates.map((match) => (
+              <div key={match.record.id} className="flex items-center gap-2">
+                <span className="flex-1 min-w-0 truncate">
+                  {(match.record.name || match.record.email || match.record.phone || match.record.website || 'Unknown lead') +
+                    ` — ${match.label} to ${match.existing.name || 'Unknown'} (${Math.round(match.confidence * 100)}%)`}
+                </span>
+                <button
+                  onClick={() => removePossibleDuplicates([match.record.id])}
+                  className="px-2 py-0.5 rounded-md bg-red-900 text-white text-xs hover:bg-red-800"
+                >
+                  Remove
+                </button>
+                <button
+                  onClick={() => keepPossibleDuplicate(match.record.id)}
+                  className="px-2 py-0.5 rounded-md bg-gray-800 text-gray-200 text-xs hover:bg-gray-700"
+                >
+                  Keep
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
 
+      {rejectedNotice && (
+        <div className="mb-3 flex items-start justify-between gap-3 bg-red-950 border border-red-800 text-red-200 px-4 py-3 rounded-md text-sm whitespace-pre-line">
+          <span>{rejectedNotice}</span>
+          <button onClick={() => setRejectedNotice('')} className="text-red-300 hover:text-white" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
       <div className="bg-gray-950 rounded-lg shadow overflow-hidden border border-gray-800">
         <GlideLeadGrid
           rows={filteredLeads}
           orderedFields={orderedFields}
           outreachOptions={outreachOptions}
+          selectOptions={selectOptions}
+          cellIssues={cellIssues}
           prefs={prefs}
           setPrefs={setPrefs}
           formats={prefs.formats}
           copyHeaders={prefs.copyHeaders}
           columnTitleByKey={columnTitleByKey}
+          readOnly={!canEdit}
           onCellsEdited={handleCellsEdited}
           onPaste={handlePaste}
           onDelete={handleDelete}
@@ -1116,18 +1350,29 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
           onAppendRow={handleAppendRow}
           onHeaderClick={handleHeaderClick}
           onRowMoved={handleRowMoved}
-          onCellContextMenu={handleCellContextMenu}
           onSelectedIdsChange={setSelectedIds}
         />
       </div>
 
 
-      {noteTarget && (
-        <CellNoteModal
-          leadId={noteTarget.leadId}
-          fieldKey={noteTarget.fieldKey}
-          fieldLabel={noteTarget.fieldLabel}
-          onClose={() => setNoteTarget(null)}
+      {historyLead && (
+        <LeadHistoryPanel
+          key={historyLead.id}
+          lead={historyLead}
+          fields={fields}
+          onClose={() => setHistoryLeadId(null)}
+        />
+      )}
+
+      {showDedupSettings && <DedupSettingsModal onClose={() => setShowDedupSettings(false)} />}
+
+      {showExport && (
+        <ExportModal
+          rows={filteredLeads}
+          fields={orderedFields}
+          selectOptions={{ ...selectOptions, outreach_method: outreachOptions }}
+          baseName={'temp-leads'}
+          onClose={() => setShowExport(false)}
         />
       )}
 
@@ -1135,6 +1380,7 @@ export function TempLeads({ onImport, outreachOptions }: TempLeadsProps) {
         <AddLeadModal
           fields={fields}
           outreachOptions={outreachOptions}
+          selectOptions={selectOptions}
           tableName="temp_leads"
           onClose={() => setShowAddLead(false)}
           onSuccess={() => {
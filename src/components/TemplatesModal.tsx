@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase, LeadField, MessageTemplate } from '../lib/supabase';
+import { MessageTemplateDraft, useMessageTemplates } from '../lib/useMessageTemplates';
+import { placeholderFor, unknownPlaceholders } from '../lib/messageTemplates';
+import { useAuth } from '../contexts/AuthContext';
+
+type TemplatesModalProps = {
+  outreachOptions: { key: string; label: string }[];
+  onClose: () => void;
+};
+
+const inputClass =
+  'w-full px-2 py-1.5 border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-900 text-white text-sm';
+
+const emptyDraft = (method: string): MessageTemplateDraft => ({ method, name: '', subject: '', body: '' });
+
+/** The team's message templates per channel, with {{field_key}} placeholders for lead fields */
+export function TemplatesModal({ outreachOptions, onClose }: TemplatesModalProps) {
+  const { canEdit } = useAuth();
+  const { templates, loading, saveTemplate, deleteTemplate } = useMessageTemplates('library');
+  const [fields, setFields] = useState<LeadField[]>([]);
+  const [method, setMethod] = useState(outreachOptions[0]?.key ?? '');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<MessageTemplateDraft>(() => emptyDraft(outreachOptions[0]?.key ?? ''));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const subjectRef = useRef<HTMLInputElement>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  /** Where "Insert field" puts the placeholder: the subject or body input that last had focus */
+  const lastInputRef = useRef<'subject' | 'body'>('body');
+
+  useEffect(() => {
+    supabase
+      .from('lead_fields')
+      .select('*')
+      .order('position', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: true })
+      .then(({ data, error: fieldsError }) => {
+        if (fieldsError) console.error('Failed to load fields', fieldsError);
+        if (data) setFields(data);
+      });
+  }, []);
+
+  const channelTemplates = useMemo(() => templates.filter((template) => template.method === method), [templates, method]);
+  const unknown = useMemo(() => unknownPlaceholders(draft, fields), [draft, fields]);
+  const methodLabel = (key: string) => outreachOptions.find((option) => option.key === key)?.label || key;
+
+  const startNew = (nextMethod = method) => {
+    setEditingId(null);
+    setDraft(emptyDraft(nextMethod));
+    setError('');
+  };
+
+  const startEdit = (template: MessageTemplate) => {
+    setEditingId(template.id);
+    setDraft({ method: template.method, name: template.name, subject: template.subject ?? '', body: template.body });
+    setError('');
+  };
+
+  const insertField = (fieldKey: string) => {
+    const target = lastInputRef.current;
+    const input = target === 'subject' ? subjectRef.current : bodyRef.current;
+    const text = (target === 'subject' ? draft.subject : draft.body) ?? '';
+    const start = input?.selectionStart ?? text.length;
+    const end = input?.selectionEnd ?? text.length;
+    const placeholder = placeholderFor(fieldKey);
+    setDraft((prev) => ({ ...prev, [target]: text.slice(0, start) + placeholder + text.slice(end) }));
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      setError('Give the template a name');
+      return;
+    }
+    if (
+      templates.some(
+        (template) =>
+          template.id !== editingId &&
+          template.method === draft.method &&
+          template.name.toLowerCase() === draft.name.trim().toLowerCase()
+      )
+    ) {
+      setError(`${methodLabel(draft.method)} already has a template with this name`);
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      const saved = await saveTemplate(draft, editingId ?? undefined);
+      setEditingId(saved.id);
+      setMethod(saved.method);
+    } catch (err) {
+      console.error('Failed to save template', err);
+      setError('Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId || !confirm(`Delete the "${draft.name}" template?`)) return;
+    setSaving(true);
+    setError('');
+    try {
+      await deleteTemplate(editingId);
+      startNew();
+    } catch (err) {
+      console.error('Failed to delete template', err);
+      setError('Failed to delete template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-950 border border-gray-800 rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Message Templates</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-6 min-h-0 flex-1">
+          <div className="w-56 shrink-0 flex flex-col gap-2 min-h-0">
+            <select
+              value={method}
+              onChange={(e) => {
+                setMethod(e.target.value);
+                startNew(e.target.value);
+              }}
+              className={inputClass}
+            >
+              {outreachOptions.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <div className="flex-1 overflow-y-auto space-y-1">
+              {loading && <div className="text-sm text-gray-400">Loading...</div>}
+              {!loading && channelTemplates.length === 0 && (
+                <div className="text-sm text-gray-500">No {methodLabel(method)} templates yet</div>
+              )}
+              {channelTemplates.map((template) => (
+                <button
+                  key={template.id}
+                  onClick={() => startEdit(template)}
+                  className={`block w-full text-left px-3 py-2 rounded-md text-sm truncate ${
+                    editingId === template.id ? 'bg-purple-900 text-white' : 'text-gray-300 hover:bg-gray-900'
+                  }`}
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+            {canEdit && (
+              <button
+                onClick={() => startNew()}
+                className="px-3 py-1.5 rounded-md bg-gray-800 text-gray-200 text-sm hover:bg-gray-700"
+              >
+                New template
+              </button>
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 overflow-y-auto space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400">Name</span>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                  disabled={!canEdit}
+                  placeholder="e.g., First touch"
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400">Channel</span>
+                <select
+                  value={draft.method}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, method: e.target.value }))}
+                  disabled={!canEdit}
+                  className={inputClass}
+                >
+                  {outreachOptions.map((option) => (
+                    <option key={option.key} value={option.key}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-400">Subject (optional)</span>
+              <input
+                ref={subjectRef}
+                type="text"
+                value={draft.subject ?? ''}
+                onChange={(e) => setDraft((prev) => ({ ...prev, subject: e.target.value }))}
+                onFocus={() => {
+                  lastInputRef.current = 'subject';
+                }}
+                disabled={!canEdit}
+                placeholder="e.g., Quick question about {{website}}"
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-400">Message</span>
+              <textarea
+                ref={bodyRef}
+                value={draft.body}
+                onChange={(e) => setDraft((prev) => ({ ...prev, body: e.target.value }))}
+                onFocus={() => {
+                  lastInputRef.current = 'body';
+                }}
+                disabled={!canEdit}
+                placeholder={'Hi {{name}},\n\n...'}
+                className={`${inputClass} h-48 font-mono`}
+              />
+            </label>
+
+            {canEdit && (
+              <div className="space-y-1">
+                <div className="text-xs text-gray-400">Insert field</div>
+                <div className="flex flex-wrap gap-1">
+                  {fields.map((field) => (
+                    <button
+                      key={field.field_key}
+                      onClick={() => insertField(field.field_key)}
+                      title={placeholderFor(field.field_key)}
+                      className="px-2 py-0.5 rounded-full bg-gray-900 border border-gray-700 text-xs text-gray-300 hover:text-white hover:border-purple-500"
+                    >
+                      {field.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {unknown.length > 0 && (
+              <div className="p-2 bg-yellow-950 border border-yellow-800 text-yellow-100 rounded-md text-xs">
+                No lead field matches {unknown.map(placeholderFor).join(', ')}; {unknown.length === 1 ? 'it is' : 'they are'} left
+                as written in messages.
+              </div>
+            )}
+            {error && <div className="text-xs text-red-400">{error}</div>}
+
+            {canEdit && (
+              <div className="flex justify-end gap-2">
+                {editingId && (
+                  <button
+                    onClick={handleDelete}
+                    disabled={saving}
+                    className="px-3 py-1.5 rounded-md bg-red-900 text-white text-sm hover:bg-red-800 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !draft.method}
+                  className="px-3 py-1.5 rounded-md bg-purple-700 text-white text-sm hover:bg-purple-600 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : editingId ? 'Save' : 'Add template'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
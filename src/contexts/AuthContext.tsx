@@ -1,54 +1,121 @@
 /* eslint-disable react-refresh/only-export-components */
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase, UserRole } from '../lib/supabase';
 
 type SessionUser = {
   id: string;
-  authenticated: true;
+  email: string;
+  name: string | null;
+  role: UserRole;
 };
 
 type AuthContextType = {
   user: SessionUser | null;
   loading: boolean;
-  authenticate: (password: string) => Promise<void>;
+  isAdmin: boolean;
+  canEdit: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  /** Resolves to false when the account still has to be confirmed by email */
+  signUp: (email: string, password: string, fullName: string) => Promise<boolean>;
   signOut: () => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
-const CORRECT_PASSWORD = '123mindrep';
-const SESSION_KEY = 'crm_session_token';
-
-function generateSessionToken(): string {
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
-}
 
 export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<{ id: string; email: string } | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
   const [user, setUser] = useState<SessionUser | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [profileLoading, setProfileLoading] = useState(false);
 
   useEffect(() => {
-    const sessionToken = localStorage.getItem(SESSION_KEY);
-    if (sessionToken) {
-      setUser({ id: sessionToken, authenticated: true });
-    }
-    setLoading(false);
+    supabase.auth.getSession().then(({ data }) => {
+      const authUser = data.session?.user;
+      setSession(authUser ? { id: authUser.id, email: authUser.email ?? '' } : null);
+      setSessionLoading(false);
+    });
+
+    // Only store the session here; querying supabase inside this callback can deadlock the client
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      const authUser = nextSession?.user;
+      setSession((prev) => {
+        if (!authUser) return null;
+        if (prev?.id === authUser.id) return prev;
+        return { id: authUser.id, email: authUser.email ?? '' };
+      });
+    });
+
+    return () => {
+      listener.subscription.unsubscribe();
+    };
   }, []);
 
-  const authenticate = async (password: string) => {
-    if (password !== CORRECT_PASSWORD) {
-      throw new Error('Invalid password');
+  useEffect(() => {
+    if (!session) {
+      setUser(null);
+      return;
     }
-    const token = generateSessionToken();
-    localStorage.setItem(SESSION_KEY, token);
-    setUser({ id: token, authenticated: true });
+
+    const loadProfile = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('email,full_name,role')
+        .eq('id', session.id)
+        .maybeSingle();
+      if (error) console.error('Error loading profile:', error);
+      setUser({
+        id: session.id,
+        email: data?.email ?? session.email,
+        name: data?.full_name ?? null,
+        role: (data?.role as UserRole | undefined) ?? 'pending',
+      });
+      setProfileLoading(false);
+    };
+
+    setProfileLoading(true);
+    loadProfile();
+    const channel = supabase
+      .channel(`profile-${session.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'profiles', filter: `id=eq.${session.id}` },
+        () => {
+          loadProfile();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [session]);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signUp = async (email: string, password: string, fullName: string) => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { data: { full_name: fullName.trim() || null } },
+    });
+    if (error) throw error;
+    return data.session !== null;
   };
 
   const signOut = async () => {
-    localStorage.removeItem(SESSION_KEY);
-    setUser(null);
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
   };
 
+  const loading = sessionLoading || profileLoading || (session !== null && user === null);
+  const isAdmin = user?.role === 'admin';
+  const canEdit = user?.role === 'admin' || user?.role === 'rep';
+
   return (
-    <AuthContext.Provider value={{ user, loading, authenticate, signOut }}>
+    <AuthContext.Provider value={{ user, loading, isAdmin, canEdit, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
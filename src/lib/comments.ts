@@ -0,0 +1,161 @@
+import { supabase, LeadComment, LeadThread, Profile } from './supabase';
+import { profileLabel } from './team';
+
+/** Select clause that embeds each thread's comments */
+const THREAD_WITH_COMMENTS = '*, comments:lead_comments(*)';
+
+const PAGE_SIZE = 1000;
+
+/** Per lead and cell: how many comments its thread has, the latest one and whether it's resolved */
+export type CellComments = Record<string, Record<string, { count: number; latest: string; resolved: boolean }>>;
+
+const byCreated = (a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at);
+
+/** Comments come back from the embed in no particular order */
+function sortThreads(threads: LeadThread[]): LeadThread[] {
+  return threads.map((thread) => ({ ...thread, comments: [...(thread.comments ?? [])].sort(byCreated) }));
+}
+
+/** When a thread last had a comment, for sorting and date filters */
+export function lastActivity(thread: LeadThread): string {
+  return thread.comments?.[thread.comments.length - 1]?.created_at ?? thread.created_at;
+}
+
+/** The whole-lead thread and every cell thread of one lead */
+export async function loadLeadThreads(leadId: string): Promise<LeadThread[]> {
+  const { data, error } = await supabase.from('lead_threads').select(THREAD_WITH_COMMENTS).eq('lead_id', leadId);
+  if (error) throw error;
+  return sortThreads(data || []);
+}
+
+/** One lead's thread (`fieldKey` null) or one cell's, or null before anyone comments */
+export async function loadThread(leadId: string, fieldKey: string | null): Promise<LeadThread | null> {
+  const query = supabase.from('lead_threads').select(THREAD_WITH_COMMENTS).eq('lead_id', leadId);
+  const { data, error } = await (fieldKey === null ? query.is('field_key', null) : query.eq('field_key', fieldKey)).maybeSingle();
+  if (error) throw error;
+  return data ? sortThreads([data])[0] : null;
+}
+
+/** Every thread across leads with its lead's name, most recently active first */
+export async function loadAllThreads(): Promise<LeadThread[]> {
+  const threads: LeadThread[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('lead_threads')
+      .select(`${THREAD_WITH_COMMENTS}, lead:leads(name,email)`)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    threads.push(...sortThreads((data || []) as LeadThread[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return threads.sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)));
+}
+
+/** A summary of every cell thread, for the grids' markers and tooltips */
+export async function loadCellCommentIndex(): Promise<CellComments> {
+  const index: CellComments = {};
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('lead_threads')
+      .select('lead_id, field_key, resolved_at, comments:lead_comments(body, created_at)')
+      .not('field_key', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    (data || []).forEach(
+      (row: {
+        lead_id: string;
+        field_key: string;
+        resolved_at: string | null;
+        comments: { body: string; created_at: string }[];
+      }) => {
+        if (row.comments.length === 0) return;
+        const latest = [...row.comments].sort(byCreated)[row.comments.length - 1];
+        (index[row.lead_id] ??= {})[row.field_key] = {
+          count: row.comments.length,
+          latest: latest.body,
+          resolved: Boolean(row.resolved_at),
+        };
+      }
+    );
+    if (!data || data.length < PAGE_SIZE) return index;
+  }
+}
+
+/** Add a comment to a lead's thread (`fieldKey` null) or a cell's; the thread is created or reopened */
+export async function addComment(
+  leadId: string,
+  fieldKey: string | null,
+  body: string,
+  mentions: string[]
+): Promise<LeadComment> {
+  const { data, error } = await supabase.rpc('add_lead_comment', {
+    target_lead: leadId,
+    target_field: fieldKey,
+    body,
+    mentions,
+  });
+  if (error) throw error;
+  return data as LeadComment;
+}
+
+/** Change the text of your own comment; the previous text is kept in `edits` */
+export async function editComment(id: string, body: string, mentions: string[]): Promise<void> {
+  const { error } = await supabase.from('lead_comments').update({ body: body.trim(), mentions }).eq('id', id);
+  if (error) throw error;
+}
+
+/** Delete a comment, and its thread when it was the only one */
+export async function deleteComment(comment: LeadComment, thread: LeadThread): Promise<void> {
+  const { error } =
+    (thread.comments?.length ?? 0) <= 1
+      ? await supabase.from('lead_threads').delete().eq('id', thread.id)
+      : await supabase.from('lead_comments').delete().eq('id', comment.id);
+  if (error) throw error;
+}
+
+export async function setThreadResolved(threadId: string, resolved: boolean, userId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('lead_threads')
+    .update(resolved ? { resolved_at: new Date().toISOString(), resolved_by: userId } : { resolved_at: null, resolved_by: null })
+    .eq('id', threadId);
+  if (error) throw error;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Matches "@<name>" for every teammate, longest names first so "@Ann Lee" wins over "@Ann" */
+function mentionPattern(team: Profile[]): RegExp | null {
+  const labels = team.map((member) => profileLabel(member)).sort((a, b) => b.length - a.length);
+  if (labels.length === 0) return null;
+  return new RegExp(`@(${labels.map(escapeRegExp).join('|')})`, 'gi');
+}
+
+/** Ids of the teammates @mentioned in `body` */
+export function findMentions(body: string, team: Profile[]): string[] {
+  const pattern = mentionPattern(team);
+  if (!pattern) return [];
+  const ids = new Set<string>();
+  for (const match of body.matchAll(pattern)) {
+    const member = team.find((person) => profileLabel(person).toLowerCase() === match[1].toLowerCase());
+    if (member) ids.add(member.id);
+  }
+  return Array.from(ids);
+}
+
+/** `body` cut into plain text and @mentions, for highlighting */
+export function splitMentions(body: string, team: Profile[]): { text: string; mention: boolean }[] {
+  const pattern = mentionPattern(team);
+  if (!pattern) return [{ text: body, mention: false }];
+  const parts: { text: string; mention: boolean }[] = [];
+  let last = 0;
+  for (const match of body.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ text: body.slice(last, start), mention: false });
+    parts.push({ text: match[0], mention: true });
+    last = start + match[0].length;
+  }
+  if (last < body.length) parts.push({ text: body.slice(last), mention: false });
+  return parts;
+}
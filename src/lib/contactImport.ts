@@ -0,0 +1,327 @@
+/**
+ * Phone and address-book exports (vCard files, Google and Outlook contacts CSV) are
+ * flattened into one fixed column layout, so they go through the normal mapping step
+ * and a saved template works for every export of the same kind.
+ */
+
+type ContactValue = { value: string; types: string[]; pref: boolean };
+
+type Contact = {
+  name: string;
+  emails: ContactValue[];
+  phones: ContactValue[];
+  websites: ContactValue[];
+  company: string;
+  title: string;
+  address: string;
+  birthday: string;
+  note: string;
+};
+
+export type ContactSource = 'vcard' | 'google' | 'outlook';
+
+export const CONTACT_SOURCE_LABELS: Record<ContactSource, string> = {
+  vcard: 'vCard',
+  google: 'Google Contacts',
+  outlook: 'Outlook contacts',
+};
+
+/** Headers of the flattened table; the first four are picked up by the upload auto-mapping */
+export const CONTACT_HEADERS = [
+  'Full Name',
+  'Email',
+  'Phone',
+  'Website',
+  'Company',
+  'Job Title',
+  'Other Emails',
+  'Other Phones',
+  'Other Websites',
+  'Address',
+  'Birthday',
+  'Notes',
+];
+
+const emptyContact = (): Contact => ({
+  name: '',
+  emails: [],
+  phones: [],
+  websites: [],
+  company: '',
+  title: '',
+  address: '',
+  birthday: '',
+  note: '',
+});
+
+/** Phone types texted first when a contact has no preferred number */
+const SMS_TYPES = ['cell', 'mobile', 'iphone'];
+
+/**
+ * Which of a contact's repeated values fills the lead field: the one marked preferred,
+ * otherwise (phones) the first mobile number, otherwise the first one listed.
+ * The rest, de-duplicated, go to the matching "Other …" column.
+ */
+function pickPrimary(values: ContactValue[], preferTypes: string[] = []): [string, string] {
+  const unique = values.filter(
+    (entry, idx) => entry.value && values.findIndex((other) => other.value === entry.value) === idx
+  );
+  const primary =
+    unique.find((entry) => entry.pref) ??
+    unique.find((entry) => entry.types.some((type) => preferTypes.includes(type))) ??
+    unique[0];
+  if (!primary) return ['', ''];
+  const rest = unique.filter((entry) => entry !== primary).map((entry) => entry.value);
+  return [primary.value, rest.join(', ')];
+}
+
+function contactsToTable(contacts: Contact[]): { headers: string[]; rows: string[][] } {
+  const rows = contacts
+    .map((contact) => {
+      const [email, otherEmails] = pickPrimary(contact.emails);
+      const [phone, otherPhones] = pickPrimary(contact.phones, SMS_TYPES);
+      const [website, otherWebsites] = pickPrimary(contact.websites);
+      return [
+        contact.name,
+        email,
+        phone,
+        website,
+        contact.company,
+        contact.title,
+        otherEmails,
+        otherPhones,
+        otherWebsites,
+        contact.address,
+        contact.birthday,
+        contact.note,
+      ];
+    })
+    .filter((row) => row.some(Boolean));
+  return { headers: CONTACT_HEADERS, rows };
+}
+
+const joinParts = (parts: (string | undefined)[], separator = ' ') =>
+  parts
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(separator);
+
+// ---------- vCard (2.1, 3.0 and 4.0) ----------
+
+const unescapeVCard = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/** Split on `separator` unless it is backslash-escaped, then unescape each part */
+const splitVCard = (value: string, separator: string) =>
+  value.split(new RegExp(`(?<!\\\\)${separator}`)).map(unescapeVCard);
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i += 1) {
+    const hex = value.slice(i + 1, i + 3);
+    if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/** Undo line folding; 2.1 quoted-printable values instead continue after a trailing "=" */
+function unfoldVCard(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    const previous = lines[lines.length - 1];
+    if (/^[ \t]/.test(line) && previous !== undefined) {
+      lines[lines.length - 1] = previous + line.slice(1);
+    } else if (previous !== undefined && /QUOTED-PRINTABLE/i.test(previous.split(':')[0]) && previous.endsWith('=')) {
+      lines[lines.length - 1] = previous.slice(0, -1) + line;
+    } else {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+type VCardLine = { name: string; params: Record<string, string[]>; value: string };
+
+function parseVCardLine(line: string): VCardLine | null {
+  const colon = line.indexOf(':');
+  if (colon < 0) return null;
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string[]> = {};
+  rawParams.forEach((param) => {
+    const eq = param.indexOf('=');
+    // 2.1 allows bare types, e.g. TEL;CELL;PREF
+    const key = eq < 0 ? 'TYPE' : param.slice(0, eq).toUpperCase();
+    const values = (eq < 0 ? param : param.slice(eq + 1)).replace(/"/g, '').split(',');
+    (params[key] ??= []).push(...values.map((value) => value.trim().toLowerCase()));
+  });
+  let value = line.slice(colon + 1);
+  const encoding = [...(params.ENCODING ?? []), ...(params.TYPE ?? [])];
+  if (encoding.includes('quoted-printable')) value = decodeQuotedPrintable(value);
+  // Apple groups related lines as item1.EMAIL / item1.X-ABLabel
+  const name = rawName.replace(/^[^.]+\./, '').toUpperCase();
+  return { name, params, value };
+}
+
+const vCardValue = (line: VCardLine): ContactValue => {
+  const types = line.params.TYPE ?? [];
+  const pref = types.includes('pref') || (line.params.PREF?.length ?? 0) > 0;
+  return { value: unescapeVCard(line.value).replace(/^tel:/i, '').trim(), types, pref };
+};
+
+/** Every contact in a .vcf file */
+export function parseVCards(text: string): { headers: string[]; rows: string[][] } {
+  const contacts: Contact[] = [];
+  let current: Contact | null = null;
+  let structuredName = '';
+
+  for (const raw of unfoldVCard(text)) {
+    const line = parseVCardLine(raw);
+    if (!line) continue;
+    const { name, value } = line;
+    if (name === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      current = emptyContact();
+      structuredName = '';
+      continue;
+    }
+    if (!current) continue;
+    switch (name) {
+      case 'END':
+        if (!current.name) current.name = structuredName;
+        contacts.push(current);
+        current = null;
+        break;
+      case 'FN':
+        current.name = unescapeVCard(value).trim();
+        break;
+      case 'N': {
+        const [family, given, middle, prefix, suffix] = splitVCard(value, ';');
+        structuredName = joinParts([prefix, given, middle, family, suffix]);
+        break;
+      }
+      case 'EMAIL':
+        current.emails.push(vCardValue(line));
+        break;
+      case 'TEL':
+        current.phones.push(vCardValue(line));
+        break;
+      case 'URL':
+        current.websites.push(vCardValue(line));
+        break;
+      case 'ORG':
+        current.company = joinParts(splitVCard(value, ';'), ', ');
+        break;
+      case 'TITLE':
+        current.title = unescapeVCard(value).trim();
+        break;
+      case 'ADR':
+        // PO box; extended; street; city; region; postal code; country
+        if (!current.address) current.address = joinParts(splitVCard(value, ';'), ', ');
+        break;
+      case 'BDAY':
+        current.birthday = value.trim();
+        break;
+      case 'NOTE':
+        current.note = joinParts([current.note, unescapeVCard(value)], '\n');
+        break;
+    }
+  }
+
+  return contactsToTable(contacts);
+}
+
+// ---------- Google / Outlook contacts CSV ----------
+
+/** Google exports, old ("E-mail 1 - Type") and new ("E-mail 1 - Label") layouts */
+const GOOGLE_VALUE = /^(e-mail|phone|website) (\d+) - value$/i;
+
+const OUTLOOK_EMAILS = ['e-mail address', 'e-mail 2 address', 'e-mail 3 address'];
+const OUTLOOK_PHONES: [string, string][] = [
+  ['primary phone', 'pref'],
+  ['mobile phone', 'cell'],
+  ['business phone', 'work'],
+  ['business phone 2', 'work'],
+  ['home phone', 'home'],
+  ['home phone 2', 'home'],
+  ['other phone', 'other'],
+  ['company main phone', 'work'],
+];
+
+const lower = (header: string) => header.trim().toLowerCase();
+
+export function detectContactsCsv(headers: string[]): ContactSource | null {
+  const set = new Set(headers.map(lower));
+  if (headers.some((header) => GOOGLE_VALUE.test(header.trim()))) return 'google';
+  const outlookOnly = [...OUTLOOK_EMAILS, 'mobile phone', 'business phone'];
+  if (set.has('first name') && set.has('last name') && outlookOnly.some((header) => set.has(header))) return 'outlook';
+  return null;
+}
+
+/** Flatten a Google or Outlook contacts export (detected with detectContactsCsv) into CONTACT_HEADERS */
+export function normalizeContactsCsv(
+  source: ContactSource,
+  headers: string[],
+  rows: string[][]
+): { headers: string[]; rows: string[][] } {
+  const index = new Map(headers.map((header, idx) => [lower(header), idx]));
+  const contacts = rows.map((row) => {
+    const get = (header: string) => row[index.get(header) ?? -1]?.trim() ?? '';
+    const contact = emptyContact();
+
+    if (source === 'google') {
+      contact.name =
+        get('name') ||
+        joinParts([
+          get('name prefix'),
+          get('given name') || get('first name'),
+          get('additional name') || get('middle name'),
+          get('family name') || get('last name'),
+          get('name suffix'),
+        ]);
+      contact.company = get('organization 1 - name') || get('organization name');
+      contact.title = get('organization 1 - title') || get('organization title');
+      contact.address = get('address 1 - formatted') || get('address 1 - street');
+      contact.birthday = get('birthday');
+      contact.note = get('notes');
+      headers.forEach((header) => {
+        const match = header.trim().match(GOOGLE_VALUE);
+        if (!match) return;
+        const kind = match[1].toLowerCase();
+        const typeText = (get(`${kind} ${match[2]} - type`) || get(`${kind} ${match[2]} - label`)).toLowerCase();
+        // Google marks the primary value "* Mobile" and packs extra values into one cell with " ::: "
+        const types = typeText.replace('*', '').split(/\s+/).filter(Boolean);
+        const pref = typeText.startsWith('*');
+        const list = kind === 'e-mail' ? contact.emails : kind === 'phone' ? contact.phones : contact.websites;
+        get(lower(header))
+          .split(':::')
+          .map((value) => value.trim())
+          .filter(Boolean)
+          .forEach((value, idx) => list.push({ value, types, pref: pref && idx === 0 }));
+      });
+    } else {
+      contact.name = joinParts([get('title'), get('first name'), get('middle name'), get('last name'), get('suffix')]);
+      contact.company = get('company');
+      contact.title = get('job title');
+      contact.address = joinParts(
+        ['street', 'city', 'state', 'postal code', 'country/region'].map((part) => get(`business ${part}`)),
+        ', '
+      );
+      contact.birthday = get('birthday') === '0/0/00' ? '' : get('birthday');
+      contact.note = get('notes');
+      contact.emails = OUTLOOK_EMAILS.map((header) => ({ value: get(header), types: [], pref: false }));
+      contact.phones = OUTLOOK_PHONES.map(([header, type]) => ({
+        value: get(header),
+        types: [type],
+        pref: type === 'pref',
+      }));
+      contact.websites = [{ value: get('web page'), types: [], pref: false }];
+    }
+    return contact;
+  });
+
+  return contactsToTable(contacts);
+}
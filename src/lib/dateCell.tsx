@@ -0,0 +1,68 @@
+/* eslint-disable react-refresh/only-export-components */
+import {
+  CustomCell,
+  CustomRenderer,
+  GridCell,
+  GridCellKind,
+  ProvideEditorComponent,
+  drawTextCell,
+} from '@glideapps/glide-data-grid';
+
+export type DateCellData = {
+  kind: 'date-cell';
+  /** YYYY-MM-DD, or '' when empty */
+  value: string;
+};
+
+export type DateCell = CustomCell<DateCellData>;
+
+export function isDateCell(cell: GridCell): cell is DateCell {
+  return (
+    cell.kind === GridCellKind.Custom && (cell.data as Partial<DateCellData> | undefined)?.kind === 'date-cell'
+  );
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** "2026-03-05", "3/5/2026" or "Mar 5 2026" → "2026-03-05"; null when it isn't a date */
+export function toIsoDate(raw: string): string | null {
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const date = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : new Date(raw);
+  if (Number.isNaN(date.getTime())) return null;
+  if (iso && date.getDate() !== Number(iso[3])) return null; // 2026-02-30 rolls over
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Date columns hold calendar days, so they are shown without any timezone shift */
+export function formatCalendarDate(value: string): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return value;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).toLocaleDateString();
+}
+
+const DateEditor: ProvideEditorComponent<DateCell> = ({ value, onFinishedEditing }) => (
+  <input
+    type="date"
+    autoFocus
+    defaultValue={value.data.value}
+    onChange={(e) =>
+      onFinishedEditing({ ...value, copyData: e.target.value, data: { ...value.data, value: e.target.value } })
+    }
+    className="w-full px-2 py-1.5 bg-gray-900 text-white text-sm border-0 focus:outline-none [color-scheme:dark]"
+  />
+);
+
+export const dateCellRenderer: CustomRenderer<DateCell> = {
+  kind: GridCellKind.Custom,
+  isMatch: (cell: CustomCell): cell is DateCell => isDateCell(cell),
+  draw: (args, cell) => {
+    drawTextCell(args, formatCalendarDate(cell.data.value), cell.contentAlign);
+    return true;
+  },
+  provideEditor: () => ({ editor: DateEditor, disablePadding: true }),
+  onPaste: (val, data) => {
+    if (!val.trim()) return { ...data, value: '' };
+    const date = toIsoDate(val.trim());
+    return date === null ? undefined : { ...data, value: date };
+  },
+};
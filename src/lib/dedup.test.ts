@@ -0,0 +1,287 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DEDUP_CONFIG,
+  DedupConfig,
+  DedupRecord,
+  findDuplicates,
+  foldEmail,
+  groupDuplicates,
+  MAX_FUZZY_BUCKET,
+  nameSimilarity,
+  normalizeCompanyName,
+  normalizeWebsite,
+  toE164,
+} from './dedup';
+
+/** Default config with only `rule` enabled, optionally at another weight */
+function only(rule: string, weight?: number): DedupConfig {
+  return {
+    ...DEFAULT_DEDUP_CONFIG,
+    rules: Object.fromEntries(
+      Object.entries(DEFAULT_DEDUP_CONFIG.rules).map(([key, settings]) => [
+        key,
+        key === rule ? { enabled: true, weight: weight ?? settings.weight } : { ...settings, enabled: false },
+      ])
+    ),
+  };
+}
+
+function bestMatch(record: DedupRecord, existing: DedupRecord, config: DedupConfig = DEFAULT_DEDUP_CONFIG) {
+  return findDuplicates([record], [existing], config).matches[0];
+}
+
+describe('foldEmail', () => {
+  it('lowercases, trims and drops +tags', () => {
+    expect(foldEmail('  Jane.Doe+News@Example.COM ')).toBe('jane.doe@example.com');
+  });
+
+  it('ignores dots in Gmail local parts and folds googlemail.com', () => {
+    expect(foldEmail('John.Smith+crm@gmail.com')).toBe('johnsmith@gmail.com');
+    expect(foldEmail('j.smith@googlemail.com')).toBe('jsmith@gmail.com');
+  });
+
+  it('leaves values without a local part alone', () => {
+    expect(foldEmail('not-an-email')).toBe('not-an-email');
+    expect(foldEmail('@example.com')).toBe('@example.com');
+    expect(foldEmail(null)).toBe('');
+  });
+});
+
+describe('toE164', () => {
+  it('adds the default country code to national numbers', () => {
+    expect(toE164('(555) 123-4567')).toBe('+15551234567');
+    expect(toE164('1-555-123-4567')).toBe('+15551234567');
+  });
+
+  it('keeps explicit country codes written with + or 00', () => {
+    expect(toE164('+44 20 7946 0958')).toBe('+442079460958');
+    expect(toE164('0044 20 7946 0958')).toBe('+442079460958');
+  });
+
+  it('drops the trunk 0 and uses the configured country code', () => {
+    expect(toE164('020 7946 0958', '44')).toBe('+442079460958');
+  });
+
+  it('ignores extensions', () => {
+    expect(toE164('555-123-4567 ext. 89')).toBe('+15551234567');
+    expect(toE164('555-123-4567 x12')).toBe('+15551234567');
+  });
+
+  it('returns nothing for numbers that are too short', () => {
+    expect(toE164('12345')).toBe('');
+    expect(toE164(undefined)).toBe('');
+  });
+});
+
+describe('normalizeWebsite', () => {
+  it('reduces a URL to its host', () => {
+    expect(normalizeWebsite('https://www.Example.com/about?x=1')).toBe('example.com');
+    expect(normalizeWebsite('example.com:8080/')).toBe('example.com');
+    expect(normalizeWebsite('http://example.com./#top')).toBe('example.com');
+  });
+
+  it('keeps the first path segment on shared hosts', () => {
+    expect(normalizeWebsite('https://instagram.com/acme/?hl=en')).toBe('instagram.com/acme');
+    expect(normalizeWebsite('www.facebook.com/acme.bakery/posts/1')).toBe('facebook.com/acme.bakery');
+    expect(normalizeWebsite('https://www.facebook.com/')).toBe('facebook.com');
+  });
+
+  it('returns nothing for empty values', () => {
+    expect(normalizeWebsite('   ')).toBe('');
+  });
+});
+
+describe('normalizeCompanyName', () => {
+  it('drops a leading "the", legal suffixes, punctuation and accents', () => {
+    expect(normalizeCompanyName('The Acme Co., Inc.')).toBe('acme');
+    expect(normalizeCompanyName('Café & Bar GmbH')).toBe('cafe and bar');
+  });
+
+  it('keeps a name that is only a suffix', () => {
+    expect(normalizeCompanyName('Company')).toBe('company');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores word order, case and legal suffixes', () => {
+    expect(nameSimilarity('Smith Plumbing', 'plumbing smith LLC')).toBe(1);
+    expect(nameSimilarity('Smith Plumbing', 'Smith Plumbing Co')).toBe(1);
+  });
+
+  it('scores partial overlap between 0 and 1', () => {
+    const score = nameSimilarity('Northwind Traders', 'Northwind Trader');
+    expect(score).toBeGreaterThan(0.9);
+    expect(score).toBeLessThan(1);
+  });
+
+  it('is 0 when nothing is shared or a name is missing', () => {
+    expect(nameSimilarity('Acme', 'Zebu')).toBe(0);
+    expect(nameSimilarity('Acme', '')).toBe(0);
+  });
+});
+
+describe('findDuplicates rule weights', () => {
+  it('scores an email match at 1 and marks it exact', () => {
+    const match = bestMatch({ name: 'A', email: 'Jane.Doe@gmail.com' }, { name: 'B', email: 'janedoe+x@gmail.com' });
+    expect(match).toMatchObject({ rule: 'email', confidence: 1, exact: true });
+  });
+
+  it('scores a phone match at 0.95 and marks it exact', () => {
+    const match = bestMatch({ name: 'A', phone: '(555) 123-4567' }, { name: 'B', phone: '+1 555 123 4567' });
+    expect(match).toMatchObject({ rule: 'phone', confidence: 0.95, exact: true });
+  });
+
+  it('scores a website match at 0.85 and marks it exact', () => {
+    const match = bestMatch({ name: 'A', website: 'https://www.acme.com/contact' }, { name: 'B', website: 'acme.com' });
+    expect(match).toMatchObject({ rule: 'website', confidence: 0.85, exact: true });
+  });
+
+  it('scores an identical name at 0.8 as a fuzzy match', () => {
+    const match = bestMatch(
+      { name: 'Main Street Dental', city: 'Boston' },
+      { name: 'Main Street Dental', city: 'Austin' }
+    );
+    expect(match).toMatchObject({ rule: 'name', confidence: 0.8, exact: false });
+  });
+
+  it('scores company + city at 0.9 times the company similarity', () => {
+    const match = bestMatch(
+      { name: 'Front desk', company: 'Acme Bakery', city: 'Austin' },
+      { name: 'Owner', company: 'Acme Bakery LLC', city: 'austin' }
+    );
+    expect(match).toMatchObject({ rule: 'company_city', confidence: 0.9, exact: false });
+  });
+
+  it('ignores company matches in another city', () => {
+    const match = bestMatch(
+      { name: 'Front desk', company: 'Acme Bakery', city: 'Austin' },
+      { name: 'Owner', company: 'Acme Bakery', city: 'Boston' }
+    );
+    expect(match).toBeUndefined();
+  });
+
+  it('prefers an exact match over a stronger fuzzy one', () => {
+    const match = bestMatch(
+      { name: 'Mail', company: 'Acme Bakery', city: 'Austin', website: 'acme.com' },
+      { name: 'Post', company: 'Acme Bakery', city: 'Austin', website: 'www.acme.com' }
+    );
+    expect(match).toMatchObject({ rule: 'website', confidence: 0.85, exact: true });
+  });
+
+  it('skips disabled rules', () => {
+    expect(bestMatch({ name: 'Acme Bakery' }, { name: 'Acme Bakery' }, only('email'))).toBeUndefined();
+  });
+
+  it('splits records into unique ones and matches', () => {
+    const { unique, matches } = findDuplicates(
+      [
+        { name: 'Known', email: 'known@example.com' },
+        { name: 'New', email: 'new@example.com' },
+      ],
+      [{ name: 'Existing', email: 'KNOWN@example.com' }]
+    );
+    expect(unique.map((record) => record.name)).toEqual(['New']);
+    expect(matches.map((match) => match.record.name)).toEqual(['Known']);
+  });
+});
+
+describe('findDuplicates threshold (0.75)', () => {
+  it('defaults to 0.75', () => {
+    expect(DEFAULT_DEDUP_CONFIG.threshold).toBe(0.75);
+  });
+
+  it('reports a match exactly at the threshold', () => {
+    expect(bestMatch({ name: 'Acme Bakery' }, { name: 'Acme Bakery' }, only('name', 0.75))).toMatchObject({
+      confidence: 0.75,
+    });
+  });
+
+  it('reports a match just above the threshold', () => {
+    expect(bestMatch({ name: 'Acme Bakery' }, { name: 'Acme Bakery' }, only('name', 0.76))).toBeDefined();
+  });
+
+  it('drops a match just below the threshold', () => {
+    expect(bestMatch({ name: 'Acme Bakery' }, { name: 'Acme Bakery' }, only('name', 0.74))).toBeUndefined();
+  });
+
+  it('reports similar names scoring just above it', () => {
+    // 0.9677 similarity x 0.8 = 0.774
+    const match = bestMatch({ name: 'Northwind Traders' }, { name: 'Northwind Trader' });
+    expect(match?.rule).toBe('name');
+    expect(match?.confidence).toBeGreaterThanOrEqual(0.75);
+    expect(match?.confidence).toBeLessThan(0.78);
+  });
+
+  it('drops similar names scoring just below it', () => {
+    // 0.9143 similarity x 0.8 = 0.731
+    expect(bestMatch({ name: 'Harbor View Dental' }, { name: 'Harbour View Dental' })).toBeUndefined();
+  });
+
+  it('reports company + city scoring just above it', () => {
+    // 0.8667 similarity x 0.9 = 0.78
+    const match = bestMatch(
+      { name: 'Reception', company: 'Main Street Dental', city: 'Boston' },
+      { name: 'Dr. Lee', company: 'Main St Dental', city: 'Boston' }
+    );
+    expect(match?.rule).toBe('company_city');
+    expect(match?.confidence).toBeGreaterThanOrEqual(0.75);
+    expect(match?.confidence).toBeLessThan(0.79);
+  });
+
+  it('drops company + city scoring just below it', () => {
+    // 0.8108 similarity x 0.9 = 0.730
+    const match = bestMatch(
+      { name: 'Reception', company: 'Main Street Dental', city: 'Boston' },
+      { name: 'Owner', company: 'Main Street Dentistry', city: 'Boston' }
+    );
+    expect(match).toBeUndefined();
+  });
+
+  it('follows a custom threshold', () => {
+    const config = { ...DEFAULT_DEDUP_CONFIG, threshold: 0.9 };
+    expect(bestMatch({ name: 'Acme Bakery' }, { name: 'Acme Bakery' }, config)).toBeUndefined();
+    expect(bestMatch({ name: 'A', phone: '555 123 4567' }, { name: 'B', phone: '5551234567' }, config)).toBeDefined();
+  });
+});
+
+describe('blocking', () => {
+  const crowd = (size: number, name: (i: number) => string) =>
+    Array.from({ length: size }, (_, i) => ({ name: name(i), city: `City ${i}` }));
+
+  it('does not compare leads that only share a stop-word', () => {
+    // 0.8 similarity would clear the threshold if the pair were compared
+    expect(bestMatch({ name: 'The Smith Group' }, { name: 'The Smyth Group' }, only('name', 1))).toBeUndefined();
+  });
+
+  it('skips words shared by more than MAX_FUZZY_BUCKET leads', () => {
+    const existing = crowd(MAX_FUZZY_BUCKET + 1, (i) => `Dental ${String.fromCharCode(97 + (i % 26))}${i}`);
+    existing.push({ name: 'Northwind Dental', city: 'Austin' });
+    expect(findDuplicates([{ name: 'Northwind Dentals' }], existing, only('name', 1)).matches).toHaveLength(1);
+    expect(findDuplicates([{ name: 'Dental b1x' }], existing, only('name', 1)).matches).toHaveLength(0);
+  });
+
+  it('still matches identical names however many leads share them', () => {
+    const existing = crowd(MAX_FUZZY_BUCKET * 2, () => 'Main Street Dental');
+    const match = bestMatch({ name: 'Dental Main Street' }, existing[0]);
+    expect(match?.confidence).toBe(0.8);
+    expect(findDuplicates([{ name: 'main street dental' }], existing).matches).toHaveLength(1);
+  });
+
+  it('groups a large cluster of identical names in one group', () => {
+    const records = crowd(MAX_FUZZY_BUCKET * 2, () => 'Main Street Dental');
+    const groups = groupDuplicates(records);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].records).toHaveLength(MAX_FUZZY_BUCKET * 2);
+  });
+
+  it('groups a large cluster of one company in one city', () => {
+    const records = Array.from({ length: MAX_FUZZY_BUCKET * 2 }, (_, i) => ({
+      name: `Contact ${i}`,
+      company: 'Acme Bakery',
+      city: 'Austin',
+    }));
+    const groups = groupDuplicates(records);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].labels).toContain('company + city');
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * Duplicate detection shared by imports and the Temp tab.
+ *
+ * Each rule turns a record into blocking keys (only records sharing a key are
+ * compared) and scores a pair from 0 to 1. A match's confidence is that score
+ * times the rule's weight, and the best match at or above the threshold wins.
+ * Exact rules (same email, phone or website) outrank fuzzy ones, since only
+ * they are safe to act on without someone reviewing the match.
+ *
+ * Fuzzy keys skip stop-words, and keys shared by more than MAX_FUZZY_BUCKET
+ * records are ignored: a word that common ("dental", "plumbing") says nothing
+ * about a match and would make the comparison quadratic. Records with the
+ * same normalized name share a `sameKey` and are matched however common it is.
+ */
+
+export type DedupRecord = {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  [key: string]: unknown;
+};
+
+export type DedupRuleSettings = {
+  enabled: boolean;
+  /** Highest confidence the rule can produce */
+  weight: number;
+};
+
+export type DedupConfig = {
+  /** Matches below this confidence are not reported */
+  threshold: number;
+  /** Calling code assumed for phone numbers written without one */
+  defaultCountryCode: string;
+  rules: Record<string, DedupRuleSettings>;
+};
+
+export type DedupRule = {
+  key: string;
+  label: string;
+  defaultWeight: number;
+  /** A hit means the same identifier, not just a similar one: every record sharing a key matches */
+  exact?: boolean;
+  keys: (record: DedupRecord, config: DedupConfig) => string[];
+  /** Fuzzy rules: a key only records scoring 1 share, so it is used however many records have it */
+  sameKey?: (record: DedupRecord, config: DedupConfig) => string;
+  score: (a: DedupRecord, b: DedupRecord, config: DedupConfig) => number;
+};
+
+export type DedupMatch<T, E> = {
+  record: T;
+  existing: E;
+  rule: string;
+  label: string;
+  confidence: number;
+  /** Matched by an exact rule; fuzzy matches should be confirmed before acting on them */
+  exact: boolean;
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value : value == null ? '' : String(value));
+
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+/** Lowercase, drop `+tag` suffixes, and ignore dots in Gmail local parts */
+export function foldEmail(value?: string | null): string {
+  const email = value?.trim().toLowerCase() ?? '';
+  const at = email.lastIndexOf('@');
+  if (at <= 0) return email;
+  let local = email.slice(0, at).split('+')[0];
+  let domain = email.slice(at + 1);
+  if (GMAIL_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return `${local}@${domain}`;
+}
+
+/** Best-effort E.164 (`+15551234567`); numbers without a country code get `defaultCountryCode` */
+export function toE164(value?: string | null, defaultCountryCode = '1'): string {
+  const raw = value?.trim() ?? '';
+  const main = raw.replace(/\s*(?:x|ext\.?|#)\s*\d+$/i, '');
+  let digits = main.replace(/\D/g, '');
+  if (digits.length < 7) return '';
+  if (main.startsWith('+')) return `+${digits}`;
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+  if (digits.length > 10 && digits.startsWith(defaultCountryCode)) return `+${digits}`;
+  if (digits.startsWith('0')) digits = digits.slice(1);
+  return `+${defaultCountryCode}${digits}`;
+}
+
+/** Hosts where the path identifies the business, so it is kept when comparing */
+const SHARED_HOSTS = new Set([
+  'facebook.com',
+  'instagram.com',
+  'linkedin.com',
+  'linktr.ee',
+  'twitter.com',
+  'x.com',
+  'tiktok.com',
+  'youtube.com',
+  'sites.google.com',
+]);
+
+/** Host without scheme, `www.` or port; the path only matters on shared hosts like instagram.com */
+export function normalizeWebsite(value?: string | null): string {
+  const raw = value?.trim().toLowerCase() ?? '';
+  if (!raw) return '';
+  const withoutScheme = raw.replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/^www\./, '');
+  const hostPart = withoutScheme.split(/[/?#]/)[0];
+  const host = hostPart.replace(/:\d+$/, '').replace(/\.$/, '');
+  if (!SHARED_HOSTS.has(host)) return host;
+  const firstSegment = withoutScheme
+    .slice(hostPart.length)
+    .split(/[?#]/)[0]
+    .split('/')
+    .filter(Boolean)[0];
+  return firstSegment ? `${host}/${firstSegment}` : host;
+}
+
+const LEGAL_SUFFIXES = new Set([
+  'inc',
+  'incorporated',
+  'llc',
+  'llp',
+  'ltd',
+  'limited',
+  'co',
+  'corp',
+  'corporation',
+  'company',
+  'gmbh',
+  'plc',
+  'pty',
+  'srl',
+  'bv',
+]);
+
+/** Lowercase words without accents, punctuation, a leading "the" or trailing legal suffixes */
+export function normalizeCompanyName(value?: string | null): string {
+  const tokens = (value ?? '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) tokens.pop();
+  if (tokens.length > 1 && tokens[0] === 'the') tokens.shift();
+  return tokens.join(' ');
+}
+
+function bigrams(value: string) {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i += 1) {
+    const gram = value.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Dice coefficient over character bigrams, 0 (nothing shared) to 1 (identical) */
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let overlap = 0;
+  left.forEach((count, gram) => {
+    overlap += Math.min(count, right.get(gram) ?? 0);
+  });
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+}
+
+/** Similarity of two names regardless of word order, case, punctuation or legal suffixes */
+export function nameSimilarity(a?: string | null, b?: string | null): number {
+  return similarity(sortedName(a), sortedName(b));
+}
+
+/** Words too common to block on; legal suffixes and a leading "the" are already gone */
+const STOP_WORDS = new Set([
+  'and',
+  'the',
+  'of',
+  'for',
+  'at',
+  'in',
+  'on',
+  'by',
+  'to',
+  'group',
+  'services',
+  'service',
+  'solutions',
+  'shop',
+  'store',
+  'center',
+  'centre',
+]);
+
+/** Fuzzy keys shared by more records than this are skipped */
+export const MAX_FUZZY_BUCKET = 50;
+
+/** Blocking keys for a normalized name: its distinctive words */
+const nameKeys = (normalized: string, prefix = '') =>
+  normalized
+    .split(' ')
+    .filter((token) => token.length >= 3 && !STOP_WORDS.has(token))
+    .map((token) => `${prefix}${token}`);
+
+const sortedName = (value?: string | null) => normalizeCompanyName(value).split(' ').sort().join(' ');
+
+const companyOf = (record: DedupRecord) => normalizeCompanyName(text(record.company ?? record.company_name));
+const cityOf = (record: DedupRecord) => normalizeCompanyName(text(record.city));
+
+export const DEDUP_RULES: DedupRule[] = [
+  {
+    key: 'email',
+    label: 'email',
+    defaultWeight: 1,
+    exact: true,
+    keys: (record) => {
+      const email = foldEmail(text(record.email));
+      return email.includes('@') ? [email] : [];
+    },
+    score: (a, b) => (foldEmail(text(a.email)) === foldEmail(text(b.email)) ? 1 : 0),
+  },
+  {
+    key: 'phone',
+    label: 'phone',
+    defaultWeight: 0.95,
+    exact: true,
+    keys: (record, config) => {
+      const phone = toE164(text(record.phone), config.defaultCountryCode);
+      return phone ? [phone] : [];
+    },
+    score: (a, b, config) =>
+      toE164(text(a.phone), config.defaultCountryCode) === toE164(text(b.phone), config.defaultCountryCode) ? 1 : 0,
+  },
+  {
+    key: 'website',
+    label: 'website',
+    defaultWeight: 0.85,
+    exact: true,
+    keys: (record) => {
+      const website = normalizeWebsite(text(record.website));
+      return website ? [website] : [];
+    },
+    score: (a, b) => (normalizeWebsite(text(a.website)) === normalizeWebsite(text(b.website)) ? 1 : 0),
+  },
+  {
+    key: 'name',
+    label: 'similar name',
+    defaultWeight: 0.8,
+    keys: (record) => {
+      const name = normalizeCompanyName(text(record.name));
+      if (name.length < 4) return [];
+      return nameKeys(name);
+    },
+    sameKey: (record) => {
+      const name = sortedName(text(record.name));
+      return name.length < 4 ? '' : name;
+    },
+    score: (a, b) => nameSimilarity(text(a.name), text(b.name)),
+  },
+  {
+    key: 'company_city',
+    label: 'company + city',
+    defaultWeight: 0.9,
+    keys: (record) => {
+      const company = companyOf(record);
+      const city = cityOf(record);
+      if (!company || !city) return [];
+      return nameKeys(company, `${city}|`);
+    },
+    sameKey: (record) => {
+      const company = companyOf(record);
+      const city = cityOf(record);
+      return company && city ? `${city}|${company}` : '';
+    },
+    score: (a, b) => (cityOf(a) === cityOf(b) ? similarity(companyOf(a), companyOf(b)) : 0),
+  },
+];
+
+export const DEFAULT_DEDUP_CONFIG: DedupConfig = {
+  threshold: 0.75,
+  defaultCountryCode: '1',
+  rules: Object.fromEntries(DEDUP_RULES.map((rule) => [rule.key, { enabled: true, weight: rule.defaultWeight }])),
+};
+
+export function loadDedupConfig(): DedupConfig {
+  if (typeof window === 'undefined') return DEFAULT_DEDUP_CONFIG;
+  const raw = localStorage.getItem('dedupConfig');
+  if (!raw) return DEFAULT_DEDUP_CONFIG;
+  try {
+    const parsed = JSON.parse(raw) as Partial<DedupConfig>;
+    return {
+      threshold: parsed.threshold ?? DEFAULT_DEDUP_CONFIG.threshold,
+      defaultCountryCode: parsed.defaultCountryCode ?? DEFAULT_DEDUP_CONFIG.defaultCountryCode,
+      rules: { ...DEFAULT_DEDUP_CONFIG.rules, ...parsed.rules },
+    };
+  } catch {
+    return DEFAULT_DEDUP_CONFIG;
+  }
+}
+
+export function saveDedupConfig(config: DedupConfig) {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem('dedupConfig', JSON.stringify(config));
+}
+
+/** Bucket `items` by blocking key; an item lands in each of its distinct keys once */
+function buildIndex<V>(items: V[], keysOf: (item: V) => string[]) {
+  const index = new Map<string, V[]>();
+  items.forEach((item) => {
+    new Set(keysOf(item)).forEach((key) => {
+      if (!key) return;
+      const bucket = index.get(key);
+      if (bucket) bucket.push(item);
+      else index.set(key, [item]);
+    });
+  });
+  return index;
+}
+
+const sameKeysOf = (rule: DedupRule, record: DedupRecord, config: DedupConfig) =>
+  rule.sameKey ? [rule.sameKey(record, config)] : [];
+
+/** Split `records` into those with no likely match in `existing` and their best match otherwise */
+export function findDuplicates<T extends DedupRecord, E extends DedupRecord>(
+  records: T[],
+  existing: E[],
+  config: DedupConfig = DEFAULT_DEDUP_CONFIG,
+  rules: DedupRule[] = DEDUP_RULES
+): { unique: T[]; matches: DedupMatch<T, E>[] } {
+  const active = rules
+    .map((rule) => ({ rule, settings: config.rules[rule.key] ?? { enabled: true, weight: rule.defaultWeight } }))
+    .filter(({ settings }) => settings.enabled && settings.weight > 0)
+    .sort((a, b) => Number(!!b.rule.exact) - Number(!!a.rule.exact) || b.settings.weight - a.settings.weight);
+
+  const indexes = active.map(({ rule }) => ({
+    keys: buildIndex(existing, (candidate) => rule.keys(candidate, config)),
+    same: buildIndex(existing, (candidate) => sameKeysOf(rule, candidate, config)),
+  }));
+
+  const unique: T[] = [];
+  const matches: DedupMatch<T, E>[] = [];
+
+  for (const record of records) {
+    let best: DedupMatch<T, E> | null = null;
+    for (let i = 0; i < active.length; i += 1) {
+      const { rule, settings } = active[i];
+      // Exact rules come first, then by weight, so a later rule can't beat what we already have
+      if (best && ((best.exact && !rule.exact) || best.confidence >= settings.weight)) break;
+      const candidates = new Set<E>();
+      // Everything under an exact or same key scores equally, so the first candidate is enough
+      sameKeysOf(rule, record, config).forEach((key) => {
+        const bucket = indexes[i].same.get(key);
+        if (bucket) candidates.add(bucket[0]);
+      });
+      for (const key of rule.keys(record, config)) {
+        const bucket = indexes[i].keys.get(key);
+        if (!bucket) continue;
+        if (rule.exact) candidates.add(bucket[0]);
+        else if (bucket.length <= MAX_FUZZY_BUCKET) bucket.forEach((candidate) => candidates.add(candidate));
+      }
+      for (const candidate of candidates) {
+        const confidence = rule.score(record, candidate, config) * settings.weight;
+        if (confidence >= config.threshold && (!best || confidence > best.confidence)) {
+          best = { record, existing: candidate, rule: rule.key, label: rule.label, confidence, exact: !!rule.exact };
+        }
+      }
+    }
+    if (best) matches.push(best);
+    else unique.push(record);
+  }
+
+  return { unique, matches };
+}
+
+export type DuplicateGroup<T> = {
+  records: T[];
+  /** Strongest link inside the group */
+  confidence: number;
+  /** Labels of the rules that linked the group */
+  labels: string[];
+};
+
+/** Cluster likely duplicates within one list; records linked through a shared match end up in the same group */
+export function groupDuplicates<T extends DedupRecord>(
+  records: T[],
+  config: DedupConfig = DEFAULT_DEDUP_CONFIG,
+  rules: DedupRule[] = DEDUP_RULES
+): DuplicateGroup<T>[] {
+  const parent = records.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const links: { a: number; b: number; label: string; confidence: number }[] = [];
+
+  rules.forEach((rule) => {
+    const settings = config.rules[rule.key] ?? { enabled: true, weight: rule.defaultWeight };
+    if (!settings.enabled || settings.weight < config.threshold) return;
+    const positions = records.map((_, position) => position);
+    const compared = new Set<string>();
+    const link = (a: number, b: number) => {
+      const pair = `${a}:${b}`;
+      if (compared.has(pair)) return;
+      compared.add(pair);
+      const confidence = rule.score(records[a], records[b], config) * settings.weight;
+      if (confidence < config.threshold) return;
+      links.push({ a, b, label: rule.label, confidence });
+      parent[find(a)] = find(b);
+    };
+    // Linking everyone to the first record is enough to put the whole bucket in one group
+    const linkToFirst = (bucket: number[]) => {
+      for (let j = 1; j < bucket.length; j += 1) link(bucket[0], bucket[j]);
+    };
+    buildIndex(positions, (position) => sameKeysOf(rule, records[position], config)).forEach(linkToFirst);
+    buildIndex(positions, (position) => rule.keys(records[position], config)).forEach((bucket) => {
+      if (rule.exact) return linkToFirst(bucket);
+      if (bucket.length > MAX_FUZZY_BUCKET) return;
+      for (let i = 0; i < bucket.length; i += 1) {
+        for (let j = i + 1; j < bucket.length; j += 1) link(bucket[i], bucket[j]);
+      }
+    });
+  });
+
+  const groups = new Map<number, DuplicateGroup<T> & { members: Set<number> }>();
+  links.forEach((link) => {
+    const root = find(link.a);
+    const group = groups.get(root) ?? { records: [], confidence: 0, labels: [], members: new Set<number>() };
+    group.members.add(link.a);
+    group.members.add(link.b);
+    group.confidence = Math.max(group.confidence, link.confidence);
+    if (!group.labels.includes(link.label)) group.labels.push(link.label);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      records: Array.from(group.members)
+        .sort((a, b) => a - b)
+        .map((position) => records[position]),
+      confidence: group.confidence,
+      labels: group.labels,
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,186 @@
+/* eslint-disable react-refresh/only-export-components */
+import { useState } from 'react';
+import {
+  CustomCell,
+  CustomRenderer,
+  GridCell,
+  GridCellKind,
+  ProvideEditorComponent,
+  drawTextCell,
+} from '@glideapps/glide-data-grid';
+import { isDateCell } from './dateCell';
+import { isTagsCell } from './tagsCell';
+import { optionColorHex } from './optionColors';
+
+export type SelectOption = {
+  key: string;
+  label: string;
+  /** Palette name from OPTION_COLORS; colored options are drawn as tags */
+  color?: string | null;
+};
+
+export type DropdownCellData = {
+  kind: 'dropdown-cell';
+  /** Option key, or comma-joined keys when `multiple` is set */
+  value: string;
+  options: SelectOption[];
+  multiple?: boolean;
+  /** Extra text drawn after an option's label, keyed by option key */
+  details?: Record<string, string>;
+};
+
+export type DropdownCell = CustomCell<DropdownCellData>;
+
+export function isDropdownCell(cell: GridCell): cell is DropdownCell {
+  return (
+    cell.kind === GridCellKind.Custom &&
+    (cell.data as Partial<DropdownCellData> | undefined)?.kind === 'dropdown-cell'
+  );
+}
+
+/** Resolve typed or pasted text to an option key, matching either the key or the label */
+export function matchOptionKey(options: SelectOption[], raw: string): string | null {
+  const needle = raw.trim().toLowerCase();
+  if (!needle) return '';
+  const match = options.find(
+    (option) => option.key.toLowerCase() === needle || option.label.toLowerCase() === needle
+  );
+  return match ? match.key : null;
+}
+
+export function splitMultiValue(value: string): string[] {
+  return value
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+function cellParts(data: DropdownCellData): { text: string; color: string | null }[] {
+  const keys = data.multiple ? splitMultiValue(data.value) : [data.value];
+  return keys.filter(Boolean).map((key) => {
+    const option = data.options.find((o) => o.key === key);
+    const label = option?.label || key;
+    const detail = data.details?.[key];
+    return { text: detail ? `${label} (${detail})` : label, color: optionColorHex(option?.color) };
+  });
+}
+
+const TAG_HEIGHT = 20;
+const TAG_PADDING = 8;
+const TAG_GAP = 4;
+const UNCOLORED_TAG = '#6b7280';
+
+const MultiSelectEditor: ProvideEditorComponent<DropdownCell> = ({ value, onFinishedEditing }) => {
+  const [selected, setSelected] = useState<string[]>(() => splitMultiValue(value.data.value));
+
+  const toggle = (key: string) => {
+    setSelected((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const commit = () => {
+    const next = selected.join(',');
+    onFinishedEditing({ ...value, copyData: next, data: { ...value.data, value: next } });
+  };
+
+  return (
+    <div className="bg-gray-900 text-white text-sm p-2 min-w-[180px] space-y-1">
+      {value.data.options.map((option) => (
+        <label key={option.key} className="flex items-center gap-2 px-1 py-0.5 cursor-pointer hover:bg-gray-800 rounded">
+          <input type="checkbox" checked={selected.includes(option.key)} onChange={() => toggle(option.key)} />
+          {optionColorHex(option.color) && (
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: optionColorHex(option.color) ?? undefined }} />
+          )}
+          <span className="flex-1">{option.label}</span>
+          {value.data.details?.[option.key] && (
+            <span className="text-xs text-gray-400">{value.data.details[option.key]}</span>
+          )}
+        </label>
+      ))}
+      <button
+        onClick={commit}
+        className="w-full mt-1 px-2 py-1 rounded bg-purple-700 text-white text-xs hover:bg-purple-600"
+      >
+        Done
+      </button>
+    </div>
+  );
+};
+
+const DropdownEditor: ProvideEditorComponent<DropdownCell> = ({ value, onFinishedEditing }) => {
+  const { value: current, options } = value.data;
+  return (
+    <select
+      autoFocus
+      value={current}
+      onChange={(e) =>
+        onFinishedEditing({
+          ...value,
+          copyData: e.target.value,
+          data: { ...value.data, value: e.target.value },
+        })
+      }
+      className="w-full px-2 py-1.5 bg-gray-900 text-white text-sm border-0 focus:outline-none"
+    >
+      <option value="">-</option>
+      {options.map((option) => (
+        <option key={option.key} value={option.key}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export const dropdownCellRenderer: CustomRenderer<DropdownCell> = {
+  kind: GridCellKind.Custom,
+  isMatch: (cell: CustomCell): cell is DropdownCell => isDropdownCell(cell),
+  draw: (args, cell) => {
+    const parts = cellParts(cell.data);
+    if (!parts.some((part) => part.color)) {
+      drawTextCell(args, parts.map((part) => part.text).join(', '), cell.contentAlign);
+      return true;
+    }
+    const { ctx, rect, theme } = args;
+    const right = rect.x + rect.width - theme.cellHorizontalPadding;
+    const y = rect.y + (rect.height - TAG_HEIGHT) / 2;
+    let x = rect.x + theme.cellHorizontalPadding;
+    ctx.font = theme.baseFontFull;
+    ctx.textBaseline = 'middle';
+    for (const part of parts) {
+      const width = ctx.measureText(part.text).width + TAG_PADDING * 2;
+      if (x + width > right && x > rect.x + theme.cellHorizontalPadding) break;
+      ctx.beginPath();
+      ctx.roundRect(x, y, Math.min(width, right - x), TAG_HEIGHT, TAG_HEIGHT / 2);
+      ctx.fillStyle = `${part.color ?? UNCOLORED_TAG}66`;
+      ctx.fill();
+      ctx.fillStyle = theme.textDark;
+      ctx.fillText(part.text, x + TAG_PADDING, y + TAG_HEIGHT / 2);
+      x += width + TAG_GAP;
+    }
+    return true;
+  },
+  provideEditor: (cell) => ({
+    editor: cell.data.multiple ? MultiSelectEditor : DropdownEditor,
+    disablePadding: true,
+  }),
+  onPaste: (val, data) => {
+    if (data.multiple) {
+      const keys = val
+        .split(',')
+        .map((token) => matchOptionKey(data.options, token))
+        .filter((key): key is string => Boolean(key));
+      return { ...data, value: Array.from(new Set(keys)).join(',') };
+    }
+    const key = matchOptionKey(data.options, val);
+    return key === null ? undefined : { ...data, value: key };
+  },
+};
+
+/** Raw string written back for an edited cell, or null for cell kinds the lead grids ignore */
+export function getEditedCellValue(cell: GridCell): string | null {
+  if (cell.kind === GridCellKind.Text || cell.kind === GridCellKind.Uri) return cell.data ?? '';
+  if (cell.kind === GridCellKind.Number) return cell.data === undefined ? '' : String(cell.data);
+  if (cell.kind === GridCellKind.Boolean) return typeof cell.data === 'boolean' ? String(cell.data) : '';
+  if (isDropdownCell(cell) || isDateCell(cell) || isTagsCell(cell)) return cell.data.value;
+  return null;
+}
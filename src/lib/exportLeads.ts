@@ -0,0 +1,218 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { supabase, Lead, LeadField } from './supabase';
+import { loadDedupConfig, toE164 } from './dedup';
+import { splitFullName } from './importTransforms';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'vcf';
+
+export const EXPORT_FORMATS: { key: ExportFormat; label: string; hint: string }[] = [
+  { key: 'csv', label: 'CSV', hint: 'Plain spreadsheet text, opens anywhere' },
+  { key: 'xlsx', label: 'Excel (.xlsx)', hint: 'One sheet, column widths kept readable' },
+  { key: 'vcf', label: 'vCard 3.0 (.vcf)', hint: 'Contacts for phones and address books' },
+];
+
+type Option = { key: string; label: string };
+
+/** lead id → field key → the cell's comments, oldest first, one per line */
+export type CellNotes = Record<string, Record<string, string>>;
+
+/** Supabase caps URL length, so `in` filters are sent in chunks */
+const NOTE_CHUNK = 200;
+
+export async function loadCellNotes(leadIds: string[]): Promise<CellNotes> {
+  const notes: CellNotes = {};
+  for (let i = 0; i < leadIds.length; i += NOTE_CHUNK) {
+    const { data, error } = await supabase
+      .from('lead_threads')
+      .select('lead_id, field_key, comments:lead_comments(body, created_at)')
+      .in('lead_id', leadIds.slice(i, i + NOTE_CHUNK))
+      .not('field_key', 'is', null);
+    if (error) throw error;
+    (data || []).forEach(
+      (row: { lead_id: string; field_key: string; comments: { body: string; created_at: string }[] }) => {
+        const bodies = [...row.comments]
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map((comment) => comment.body);
+        if (bodies.length > 0) (notes[row.lead_id] ??= {})[row.field_key] = bodies.join('\n');
+      }
+    );
+  }
+  return notes;
+}
+
+/** A cell as the grid shows it: select keys become their labels, everything else is the stored text */
+export function cellText(lead: Lead, field: LeadField, selectOptions: Record<string, Option[]>): string {
+  const value = ((lead as Record<string, string | null>)[field.field_key] ?? '').toString();
+  const options = selectOptions[field.field_key];
+  if (!options || !value) return value;
+  return value
+    .split(',')
+    .map((key) => options.find((option) => option.key === key.trim())?.label ?? key.trim())
+    .join(', ');
+}
+
+/** Header row plus one row per lead; each column with at least one comment is followed by a "<label> comments" column */
+function buildTable(
+  rows: Lead[],
+  fields: LeadField[],
+  selectOptions: Record<string, Option[]>,
+  notes: CellNotes | null
+): string[][] {
+  const noted = new Set(
+    notes ? fields.filter((field) => rows.some((lead) => notes[lead.id]?.[field.field_key])).map((f) => f.field_key) : []
+  );
+  const header = fields.flatMap((field) => (noted.has(field.field_key) ? [field.label, `${field.label} comments`] : [field.label]));
+  const body = rows.map((lead) =>
+    fields.flatMap((field) => {
+      const text = cellText(lead, field, selectOptions);
+      return noted.has(field.field_key) ? [text, notes?.[lead.id]?.[field.field_key] ?? ''] : [text];
+    })
+  );
+  return [header, ...body];
+}
+
+/** Fields with a dedicated vCard property; the rest of the visible columns go into NOTE */
+const VCARD_FIELDS = new Set(['name', 'email', 'phone', 'website', 'company', 'company_name', 'title', 'job_title']);
+
+const escapeVCard = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+const encoder = new TextEncoder();
+
+/** Fold a content line at 75 octets (RFC 2425), without splitting a UTF-8 character */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function buildVCard(
+  lead: Lead,
+  fields: LeadField[],
+  selectOptions: Record<string, Option[]>,
+  notes: CellNotes | null,
+  countryCode: string
+): string {
+  const record = lead as Record<string, string | null>;
+  const visible = new Set(fields.map((field) => field.field_key));
+  const get = (...keys: string[]) => {
+    const key = keys.find((k) => visible.has(k) && record[k]?.trim());
+    return key ? record[key]!.trim() : '';
+  };
+
+  // FN and N are mandatory in 3.0, so the name is always written
+  const name = record.name?.trim() || get('email') || 'Unknown';
+  const [first, last] = splitFullName(name);
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0', `FN:${escapeVCard(name)}`, `N:${escapeVCard(last)};${escapeVCard(first)};;;`];
+
+  const org = get('company', 'company_name');
+  if (org) lines.push(`ORG:${escapeVCard(org)}`);
+  const title = get('title', 'job_title');
+  if (title) lines.push(`TITLE:${escapeVCard(title)}`);
+  const email = get('email');
+  if (email) lines.push(`EMAIL;TYPE=INTERNET:${escapeVCard(email)}`);
+  const phone = get('phone');
+  // E.164 so phones can text the number without guessing the country
+  if (phone) lines.push(`TEL;TYPE=CELL:${escapeVCard(toE164(phone, countryCode) || phone)}`);
+  const website = get('website');
+  if (website) lines.push(`URL:${escapeVCard(/^https?:\/\//i.test(website) ? website : `https://${website}`)}`);
+
+  const noteLines: string[] = [];
+  fields.forEach((field) => {
+    if (VCARD_FIELDS.has(field.field_key)) return;
+    const text = cellText(lead, field, selectOptions);
+    if (text) noteLines.push(`${field.label}: ${text}`);
+  });
+  fields.forEach((field) => {
+    const note = notes?.[lead.id]?.[field.field_key];
+    if (note) noteLines.push(`${field.label} comments: ${note}`);
+  });
+  if (noteLines.length > 0) lines.push(`NOTE:${escapeVCard(noteLines.join('\n'))}`);
+
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join('\r\n');
+}
+
+function download(content: BlobPart, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Quote values a spreadsheet would otherwise run as a formula, the same way Papa's `escapeFormulae` does */
+const escapeFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+/**
+ * Download `rows` (already filtered and sorted by the grid) with `fields` (the visible
+ * columns, in grid order). With `includeNotes`, cell comments are fetched and exported too.
+ */
+export async function exportLeads(
+  rows: Lead[],
+  fields: LeadField[],
+  format: ExportFormat,
+  options: { selectOptions: Record<string, Option[]>; includeNotes: boolean; baseName: string }
+): Promise<void> {
+  const notes = options.includeNotes ? await loadCellNotes(rows.map((lead) => lead.id)) : null;
+  const fileName = `${options.baseName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'vcf') {
+    const countryCode = loadDedupConfig().defaultCountryCode;
+    const cards = rows.map((lead) => buildVCard(lead, fields, options.selectOptions, notes, countryCode));
+    download(cards.join('\r\n') + '\r\n', 'text/vcard;charset=utf-8', fileName);
+    return;
+  }
+
+  const table = buildTable(rows, fields, options.selectOptions, notes);
+  if (format === 'csv') {
+    // BOM so Excel opens UTF-8 names correctly
+    download('\uFEFF' + Papa.unparse(table, { escapeFormulae: true }), 'text/csv;charset=utf-8', fileName);
+    return;
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(table.map((row) => row.map((value) => escapeFormula(value ?? ''))));
+  sheet['!cols'] = table[0].map((_, col) => ({
+    wch: Math.min(60, Math.max(10, ...table.slice(0, 200).map((row) => (row[col] ?? '').length))),
+  }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Leads');
+  XLSX.writeFile(workbook, fileName);
+}
+
+/** One lead's rendered message, as a row of a mail-merge file */
+export type MailMergeRow = { lead: Lead; subject: string | null; body: string };
+
+/** Download a CSV mail-merge file: the lead's name, email and phone, then the subject (when there is one) and message */
+export function exportMailMerge(rows: MailMergeRow[], baseName: string): void {
+  const withSubject = rows.some((row) => row.subject !== null);
+  const table = [
+    ['Name', 'Email', 'Phone', ...(withSubject ? ['Subject'] : []), 'Message'],
+    ...rows.map(({ lead, subject, body }) => [
+      lead.name ?? '',
+      lead.email ?? '',
+      lead.phone ?? '',
+      ...(withSubject ? [subject ?? ''] : []),
+      body,
+    ]),
+  ];
+  const fileName = `${baseName}-${new Date().toISOString().slice(0, 10)}.csv`;
+  download('\uFEFF' + Papa.unparse(table, { escapeFormulae: true }), 'text/csv;charset=utf-8', fileName);
+}
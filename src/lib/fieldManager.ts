@@ -0,0 +1,197 @@
+import { supabase, FieldRules, LeadField } from './supabase';
+import { SelectOption, splitMultiValue } from './dropdownCell';
+import { columnTypeFor, hasOptions, validateFieldValue } from './fieldTypes';
+
+const PAGE_SIZE = 1000;
+
+export type FieldSnapshot = {
+  id: string;
+  action: 'delete' | 'retype';
+  field_key: string;
+  field: LeadField;
+  column_type: string;
+  created_at: string;
+  restored_at: string | null;
+};
+
+type FieldValues = Record<string, string>;
+
+/** Every non-empty value of `fieldKey` in `table`, as text, keyed by lead id */
+export async function loadFieldValues(table: 'leads' | 'temp_leads', fieldKey: string): Promise<FieldValues> {
+  const values: FieldValues = {};
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(`id,${fieldKey}`)
+      .not(fieldKey, 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    ((data || []) as unknown as Record<string, unknown>[]).forEach((row) => {
+      values[row.id as string] = String(row[fieldKey]);
+    });
+    if (!data || data.length < PAGE_SIZE) return values;
+  }
+}
+
+const toKey = (value: string) => value.toLowerCase().trim().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
+
+export type RetypePreview = {
+  newType: string;
+  total: number;
+  unchanged: number;
+  converted: number;
+  cleared: number;
+  /** A few before → after pairs, cleared values first */
+  samples: { before: string; after: string | null }[];
+  /** Options to create when converting to a select field */
+  newOptions: SelectOption[];
+  leadValues: Record<string, string | null>;
+  tempValues: Record<string, string | null>;
+};
+
+/**
+ * Work out what every value of `field` becomes as `newType`: values the new type
+ * accepts are normalized ("yes" → "true"), the rest are cleared. Select fields show
+ * their option labels, and converting a non-select field to a select creates one option
+ * per distinct value.
+ */
+export async function previewRetype(
+  field: LeadField,
+  newType: string,
+  options: SelectOption[] = []
+): Promise<RetypePreview> {
+  const [leadRaw, tempRaw] = await Promise.all([
+    loadFieldValues('leads', field.field_key),
+    loadFieldValues('temp_leads', field.field_key),
+  ]);
+
+  const labelFor = (key: string) => options.find((option) => option.key === key)?.label ?? key;
+  const readable = (value: string) =>
+    hasOptions(field.type) ? splitMultiValue(value).map(labelFor).join(', ') : value;
+
+  // Switching between single and multi-select keeps the existing options
+  const keepOptions = hasOptions(field.type) && hasOptions(newType);
+  const newOptions: SelectOption[] = [];
+  if (hasOptions(newType) && !keepOptions) {
+    const labels = new Set<string>();
+    [...Object.values(leadRaw), ...Object.values(tempRaw)].forEach((value) => {
+      const text = readable(value);
+      (newType === 'multi_select' ? splitMultiValue(text) : [text.trim()]).forEach((label) => {
+        if (label && toKey(label)) labels.add(label);
+      });
+    });
+    labels.forEach((label) => {
+      const key = toKey(label);
+      if (!newOptions.some((option) => option.key === key)) newOptions.push({ key, label });
+    });
+  }
+
+  const target: LeadField = { ...field, type: newType };
+  const preview: RetypePreview = {
+    newType,
+    total: 0,
+    unchanged: 0,
+    converted: 0,
+    cleared: 0,
+    samples: [],
+    newOptions,
+    leadValues: {},
+    tempValues: {},
+  };
+  const clearedSamples: RetypePreview['samples'] = [];
+  const convertedSamples: RetypePreview['samples'] = [];
+
+  const convert = (raw: FieldValues, out: Record<string, string | null>) => {
+    Object.entries(raw).forEach(([id, value]) => {
+      const before = readable(value);
+      const checked = validateFieldValue(target, before, keepOptions ? options : newOptions);
+      const after = checked.ok ? checked.value : null;
+      out[id] = after;
+      preview.total += 1;
+      if (after === null) {
+        preview.cleared += 1;
+        clearedSamples.push({ before, after });
+      } else if (after === value) {
+        preview.unchanged += 1;
+      } else {
+        preview.converted += 1;
+        convertedSamples.push({ before, after });
+      }
+    });
+  };
+  convert(leadRaw, preview.leadValues);
+  convert(tempRaw, preview.tempValues);
+
+  preview.samples = [...clearedSamples.slice(0, 5), ...convertedSamples.slice(0, 5)];
+  return preview;
+}
+
+/** Apply a previewed type change; the old column, options and values are kept as a snapshot */
+export async function retypeField(field: LeadField, preview: RetypePreview): Promise<string> {
+  const { data, error } = await supabase.rpc('retype_lead_field', {
+    target_key: field.field_key,
+    new_type: preview.newType,
+    column_type: columnTypeFor(preview.newType),
+    lead_values: preview.leadValues,
+    temp_values: preview.tempValues,
+  });
+  if (error) throw error;
+
+  if (preview.newOptions.length > 0) {
+    const { error: optionsError } = await supabase.from('lead_field_options').upsert(
+      preview.newOptions.map((option, index) => ({
+        field_key: field.field_key,
+        key: option.key,
+        label: option.label,
+        position: index + 1,
+      })),
+      { onConflict: 'field_key,key', ignoreDuplicates: true }
+    );
+    if (optionsError) throw optionsError;
+  }
+  return data as string;
+}
+
+/** Drop the field's column on leads and temp_leads; restorable from its snapshot */
+export async function deleteField(fieldKey: string): Promise<string> {
+  const { data, error } = await supabase.rpc('delete_lead_field', { target_key: fieldKey });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function restoreFieldSnapshot(snapshotId: string): Promise<void> {
+  const { error } = await supabase.rpc('restore_lead_field', { snapshot: snapshotId });
+  if (error) throw error;
+}
+
+export async function loadFieldSnapshots(): Promise<FieldSnapshot[]> {
+  const { data, error } = await supabase
+    .from('lead_field_snapshots')
+    .select('id,action,field_key,field,column_type,created_at,restored_at')
+    .order('created_at', { ascending: false })
+    .limit(50);
+  if (error) throw error;
+  return data || [];
+}
+
+/** Save `fieldKeys` as the default column order for every tab */
+export async function saveFieldOrder(fieldKeys: string[]): Promise<void> {
+  const results = await Promise.all(
+    fieldKeys.map((fieldKey, index) =>
+      supabase.from('lead_fields').update({ position: index + 1 }).eq('field_key', fieldKey)
+    )
+  );
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+}
+
+export async function renameField(fieldKey: string, label: string): Promise<void> {
+  const { error } = await supabase.from('lead_fields').update({ label }).eq('field_key', fieldKey);
+  if (error) throw error;
+}
+
+export async function saveFieldRules(fieldKey: string, required: boolean, rules: FieldRules): Promise<void> {
+  const { error } = await supabase.from('lead_fields').update({ required, rules }).eq('field_key', fieldKey);
+  if (error) throw error;
+}
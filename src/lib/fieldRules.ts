@@ -0,0 +1,137 @@
+import { LeadField } from './supabase';
+import { loadFieldValues } from './fieldManager';
+import { validateFieldValue } from './fieldTypes';
+import { AUTO_FIELDS } from './leadFieldConfig';
+
+/** Per unique field: normalized value → ids of the Master leads holding it */
+export type TakenValues = Map<string, Map<string, Set<string>>>;
+
+const NUMERIC_TYPES = new Set(['number', 'currency']);
+const LENGTH_TYPES = new Set(['text', 'phone', 'url', 'email']);
+
+const normalizeValue = (value: string) => value.trim().toLowerCase();
+
+export const hasFieldRules = (field: LeadField) =>
+  Boolean(field.required) || Object.keys(field.rules ?? {}).length > 0;
+
+const isEmailField = (field: LeadField) => field.type === 'email' || field.field_key === 'email';
+const isUrlField = (field: LeadField) => field.type === 'url' || field.field_key === 'website';
+
+/** "jane@mail.acme.com" → "mail.acme.com", "https://www.acme.com/about" → "acme.com" */
+function valueDomain(field: LeadField, value: string): string | null {
+  if (isEmailField(field)) return value.split('@')[1]?.trim().toLowerCase() || null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+    return url.hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why `value` (already normalized by `validateFieldValue`) breaks `field`'s rules, or null
+ * when it passes. `unique` is only checked when `taken` is given; `id` is the lead being
+ * changed, so its own value doesn't count as a clash.
+ */
+export function checkFieldRules(
+  field: LeadField,
+  value: string | null,
+  id?: string | null,
+  taken?: TakenValues
+): string | null {
+  const rules = field.rules ?? {};
+  const text = value?.trim() ?? '';
+  if (!text) return field.required ? `${field.label} is required` : null;
+  const reject = (reason: string) => `${field.label}: "${text}" ${reason}`;
+
+  if (rules.pattern) {
+    let pattern: RegExp | null = null;
+    try {
+      pattern = new RegExp(rules.pattern);
+    } catch {
+      // An invalid pattern can't be enforced; the Field Manager warns when saving one
+    }
+    if (pattern && !pattern.test(text)) return reject(rules.pattern_hint || `doesn't match ${rules.pattern}`);
+  }
+
+  if (NUMERIC_TYPES.has(field.type)) {
+    const amount = Number(text);
+    if (rules.min != null && amount < rules.min) return reject(`is below the minimum of ${rules.min}`);
+    if (rules.max != null && amount > rules.max) return reject(`is above the maximum of ${rules.max}`);
+  } else if (LENGTH_TYPES.has(field.type)) {
+    if (rules.min != null && text.length < rules.min) return reject(`is shorter than ${rules.min} characters`);
+    if (rules.max != null && text.length > rules.max) return reject(`is longer than ${rules.max} characters`);
+  }
+
+  const domains = (rules.domains ?? []).map((domain) => domain.trim().toLowerCase()).filter(Boolean);
+  if (domains.length > 0 && (isEmailField(field) || isUrlField(field))) {
+    const domain = valueDomain(field, text);
+    if (!domain || !domains.some((allowed) => domain === allowed || domain.endsWith(`.${allowed}`))) {
+      return reject(`is not on an allowed domain (${domains.join(', ')})`);
+    }
+  }
+
+  if (rules.unique && taken) {
+    const owners = taken.get(field.field_key)?.get(normalizeValue(text));
+    if (owners && [...owners].some((owner) => owner !== id)) return reject('is already used by another lead in Master');
+  }
+
+  return null;
+}
+
+/** Values of every unique field currently in Master */
+export async function loadTakenValues(fields: LeadField[]): Promise<TakenValues> {
+  const taken: TakenValues = new Map();
+  const unique = fields.filter((field) => field.rules?.unique);
+  const loaded = await Promise.all(unique.map((field) => loadFieldValues('leads', field.field_key)));
+  unique.forEach((field, index) => {
+    const byValue = new Map<string, Set<string>>();
+    Object.entries(loaded[index]).forEach(([id, value]) => {
+      const key = normalizeValue(value);
+      if (!byValue.has(key)) byValue.set(key, new Set());
+      byValue.get(key)?.add(id);
+    });
+    taken.set(field.field_key, byValue);
+  });
+  return taken;
+}
+
+/**
+ * Record that `id` (or a new row) now holds `value`, so later rows of the same paste,
+ * edit or import can't take it too.
+ */
+export function claimValue(taken: TakenValues, field: LeadField, value: string | null, id: string) {
+  const byValue = taken.get(field.field_key);
+  const text = value?.trim();
+  if (!byValue || !text) return;
+  const key = normalizeValue(text);
+  if (!byValue.has(key)) byValue.set(key, new Set());
+  byValue.get(key)?.add(id);
+}
+
+/**
+ * Problems with each imported row: values of the wrong type and broken rules, including
+ * required fields the file doesn't fill. Rows are also checked against each other for
+ * unique fields.
+ */
+export async function checkImportLeads(
+  leads: Record<string, string | undefined>[],
+  fields: LeadField[]
+): Promise<string[][]> {
+  const checked = fields.filter((field) => !AUTO_FIELDS.has(field.field_key));
+  const taken = await loadTakenValues(checked.filter(hasFieldRules));
+  return leads.map((lead, index) => {
+    const problems: string[] = [];
+    checked.forEach((field) => {
+      const typed = validateFieldValue(field, lead[field.field_key] ?? '');
+      if (!typed.ok) {
+        problems.push(typed.message);
+        return;
+      }
+      const ruleError = hasFieldRules(field) ? checkFieldRules(field, typed.value, null, taken) : null;
+      if (ruleError) problems.push(ruleError);
+      else claimValue(taken, field, typed.value, `import-${index}`);
+    });
+    return problems;
+  });
+}
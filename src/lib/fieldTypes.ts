@@ -0,0 +1,127 @@
+import { LeadField } from './supabase';
+import { SelectOption, matchOptionKey, splitMultiValue } from './dropdownCell';
+import { toIsoDate } from './dateCell';
+import { splitTags } from './tagsCell';
+
+export type FieldType =
+  | 'text'
+  | 'phone'
+  | 'url'
+  | 'email'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'checkbox'
+  | 'select'
+  | 'multi_select'
+  | 'tags';
+
+/** Field types offered when adding a field, with the column type `add_lead_column` creates */
+export const FIELD_TYPES: { key: FieldType; label: string; column: string }[] = [
+  { key: 'text', label: 'Text', column: 'text' },
+  { key: 'phone', label: 'Phone', column: 'text' },
+  { key: 'url', label: 'URL', column: 'text' },
+  { key: 'email', label: 'Email', column: 'text' },
+  { key: 'number', label: 'Number', column: 'numeric' },
+  { key: 'currency', label: 'Currency', column: 'numeric(14,2)' },
+  { key: 'date', label: 'Date', column: 'date' },
+  { key: 'checkbox', label: 'Checkbox', column: 'boolean' },
+  { key: 'select', label: 'Single select', column: 'text' },
+  { key: 'multi_select', label: 'Multi-select', column: 'text' },
+  { key: 'tags', label: 'Tags', column: 'text' },
+];
+
+export const columnTypeFor = (type: string) => FIELD_TYPES.find((t) => t.key === type)?.column ?? 'text';
+
+export const hasOptions = (type: string) => type === 'select' || type === 'multi_select';
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'x', '✓', 'checked', 'on']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0', 'unchecked', 'off']);
+
+/** "1,250.5" or (currency) "$1,250.50"; "(300)" is accounting notation for -300 */
+function parseAmount(raw: string, currency: boolean): number | null {
+  let text = raw.replace(/[\s,]/g, '');
+  if (currency) text = text.replace(/[$€£¥]/g, '');
+  const negative = /^\(.*\)$/.test(text);
+  if (negative) text = text.slice(1, -1);
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null;
+  const value = Number(text);
+  if (!Number.isFinite(value)) return null;
+  return negative ? -value : value;
+}
+
+export type FieldValidation = { ok: true; value: string | null } | { ok: false; message: string };
+
+/**
+ * Check an edited or pasted value against its field's type and return the text to store
+ * (normalized, e.g. "Yes" → "true" or "3/5/2026" → "2026-03-05"). Empty input clears the cell.
+ * Select fields are only checked when their option list is known.
+ */
+export function validateFieldValue(field: LeadField, raw: string, options?: SelectOption[]): FieldValidation {
+  const value = raw.trim();
+  if (!value) return { ok: true, value: null };
+  const reject = (reason: string): FieldValidation => ({
+    ok: false,
+    message: `${field.label}: "${value}" ${reason}`,
+  });
+
+  switch (field.type) {
+    case 'number':
+    case 'currency': {
+      const amount = parseAmount(value, field.type === 'currency');
+      if (amount === null) return reject(field.type === 'currency' ? 'is not an amount' : 'is not a number');
+      return { ok: true, value: field.type === 'currency' ? amount.toFixed(2) : String(amount) };
+    }
+    case 'date': {
+      const date = toIsoDate(value);
+      return date ? { ok: true, value: date } : reject('is not a date');
+    }
+    case 'checkbox': {
+      const lower = value.toLowerCase();
+      if (TRUE_VALUES.has(lower)) return { ok: true, value: 'true' };
+      if (FALSE_VALUES.has(lower)) return { ok: true, value: 'false' };
+      return reject('is not yes or no');
+    }
+    case 'select':
+    case 'multi_select': {
+      if (!options || options.length === 0) return { ok: true, value };
+      const tokens = field.type === 'multi_select' ? splitMultiValue(value) : [value];
+      const keys: string[] = [];
+      for (const token of tokens) {
+        const key = matchOptionKey(options, token);
+        if (!key) return reject(`is not one of the ${field.label} options`);
+        if (!keys.includes(key)) keys.push(key);
+      }
+      return { ok: true, value: keys.join(',') };
+    }
+    case 'tags':
+      return { ok: true, value: splitTags(value).join(',') };
+    default:
+      return { ok: true, value };
+  }
+}
+
+/** One message listing every value an edit or paste skipped */
+export function describeRejected(messages: string[]): string {
+  const shown = messages.slice(0, 5).map((message) => `• ${message}`);
+  if (messages.length > shown.length) shown.push(`…and ${messages.length - shown.length} more`);
+  return `${messages.length === 1 ? 'This value was' : 'These values were'} not saved:\n${shown.join('\n')}`;
+}
+
+/**
+ * Number, currency and checkbox columns come back from the API as numbers and booleans;
+ * the grids, filters and undo history all work on text, so convert those fields on load.
+ */
+export function normalizeTypedValues<T extends object>(rows: T[], fields: LeadField[]): T[] {
+  const typed = fields.filter((field) => ['number', 'currency', 'checkbox'].includes(field.type));
+  if (typed.length === 0) return rows;
+  return rows.map((row) => {
+    const next = { ...row } as Record<string, unknown>;
+    typed.forEach((field) => {
+      const value = next[field.field_key];
+      if (typeof value === 'number' && field.type === 'currency') next[field.field_key] = value.toFixed(2);
+      else if (typeof value === 'number' || typeof value === 'boolean') next[field.field_key] = String(value);
+    });
+    return next as T;
+  });
+}
@@ -9,6 +9,9 @@ export type GridPrefs = {
 };
 
 export type SavedView = {
+  id?: string;
+  ownerId?: string;
+  shared?: boolean;
   name: string;
   searchQuery: string;
   order: string[];
@@ -57,7 +60,8 @@ export function saveGridPrefs(key: string, prefs: GridPrefs) {
   localStorage.setItem(`gridPrefs:${key}`, JSON.stringify(prefs));
 }
 
-export function loadViews(key: string): SavedView[] {
+/** Views saved before they moved server-side; only read to migrate them once */
+export function loadLocalViews(key: string): SavedView[] {
   if (typeof window === 'undefined') return [];
   const raw = localStorage.getItem(`gridViews:${key}`);
   if (!raw) return [];
@@ -69,9 +73,9 @@ export function loadViews(key: string): SavedView[] {
   }
 }
 
-export function saveViews(key: string, views: SavedView[]) {
+export function clearLocalViews(key: string) {
   if (typeof window === 'undefined') return;
-  localStorage.setItem(`gridViews:${key}`, JSON.stringify(views));
+  localStorage.removeItem(`gridViews:${key}`);
 }
 
 export function moveInArray<T>(arr: T[], from: number, to: number): T[] {
@@ -0,0 +1,115 @@
+import { EMPTY_IMPORT_OPTIONS, ImportOptions } from './importTransforms';
+
+export type ImportTemplate = {
+  id: string;
+  name: string;
+  ownerId: string;
+  shared: boolean;
+  /** Normalized headers of the file the template was saved from */
+  headers: string[];
+  /** Normalized header → lead field key */
+  mapping: Record<string, string>;
+  /** Transforms, joins and defaults, with columns keyed by normalized header */
+  options: ImportOptions;
+};
+
+/** Files whose headers overlap a template this much (but not exactly) still pick it up */
+const MIN_HEADER_OVERLAP = 0.8;
+
+export const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export function headerSignature(headers: string[]): string {
+  return Array.from(new Set(headers.map(normalizeHeader).filter(Boolean)))
+    .sort()
+    .join('|');
+}
+
+/**
+ * Best template for a file: an exact header-signature match, otherwise the template
+ * whose headers overlap the file's the most (Jaccard, at least MIN_HEADER_OVERLAP).
+ * Ties go to the current user's own templates.
+ */
+export function matchTemplate(
+  templates: ImportTemplate[],
+  fileHeaders: string[],
+  ownerId: string
+): ImportTemplate | null {
+  const signature = headerSignature(fileHeaders);
+  const fileSet = new Set(signature.split('|'));
+  let best: { template: ImportTemplate; score: number } | null = null;
+
+  for (const template of templates) {
+    const templateSet = new Set(template.headers);
+    let score: number;
+    if (headerSignature(template.headers) === signature) {
+      score = 1;
+    } else {
+      const shared = Array.from(templateSet).filter((header) => fileSet.has(header)).length;
+      score = shared / new Set([...templateSet, ...fileSet]).size;
+    }
+    if (score < MIN_HEADER_OVERLAP) continue;
+    const better =
+      !best || score > best.score || (score === best.score && template.ownerId === ownerId && best.template.ownerId !== ownerId);
+    if (better) best = { template, score };
+  }
+
+  return best?.template ?? null;
+}
+
+/** Header → field mapping for this file from a template; headers the template doesn't know keep `fallback` */
+export function applyTemplate(
+  template: ImportTemplate,
+  fileHeaders: string[],
+  fallback: Record<string, string>
+): Record<string, string> {
+  const known = new Set(template.headers);
+  const map: Record<string, string> = {};
+  fileHeaders.forEach((header) => {
+    const normalized = normalizeHeader(header);
+    map[header] = known.has(normalized) ? template.mapping[normalized] ?? '' : fallback[header] ?? '';
+  });
+  return map;
+}
+
+/** Re-key the per-column parts of `options` (transforms, split targets, extras) */
+function rekeyOptions(options: ImportOptions, keyFor: (column: string) => string | null): ImportOptions {
+  const rekey = <V>(record: Record<string, V>) => {
+    const next: Record<string, V> = {};
+    Object.entries(record).forEach(([column, value]) => {
+      const key = keyFor(column);
+      if (key) next[key] = value;
+    });
+    return next;
+  };
+  return {
+    transforms: rekey(options.transforms),
+    splitTargets: rekey(options.splitTargets),
+    extras: options.extras.flatMap((extra) => {
+      const column = keyFor(extra.column);
+      return column ? [{ ...extra, column }] : [];
+    }),
+    separators: { ...options.separators },
+    defaults: { ...options.defaults },
+  };
+}
+
+/** A template's options for this file's headers */
+export function templateOptions(template: ImportTemplate, fileHeaders: string[]): ImportOptions {
+  const byNormalized = new Map(fileHeaders.map((header) => [normalizeHeader(header), header]));
+  return rekeyOptions({ ...EMPTY_IMPORT_OPTIONS, ...template.options }, (column) => byNormalized.get(column) ?? null);
+}
+
+/** Template contents for a file's headers, its current header → field mapping and import options */
+export function templateFromMapping(fileHeaders: string[], mapping: Record<string, string>, options: ImportOptions) {
+  const headers = Array.from(new Set(fileHeaders.map(normalizeHeader).filter(Boolean)));
+  const templateMapping: Record<string, string> = {};
+  fileHeaders.forEach((header) => {
+    if (mapping[header]) templateMapping[normalizeHeader(header)] = mapping[header];
+  });
+  return {
+    headers,
+    signature: headerSignature(fileHeaders),
+    mapping: templateMapping,
+    options: rekeyOptions(options, normalizeHeader),
+  };
+}
@@ -0,0 +1,147 @@
+import { ImportLead } from './importUtils';
+import { loadDedupConfig, toE164 } from './dedup';
+
+export type ImportTransform = 'trim' | 'title_case' | 'lowercase' | 'phone' | 'email_domain' | 'split_name';
+
+export const IMPORT_TRANSFORMS: { key: ImportTransform; label: string }[] = [
+  { key: 'trim', label: 'As is' },
+  { key: 'title_case', label: 'Title Case' },
+  { key: 'lowercase', label: 'lowercase' },
+  { key: 'phone', label: 'Normalize phone' },
+  { key: 'email_domain', label: 'Domain from email' },
+  { key: 'split_name', label: 'Split full name' },
+];
+
+/** How column values are reshaped on their way into lead fields; keyed by file header */
+export type ImportOptions = {
+  /** Transform for each column's mapped field (missing = trim) */
+  transforms: Record<string, ImportTransform>;
+  /** For `split_name` columns: field that receives the last name ('' drops it) */
+  splitTargets: Record<string, string>;
+  /** Additional outputs from a column, e.g. the Email column's domain into Website */
+  extras: { column: string; field: string; transform: ImportTransform }[];
+  /** Separator for fields fed by more than one column (default a space) */
+  separators: Record<string, string>;
+  /** Value for fields that end up empty */
+  defaults: Record<string, string>;
+};
+
+export const EMPTY_IMPORT_OPTIONS: ImportOptions = {
+  transforms: {},
+  splitTargets: {},
+  extras: [],
+  separators: {},
+  defaults: {},
+};
+
+/** Mailbox providers whose domain says nothing about the lead's business */
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+]);
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s\-'’(/])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+
+/** "Jane Q Public" → ["Jane Q", "Public"]; "Public, Jane" → ["Jane", "Public"] */
+export function splitFullName(value: string): [string, string] {
+  if (value.includes(',')) {
+    const [last, ...rest] = value.split(',');
+    return [rest.join(',').trim(), last.trim()];
+  }
+  const parts = value.trim().split(/\s+/);
+  if (parts.length < 2) return [parts[0] ?? '', ''];
+  return [parts.slice(0, -1).join(' '), parts[parts.length - 1]];
+}
+
+export function applyTransform(value: string, transform: ImportTransform, countryCode: string): string {
+  const trimmed = value.trim();
+  switch (transform) {
+    case 'title_case':
+      return titleCase(trimmed);
+    case 'lowercase':
+      return trimmed.toLowerCase();
+    case 'phone':
+      return toE164(trimmed, countryCode) || trimmed;
+    case 'email_domain': {
+      const domain = trimmed.toLowerCase().split('@')[1]?.replace(/[>\s].*$/, '') ?? '';
+      return domain && !FREE_MAIL_DOMAINS.has(domain) ? domain : '';
+    }
+    case 'split_name':
+      return splitFullName(trimmed)[0];
+    default:
+      return trimmed;
+  }
+}
+
+/** Build import leads from file rows using the header → field mapping and its options */
+export function buildImportLeads(
+  headers: string[],
+  rows: string[][],
+  mapping: Record<string, string>,
+  options: ImportOptions
+): ImportLead[] {
+  const countryCode = loadDedupConfig().defaultCountryCode;
+
+  return rows.map((row) => {
+    const parts: Record<string, string[]> = {};
+    const add = (field: string, value: string) => {
+      if (!field || !value) return;
+      (parts[field] ??= []).push(value);
+    };
+
+    headers.forEach((header, colIdx) => {
+      const raw = row[colIdx]?.trim();
+      if (!raw) return;
+      const transform = options.transforms[header] ?? 'trim';
+      if (transform === 'split_name') {
+        const [first, last] = splitFullName(raw);
+        add(mapping[header], first);
+        add(options.splitTargets[header] ?? '', last);
+      } else {
+        add(mapping[header], applyTransform(raw, transform, countryCode));
+      }
+      options.extras
+        .filter((extra) => extra.column === header)
+        .forEach((extra) => add(extra.field, applyTransform(raw, extra.transform, countryCode)));
+    });
+
+    const lead: ImportLead = { name: '' };
+    Object.entries(parts).forEach(([field, values]) => {
+      lead[field] = values.join(options.separators[field] ?? ' ');
+    });
+    Object.entries(options.defaults).forEach(([field, value]) => {
+      if (value && !lead[field]) lead[field] = value;
+    });
+    if (!lead.name) {
+      lead.name = lead.email?.split('@')[0] || 'Unknown';
+    }
+    return lead;
+  });
+}
+
+/** Every field an import would write, in first-seen order */
+export function importedFields(mapping: Record<string, string>, options: ImportOptions): string[] {
+  const fields = [
+    ...Object.values(mapping),
+    ...Object.entries(options.splitTargets)
+      .filter(([header]) => options.transforms[header] === 'split_name')
+      .map(([, field]) => field),
+    ...options.extras.map((extra) => extra.field),
+    ...Object.entries(options.defaults)
+      .filter(([, value]) => value)
+      .map(([field]) => field),
+  ];
+  return Array.from(new Set(fields.filter(Boolean)));
+}
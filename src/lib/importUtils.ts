@@ -1,4 +1,6 @@
-import { supabase } from './supabase';
+import { supabase, Lead } from './supabase';
+import { LeadTable } from './leadChanges';
+import { findDuplicates, loadDedupConfig, type DedupConfig, type DedupRecord } from './dedup';
 
 export type ImportLead = {
   name: string;
@@ -10,81 +12,49 @@ export type ImportLead = {
 
 export type DuplicateResult = {
   original: ImportLead;
-  reason: 'email' | 'phone' | 'website';
+  /** Label of the dedup rule that matched, e.g. "email" or "similar name" */
+  reason: string;
   matchedWith: string;
+  /** 0–1, see `findDuplicates` */
+  confidence: number;
 };
 
 export type DeduplicationResult = {
+  /** Leads to import, possible duplicates included until someone drops them */
   newLeads: ImportLead[];
+  /** Exact matches (same email, phone or website); left out of the import */
   duplicates: DuplicateResult[];
+  /** Fuzzy matches (similar name, company + city); kept in `newLeads` for review */
+  possibleDuplicates: DuplicateResult[];
 };
 
-export const normalizeEmail = (value?: string | null) =>
-  value?.trim().toLowerCase() || '';
-
-export const normalizePhone = (value?: string | null) =>
-  value?.replace(/\D/g, '') || '';
-
-export const normalizeWebsite = (value?: string | null) =>
-  value
-    ?.trim()
-    .toLowerCase()
-    .replace(/^https?:\/\//, '')
-    .replace(/^www\./, '')
-    .replace(/\/$/, '') || '';
-
 export async function checkDuplicates(
-  leads: ImportLead[]
+  leads: ImportLead[],
+  config: DedupConfig = loadDedupConfig()
 ): Promise<DeduplicationResult> {
-  const { data: existingLeads, error } = await supabase
-    .from('leads')
-    .select('name,email,phone,website');
+  const { data: existingLeads, error } = await supabase.from('leads').select('*');
 
   if (error) throw error;
 
-  const existingByEmail = new Map<string, { name: string }>();
-  const existingByPhone = new Map<string, { name: string }>();
-  const existingByWebsite = new Map<string, { name: string }>();
-
-  (existingLeads || []).forEach((lead: { name: string; email?: string | null; phone?: string | null; website?: string | null }) => {
-    const email = normalizeEmail(lead.email);
-    const phone = normalizePhone(lead.phone);
-    const website = normalizeWebsite(lead.website);
-    if (email) existingByEmail.set(email, lead);
-    if (phone) existingByPhone.set(phone, lead);
-    if (website) existingByWebsite.set(website, lead);
+  const { matches } = findDuplicates(leads, (existingLeads || []) as DedupRecord[], config);
+  const toResult = (match: (typeof matches)[number]): DuplicateResult => ({
+    original: match.record,
+    reason: match.label,
+    matchedWith: match.existing.name || '',
+    confidence: match.confidence,
   });
-
-  const duplicates: DuplicateResult[] = [];
-  const newLeads: ImportLead[] = [];
-
-  leads.forEach((tempLead) => {
-    const email = normalizeEmail(tempLead.email);
-    const phone = normalizePhone(tempLead.phone);
-    const website = normalizeWebsite(tempLead.website);
-
-    const match =
-      (email && existingByEmail.get(email)) ||
-      (phone && existingByPhone.get(phone)) ||
-      (website && existingByWebsite.get(website));
-
-    if (match) {
-      const reason: 'email' | 'phone' | 'website' =
-        email && existingByEmail.get(email)
-          ? 'email'
-          : phone && existingByPhone.get(phone)
-          ? 'phone'
-          : 'website';
-      duplicates.push({ original: tempLead, reason, matchedWith: match.name });
-    } else {
-      newLeads.push(tempLead);
-    }
-  });
-
-  return { newLeads, duplicates };
+  // Only exact matches are dropped without review, as in the Temp tab
+  const exact = new Set(matches.filter((match) => match.exact).map((match) => match.record));
+
+  return {
+    newLeads: leads.filter((lead) => !exact.has(lead)),
+    duplicates: matches.filter((match) => match.exact).map(toResult),
+    possibleDuplicates: matches.filter((match) => !match.exact).map(toResult),
+  };
 }
 
-export async function bulkInsertLeads(leads: ImportLead[]): Promise<void> {
+/** Insert imported leads into `table` (imports land in Temp first) and return the new rows */
+export async function bulkInsertLeads(leads: ImportLead[], table: LeadTable = 'temp_leads'): Promise<Lead[]> {
   const rows = leads.map((lead) => {
     const row: Record<string, string | null> = {
       name: lead.name || 'Unknown',
@@ -104,6 +74,7 @@ export async function bulkInsertLeads(leads: ImportLead[]): Promise<void> {
     return row;
   });
 
-  const { error } = await supabase.from('leads').insert(rows);
+  const { data, error } = await supabase.from(table).insert(rows).select();
   if (error) throw error;
+  return data || [];
 }
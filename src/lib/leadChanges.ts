@@ -0,0 +1,158 @@
+import { supabase, LeadChange } from './supabase';
+
+export type LeadTable = LeadChange['table_name'];
+
+/** One edited cell, as collected by the grids before it is written */
+export type CellChange = {
+  id: string;
+  fieldKey: string;
+  prev: string | null;
+  next: string | null;
+};
+
+const EDIT_ACTIONS = ['update', 'insert', 'merge'];
+
+/** One line for a write that failed, shown in the grids' notice */
+export function describeSaveError(error: unknown): string {
+  const message = error instanceof Error ? error.message : (error as { message?: string } | null)?.message;
+  return `Couldn't save: ${message || String(error)}`;
+}
+
+/**
+ * Write grid edits one row at a time; a row that fails doesn't stop the others. Returns the
+ * changes that were saved, so they can still be recorded for undo, and what went wrong.
+ */
+export async function saveRowEdits(
+  payloads: Map<string, Record<string, string | null>>,
+  changes: CellChange[],
+  write: (id: string, payload: Record<string, string | null>) => Promise<void>
+): Promise<{ saved: CellChange[]; failures: string[] }> {
+  const failedIds = new Set<string>();
+  const failures = new Set<string>();
+  await Promise.all(
+    Array.from(payloads.entries()).map(async ([id, payload]) => {
+      try {
+        await write(id, payload);
+      } catch (error) {
+        console.error('Error saving lead:', error);
+        failedIds.add(id);
+        failures.add(describeSaveError(error));
+      }
+    })
+  );
+  return { saved: changes.filter((change) => !failedIds.has(change.id)), failures: Array.from(failures) };
+}
+
+export async function loadLeadHistory(leadId: string): Promise<LeadChange[]> {
+  const { data, error } = await supabase
+    .from('lead_changes')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Write one batch to the log. Edits are logged as `update`/`insert`; replays of
+ * the log are logged as `undo`/`redo` so they show in history but are never undone themselves.
+ */
+export async function recordLeadChanges(
+  scope: string,
+  table: LeadTable,
+  actor: string,
+  changes: CellChange[],
+  insertedRows: { id: string }[],
+  action: 'update' | 'undo' | 'redo' = 'update'
+): Promise<void> {
+  if (changes.length === 0 && insertedRows.length === 0) return;
+  const batchId = crypto.randomUUID();
+  const base = { batch_id: batchId, scope, table_name: table, actor };
+  const rows = [
+    ...changes.map((change) => ({
+      ...base,
+      lead_id: change.id,
+      field_key: change.fieldKey,
+      action,
+      old_value: change.prev,
+      new_value: change.next,
+    })),
+    ...insertedRows.map((row) => ({
+      ...base,
+      lead_id: row.id,
+      field_key: null,
+      action: action === 'update' ? 'insert' : action,
+      row_data: row,
+    })),
+  ];
+
+  const { error } = await supabase.from('lead_changes').insert(rows);
+  if (error) throw error;
+}
+
+/** Log a lead merge (or its undo/redo) against the surviving lead; `row_data` points at the `lead_merges` row */
+export async function recordLeadMerge(
+  scope: string,
+  actor: string,
+  merge: { mergeId: string; survivorId: string; loserIds: string[] },
+  action: 'merge' | 'undo' | 'redo' = 'merge'
+): Promise<void> {
+  const { error } = await supabase.from('lead_changes').insert({
+    batch_id: crypto.randomUUID(),
+    scope,
+    table_name: 'leads',
+    actor,
+    lead_id: merge.survivorId,
+    field_key: null,
+    action,
+    row_data: { merge_id: merge.mergeId, loser_ids: merge.loserIds },
+  });
+  if (error) throw error;
+}
+
+async function latestEditBatch(scope: string, actor: string) {
+  const { data, error } = await supabase
+    .from('lead_changes')
+    .select('batch_id,created_at')
+    .eq('scope', scope)
+    .eq('actor', actor)
+    .in('action', EDIT_ACTIONS)
+    .is('undone_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return (data?.[0] as { batch_id: string; created_at: string } | undefined) ?? null;
+}
+
+/** The actor's most recent edit in this grid that hasn't been undone */
+export async function findUndoBatch(scope: string, actor: string): Promise<string | null> {
+  return (await latestEditBatch(scope, actor))?.batch_id ?? null;
+}
+
+/** The actor's most recently undone edit, unless they have made a new edit since */
+export async function findRedoBatch(scope: string, actor: string): Promise<string | null> {
+  const latest = await latestEditBatch(scope, actor);
+  let query = supabase
+    .from('lead_changes')
+    .select('batch_id')
+    .eq('scope', scope)
+    .eq('actor', actor)
+    .in('action', EDIT_ACTIONS)
+    .not('undone_at', 'is', null);
+  if (latest) query = query.gt('undone_at', latest.created_at);
+  const { data, error } = await query.order('undone_at', { ascending: false }).limit(1);
+  if (error) throw error;
+  return (data?.[0] as { batch_id: string } | undefined)?.batch_id ?? null;
+}
+
+export async function loadChangeBatch(batchId: string): Promise<LeadChange[]> {
+  const { data, error } = await supabase.from('lead_changes').select('*').eq('batch_id', batchId);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function setChangeBatchUndone(batchId: string, undone: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_lead_change_batch_undone', { batch: batchId, undone });
+  if (error) throw error;
+}
@@ -1,10 +1,13 @@
 export function isSelectField(fieldKey: string, fieldType?: string) {
-  if (fieldType === 'select') return true;
+  if (fieldType === 'select' || fieldType === 'multi_select') return true;
   return fieldKey === 'outreach_method';
 }
 
 /** Fields that are auto-populated and should not appear in the Add Lead form */
-export const AUTO_FIELDS = new Set(['date_added']);
+export const AUTO_FIELDS = new Set(['date_added', 'next_follow_up']);
+
+/** Fields the database computes (from the lead's tasks); grids show them but edits, pastes and fills skip them */
+export const READ_ONLY_FIELDS = new Set(['next_follow_up']);
 
 /** Check if a field is a date type */
 export function isDateField(fieldKey: string, fieldType?: string) {
@@ -18,3 +21,16 @@ export function formatDate(value: string | null): string {
   if (isNaN(d.getTime())) return value;
   return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
+
+/** Fields every lead has; the Field Manager can rename and reorder them but not retype or delete them */
+export const BUILT_IN_FIELDS = new Set([
+  'name',
+  'email',
+  'phone',
+  'website',
+  'outreach_method',
+  'pipeline_status',
+  'owner_id',
+  'date_added',
+  'next_follow_up',
+]);
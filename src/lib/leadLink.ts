@@ -0,0 +1,20 @@
+const LEAD_HASH = /^#lead\/([\w-]+)$/;
+
+/** The lead a `#lead/<id>` URL points at, or null */
+export function leadIdFromHash(hash = window.location.hash): string | null {
+  return hash.match(LEAD_HASH)?.[1] ?? null;
+}
+
+/** Open the lead detail panel; the URL changes so it can be shared and survives a reload */
+export function openLeadDetail(id: string) {
+  window.location.hash = `lead/${id}`;
+}
+
+/** Close the panel without leaving an empty `#` behind (replaceState doesn't fire hashchange) */
+export function closeLeadDetail() {
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+}
+
+export function leadDetailUrl(id: string): string {
+  return `${window.location.origin}${window.location.pathname}${window.location.search}#lead/${id}`;
+}
@@ -0,0 +1,31 @@
+import { supabase } from './supabase';
+
+/**
+ * Merge `loserIds` into `survivorId`: the survivor takes `fieldValues`, inherits the
+ * others' events, channels, tasks and comment threads, and the others are deleted. Returns the merge id.
+ */
+export async function mergeLeads(
+  survivorId: string,
+  loserIds: string[],
+  fieldValues: Record<string, string | null>
+): Promise<string> {
+  const { data, error } = await supabase.rpc('merge_leads', {
+    survivor: survivorId,
+    losers: loserIds,
+    field_values: fieldValues,
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+/** Undo a merge; returns how many survivor fields were edited since and left as they are */
+export async function undoLeadMerge(mergeId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('undo_lead_merge', { merge: mergeId });
+  if (error) throw error;
+  return (data as number | null) ?? 0;
+}
+
+export async function redoLeadMerge(mergeId: string): Promise<void> {
+  const { error } = await supabase.rpc('apply_lead_merge', { merge: mergeId });
+  if (error) throw error;
+}
@@ -0,0 +1,201 @@
+import { supabase, Lead, LeadMethodMembership } from './supabase';
+
+type MethodOption = {
+  key: string;
+  label: string;
+};
+
+/** Select clause that embeds each lead's channel memberships */
+export const LEAD_WITH_METHODS = '*, lead_outreach_methods(method,status)';
+
+/** Same as LEAD_WITH_METHODS, but only returns leads that are members of the filtered channel */
+export const LEAD_IN_METHOD = `${LEAD_WITH_METHODS}, channel:lead_outreach_methods!inner(method)`;
+
+/** Resolve a comma-separated list of method keys or labels to known method keys */
+export function parseMethodKeys(raw: string | null | undefined, options: MethodOption[]): string[] {
+  if (!raw) return [];
+  const keys: string[] = [];
+  raw.split(',').forEach((token) => {
+    const needle = token.trim().toLowerCase();
+    if (!needle) return;
+    const match = options.find(
+      (option) => option.key.toLowerCase() === needle || option.label.toLowerCase() === needle
+    );
+    if (match && !keys.includes(match.key)) keys.push(match.key);
+  });
+  return keys;
+}
+
+type LeadRowWithMethods = Lead & {
+  lead_outreach_methods?: LeadMethodMembership[];
+  channel?: { method: string }[];
+};
+
+/**
+ * Split rows loaded with LEAD_WITH_METHODS into plain leads plus a membership map.
+ * Each lead's `outreach_method` becomes its comma-joined channel keys (primary first),
+ * so grids, search, filters and undo treat the channel list as a single cell.
+ */
+export function splitMemberships(rows: LeadRowWithMethods[]): {
+  leads: Lead[];
+  memberships: Record<string, LeadMethodMembership[]>;
+} {
+  const memberships: Record<string, LeadMethodMembership[]> = {};
+  const leads = rows.map(({ lead_outreach_methods, ...lead }) => {
+    delete lead.channel;
+    const list = lead_outreach_methods ?? [];
+    memberships[lead.id] = list;
+    if (list.length === 0) return lead as Lead;
+    const keys = list
+      .map((membership) => membership.method)
+      .sort((a, b) => (a === lead.outreach_method ? -1 : b === lead.outreach_method ? 1 : 0));
+    return { ...lead, outreach_method: keys.join(',') } as Lead;
+  });
+  return { leads, memberships };
+}
+
+async function fillPrimaryMethod(leadIds: string[], method: string) {
+  const { error } = await supabase
+    .from('leads')
+    .update({ outreach_method: method })
+    .in('id', leadIds)
+    .is('outreach_method', null);
+  if (error) throw error;
+}
+
+/** Replace a lead's memberships with `keys`, keeping the status of channels it stays on */
+export async function setLeadMethods(leadId: string, keys: string[]): Promise<void> {
+  const { data, error } = await supabase
+    .from('lead_outreach_methods')
+    .select('method')
+    .eq('lead_id', leadId);
+  if (error) throw error;
+
+  const current = new Set((data || []).map((row: { method: string }) => row.method));
+  const toRemove = Array.from(current).filter((key) => !keys.includes(key));
+  const toAdd = keys.filter((key) => !current.has(key));
+
+  if (toRemove.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('lead_outreach_methods')
+      .delete()
+      .eq('lead_id', leadId)
+      .in('method', toRemove);
+    if (deleteError) throw deleteError;
+  }
+  if (toAdd.length > 0) {
+    const { error: insertError } = await supabase
+      .from('lead_outreach_methods')
+      .upsert(
+        toAdd.map((method) => ({ lead_id: leadId, method })),
+        { onConflict: 'lead_id,method', ignoreDuplicates: true }
+      );
+    if (insertError) throw insertError;
+  }
+}
+
+/** Update a leads row; an `outreach_method` value is treated as the full channel list */
+export async function updateLeadRow(
+  id: string,
+  payload: Record<string, string | number | boolean | null>,
+  options: MethodOption[]
+): Promise<void> {
+  if (!('outreach_method' in payload)) {
+    const { error } = await supabase.from('leads').update(payload).eq('id', id);
+    if (error) throw error;
+    return;
+  }
+
+  const keys = parseMethodKeys(payload.outreach_method as string | null, options);
+  const { error } = await supabase
+    .from('leads')
+    .update({ ...payload, outreach_method: keys[0] ?? null })
+    .eq('id', id);
+  if (error) throw error;
+  await setLeadMethods(id, keys);
+}
+
+/** Insert leads rows, expanding comma-separated `outreach_method` values into memberships */
+export async function insertLeadRows(
+  rows: Record<string, string | number | null>[],
+  options: MethodOption[]
+): Promise<Lead[]> {
+  const keysByRow = rows.map((row) =>
+    'outreach_method' in row ? parseMethodKeys(row.outreach_method as string | null, options) : []
+  );
+  const prepared = rows.map((row, idx) =>
+    'outreach_method' in row ? { ...row, outreach_method: keysByRow[idx][0] ?? null } : row
+  );
+
+  const { data, error } = await supabase.from('leads').insert(prepared).select();
+  if (error) throw error;
+
+  const inserted = (data || []) as Lead[];
+  const extra = inserted.flatMap((lead, idx) =>
+    (keysByRow[idx] ?? []).slice(1).map((method) => ({ lead_id: lead.id, method }))
+  );
+  if (extra.length > 0) {
+    const { error: membershipError } = await supabase
+      .from('lead_outreach_methods')
+      .upsert(extra, { onConflict: 'lead_id,method', ignoreDuplicates: true });
+    if (membershipError) throw membershipError;
+  }
+  return inserted;
+}
+
+export async function addLeadsToMethod(leadIds: string[], method: string): Promise<void> {
+  if (leadIds.length === 0) return;
+  const { error } = await supabase
+    .from('lead_outreach_methods')
+    .upsert(
+      leadIds.map((leadId) => ({ lead_id: leadId, method })),
+      { onConflict: 'lead_id,method', ignoreDuplicates: true }
+    );
+  if (error) throw error;
+  await fillPrimaryMethod(leadIds, method);
+}
+
+export async function removeLeadsFromMethod(leadIds: string[], method: string): Promise<void> {
+  if (leadIds.length === 0) return;
+  const { error } = await supabase
+    .from('lead_outreach_methods')
+    .delete()
+    .in('lead_id', leadIds)
+    .eq('method', method);
+  if (error) throw error;
+
+  // Re-point the primary channel at whatever membership remains
+  const { data: remaining, error: remainingError } = await supabase
+    .from('lead_outreach_methods')
+    .select('lead_id,method')
+    .in('lead_id', leadIds);
+  if (remainingError) throw remainingError;
+
+  const nextPrimary = new Map<string, string>();
+  (remaining || []).forEach((row: { lead_id: string; method: string }) => {
+    if (!nextPrimary.has(row.lead_id)) nextPrimary.set(row.lead_id, row.method);
+  });
+  await Promise.all(
+    leadIds.map(async (leadId) => {
+      const { error: updateError } = await supabase
+        .from('leads')
+        .update({ outreach_method: nextPrimary.get(leadId) ?? null })
+        .eq('id', leadId)
+        .eq('outreach_method', method);
+      if (updateError) throw updateError;
+    })
+  );
+}
+
+/** Set the per-channel status, joining the lead to the channel if it isn't a member yet */
+export async function setMembershipStatus(leadIds: string[], method: string, status: string | null): Promise<void> {
+  if (leadIds.length === 0) return;
+  const { error } = await supabase
+    .from('lead_outreach_methods')
+    .upsert(
+      leadIds.map((leadId) => ({ lead_id: leadId, method, status })),
+      { onConflict: 'lead_id,method' }
+    );
+  if (error) throw error;
+  await fillPrimaryMethod(leadIds, method);
+}
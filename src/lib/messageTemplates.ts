@@ -0,0 +1,63 @@
+import { Lead, LeadField, MessageTemplate } from './supabase';
+import { cellText } from './exportLeads';
+
+type Option = { key: string; label: string };
+
+/** `{{field_key}}`, spaces inside the braces allowed */
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+export const placeholderFor = (fieldKey: string) => `{{${fieldKey}}}`;
+
+/** Field keys used as placeholders in `text`, in order of first use */
+export function templatePlaceholders(text: string): string[] {
+  const keys: string[] = [];
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    const key = match[1].toLowerCase();
+    if (!keys.includes(key)) keys.push(key);
+  }
+  return keys;
+}
+
+/** Placeholders in a template's subject and body that don't name any lead field */
+export function unknownPlaceholders(template: Pick<MessageTemplate, 'subject' | 'body'>, fields: LeadField[]): string[] {
+  return templatePlaceholders(`${template.subject ?? ''}\n${template.body}`).filter(
+    (key) => !fields.some((field) => field.field_key === key)
+  );
+}
+
+export type RenderedMessage = {
+  lead: Lead;
+  /** Null when the template has no subject */
+  subject: string | null;
+  body: string;
+  /** Fields used by the template that are empty on this lead; they render as nothing */
+  missing: LeadField[];
+};
+
+/**
+ * Fill a template in for one lead. Values read as they do in the grid (option labels, not
+ * keys); placeholders that don't name a field are left as written.
+ */
+export function renderTemplate(
+  template: Pick<MessageTemplate, 'subject' | 'body'>,
+  lead: Lead,
+  fields: LeadField[],
+  selectOptions: Record<string, Option[]>
+): RenderedMessage {
+  const missing: LeadField[] = [];
+  const fill = (text: string) =>
+    text.replace(PLACEHOLDER, (placeholder, key: string) => {
+      const field = fields.find((item) => item.field_key === key.toLowerCase());
+      if (!field) return placeholder;
+      const value = cellText(lead, field, selectOptions).trim();
+      if (!value && !missing.includes(field)) missing.push(field);
+      return value;
+    });
+  const subject = template.subject?.trim() ? fill(template.subject) : null;
+  return { lead, subject, body: fill(template.body), missing };
+}
+
+/** A rendered message as plain text for the clipboard, with its subject line first */
+export function messageText(message: Pick<RenderedMessage, 'subject' | 'body'>): string {
+  return message.subject !== null ? `Subject: ${message.subject}\n\n${message.body}` : message.body;
+}
@@ -0,0 +1,15 @@
+/** Palette for select options; the name is stored, the hex is what the grid draws */
+export const OPTION_COLORS: { key: string; label: string; hex: string }[] = [
+  { key: 'gray', label: 'Gray', hex: '#6b7280' },
+  { key: 'red', label: 'Red', hex: '#ef4444' },
+  { key: 'orange', label: 'Orange', hex: '#f97316' },
+  { key: 'amber', label: 'Amber', hex: '#f59e0b' },
+  { key: 'green', label: 'Green', hex: '#22c55e' },
+  { key: 'teal', label: 'Teal', hex: '#14b8a6' },
+  { key: 'blue', label: 'Blue', hex: '#3b82f6' },
+  { key: 'purple', label: 'Purple', hex: '#a855f7' },
+  { key: 'pink', label: 'Pink', hex: '#ec4899' },
+];
+
+export const optionColorHex = (color?: string | null) =>
+  OPTION_COLORS.find((option) => option.key === color)?.hex ?? null;
@@ -0,0 +1,56 @@
+import { supabase, OutreachEvent } from './supabase';
+import { setMembershipStatus } from './leadMethods';
+
+export const OUTREACH_STATUSES: { key: string; label: string }[] = [
+  { key: 'sent', label: 'Sent' },
+  { key: 'follow_up', label: 'Followed Up' },
+  { key: 'replied', label: 'Replied' },
+  { key: 'booked', label: 'Booked' },
+  { key: 'no_response', label: 'No Response' },
+  { key: 'not_interested', label: 'Not Interested' },
+];
+
+export function outreachStatusLabel(status: string) {
+  return OUTREACH_STATUSES.find((s) => s.key === status)?.label || status;
+}
+
+export async function loadOutreachEvents(leadId: string): Promise<OutreachEvent[]> {
+  const { data, error } = await supabase
+    .from('outreach_events')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Append one event per lead; touches are never overwritten, only added */
+export async function logOutreachEvents(
+  leadIds: string[],
+  method: string,
+  status: string,
+  notes?: string | null
+): Promise<void> {
+  if (leadIds.length === 0) return;
+  const rows = leadIds.map((leadId) => ({
+    lead_id: leadId,
+    method,
+    status,
+    notes: notes?.trim() ? notes.trim() : null,
+  }));
+
+  const { error } = await supabase.from('outreach_events').insert(rows);
+  if (error) throw error;
+}
+
+/** Log a touch and make it the lead's current status on that channel */
+export async function logOutreachTouch(
+  leadIds: string[],
+  method: string,
+  status: string,
+  notes?: string | null
+): Promise<void> {
+  await logOutreachEvents(leadIds, method, status, notes);
+  await setMembershipStatus(leadIds, method, status);
+}
@@ -16,12 +16,21 @@ export type Lead = {
   phone: string | null;
   website: string | null;
   outreach_method: string | null;
+  pipeline_status?: string | null;
+  owner_id?: string | null;
+  /** Earliest due date of the lead's open tasks, kept up to date by the database */
+  next_follow_up?: string | null;
   sort_order?: number | null;
   pinned?: boolean | null;
   created_at: string;
   updated_at: string;
 };
 
+export type LeadMethodMembership = {
+  method: string;
+  status: string | null;
+};
+
 export type OutreachEvent = {
   id: string;
   lead_id: string;
@@ -32,10 +41,117 @@ export type OutreachEvent = {
   lead?: Lead;
 };
 
+export type LeadChange = {
+  id: string;
+  batch_id: string;
+  scope: string;
+  table_name: 'leads' | 'temp_leads';
+  lead_id: string;
+  field_key: string | null;
+  action: 'update' | 'insert' | 'merge' | 'undo' | 'redo';
+  old_value: string | null;
+  new_value: string | null;
+  row_data: Record<string, unknown> | null;
+  actor: string | null;
+  undone_at: string | null;
+  created_at: string;
+};
+
+export type LeadThread = {
+  id: string;
+  lead_id: string;
+  /** Commented cell; null for the thread about the whole lead */
+  field_key: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  comments?: LeadComment[];
+  lead?: Pick<Lead, 'name' | 'email'> | null;
+};
+
+export type LeadComment = {
+  id: string;
+  thread_id: string;
+  lead_id: string;
+  /** Null for comments migrated from the old cell notes */
+  author: string | null;
+  body: string;
+  mentions: string[];
+  /** Earlier versions, oldest first */
+  edits: { body: string; edited_at: string }[];
+  edited_at: string | null;
+  created_at: string;
+};
+
+export type LeadTask = {
+  id: string;
+  lead_id: string;
+  title: string;
+  /** YYYY-MM-DD */
+  due_date: string;
+  assignee_id: string | null;
+  /** Set once the task is done */
+  done_at: string | null;
+  done_by: string | null;
+  created_by: string | null;
+  created_at: string;
+  lead?: Pick<Lead, 'name' | 'email'> | null;
+};
+
+export type MessageTemplate = {
+  id: string;
+  /** Outreach method (channel) key the template is written for */
+  method: string;
+  name: string;
+  /** Only used by channels with a subject line, e.g. email */
+  subject: string | null;
+  /** Text with {{field_key}} placeholders */
+  body: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type UserRole = 'admin' | 'rep' | 'viewer' | 'pending';
+
+export type Profile = {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: UserRole;
+  created_at: string;
+};
+
 export type LeadField = {
   id: string;
   field_key: string;
   label: string;
   type: string;
+  /** Default column order; null for fields that were never placed */
+  position?: number | null;
+  /** The field can't be left empty, see `checkFieldRules` */
+  required?: boolean;
+  rules?: FieldRules | null;
+  created_at: string;
+};
+
+export type FieldRules = {
+  /** Regular expression the value must match */
+  pattern?: string;
+  /** Shown instead of the pattern when a value doesn't match, e.g. "must be a LinkedIn URL" */
+  pattern_hint?: string;
+  /** Bounds for number and currency fields; minimum and maximum length for text fields */
+  min?: number | null;
+  max?: number | null;
+  /** Allowed domains for email and URL fields; subdomains are allowed too */
+  domains?: string[];
+  /** No two leads in Master may share the value (case-insensitive) */
+  unique?: boolean;
+};
+
+export type PipelineStage = {
+  key: string;
+  label: string;
+  position: number;
   created_at: string;
 };
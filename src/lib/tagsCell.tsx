@@ -0,0 +1,116 @@
+/* eslint-disable react-refresh/only-export-components */
+import { useState } from 'react';
+import { CustomCell, CustomRenderer, GridCell, GridCellKind, ProvideEditorComponent } from '@glideapps/glide-data-grid';
+
+export type TagsCellData = {
+  kind: 'tags-cell';
+  /** Comma-joined tags, as stored on the lead */
+  value: string;
+};
+
+export type TagsCell = CustomCell<TagsCellData>;
+
+export function isTagsCell(cell: GridCell): cell is TagsCell {
+  return (
+    cell.kind === GridCellKind.Custom && (cell.data as Partial<TagsCellData> | undefined)?.kind === 'tags-cell'
+  );
+}
+
+/** "vip, Retail,vip" → ["vip", "Retail"]; duplicates are dropped ignoring case */
+export function splitTags(value: string): string[] {
+  const tags: string[] = [];
+  value.split(',').forEach((raw) => {
+    const tag = raw.trim();
+    if (tag && !tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+  return tags;
+}
+
+const BUBBLE_HEIGHT = 20;
+const BUBBLE_PADDING = 8;
+const BUBBLE_GAP = 4;
+
+const TagsEditor: ProvideEditorComponent<TagsCell> = ({ value, onFinishedEditing }) => {
+  const [tags, setTags] = useState<string[]>(() => splitTags(value.data.value));
+  const [draft, setDraft] = useState('');
+
+  const commit = (next: string[]) => {
+    const joined = next.join(',');
+    onFinishedEditing({ ...value, copyData: joined, data: { ...value.data, value: joined } });
+  };
+
+  const addDraft = () => {
+    const next = splitTags([...tags, draft].join(','));
+    setTags(next);
+    setDraft('');
+    return next;
+  };
+
+  return (
+    <div className="bg-gray-900 text-white text-sm p-2 min-w-[220px] space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {tags.map((tag) => (
+          <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-700 text-xs">
+            {tag}
+            <button
+              onClick={() => setTags((prev) => prev.filter((t) => t !== tag))}
+              className="text-gray-400 hover:text-white"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            e.stopPropagation();
+            if (draft.trim()) addDraft();
+            else if (e.key === 'Enter') commit(tags);
+          }
+          if (e.key === 'Backspace' && !draft) setTags((prev) => prev.slice(0, -1));
+        }}
+        placeholder="Add a tag…"
+        className="w-full px-2 py-1 rounded bg-gray-800 border border-gray-700 text-sm focus:outline-none"
+      />
+      <button
+        onClick={() => commit(draft.trim() ? addDraft() : tags)}
+        className="w-full px-2 py-1 rounded bg-purple-700 text-white text-xs hover:bg-purple-600"
+      >
+        Done
+      </button>
+    </div>
+  );
+};
+
+/** Free-form tags drawn as bubbles, like Glide's bubble cell but editable */
+export const tagsCellRenderer: CustomRenderer<TagsCell> = {
+  kind: GridCellKind.Custom,
+  isMatch: (cell: CustomCell): cell is TagsCell => isTagsCell(cell),
+  draw: (args, cell) => {
+    const { ctx, rect, theme } = args;
+    const right = rect.x + rect.width - theme.cellHorizontalPadding;
+    const y = rect.y + (rect.height - BUBBLE_HEIGHT) / 2;
+    let x = rect.x + theme.cellHorizontalPadding;
+    ctx.font = theme.baseFontFull;
+    ctx.textBaseline = 'middle';
+    for (const tag of splitTags(cell.data.value)) {
+      const width = ctx.measureText(tag).width + BUBBLE_PADDING * 2;
+      if (x + width > right && x > rect.x + theme.cellHorizontalPadding) break;
+      ctx.beginPath();
+      ctx.roundRect(x, y, Math.min(width, right - x), BUBBLE_HEIGHT, BUBBLE_HEIGHT / 2);
+      ctx.fillStyle = theme.bgBubble;
+      ctx.fill();
+      ctx.fillStyle = theme.textBubble;
+      ctx.fillText(tag, x + BUBBLE_PADDING, y + BUBBLE_HEIGHT / 2);
+      x += width + BUBBLE_GAP;
+    }
+    return true;
+  },
+  provideEditor: () => ({ editor: TagsEditor, disablePadding: true }),
+  onPaste: (val, data) => ({ ...data, value: splitTags(val).join(',') }),
+};
@@ -0,0 +1,96 @@
+import { supabase, LeadTask } from './supabase';
+
+const PAGE_SIZE = 1000;
+
+export type TaskDraft = Pick<LeadTask, 'title' | 'due_date' | 'assignee_id'>;
+
+/** Local YYYY-MM-DD, the format of `due_date` */
+export function localDay(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Where an open task stands against `today` (YYYY-MM-DD) */
+export function taskDueState(task: Pick<LeadTask, 'due_date'>, today: string): 'overdue' | 'today' | 'upcoming' {
+  if (task.due_date < today) return 'overdue';
+  return task.due_date === today ? 'today' : 'upcoming';
+}
+
+/** Text colour of a due date in each state */
+export const DUE_STATE_CLASS: Record<ReturnType<typeof taskDueState>, string> = {
+  overdue: 'text-red-400',
+  today: 'text-yellow-400',
+  upcoming: 'text-gray-400',
+};
+
+/** Format a due date like "Tue, Oct 21"; dates are parsed as local days, not UTC midnight */
+export function formatDueDate(dueDate: string): string {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/** One lead's tasks: open ones by due date, then done ones, latest first */
+export async function loadLeadTasks(leadId: string): Promise<LeadTask[]> {
+  const { data, error } = await supabase
+    .from('lead_tasks')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('due_date', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  const tasks: LeadTask[] = data || [];
+  return [
+    ...tasks.filter((task) => !task.done_at),
+    ...tasks.filter((task) => task.done_at).sort((a, b) => (b.done_at ?? '').localeCompare(a.done_at ?? '')),
+  ];
+}
+
+/** Open tasks across leads due on or before `today`, with their lead's name, oldest due first */
+export async function loadDueTasks(today: string): Promise<LeadTask[]> {
+  const tasks: LeadTask[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('lead_tasks')
+      .select('*, lead:leads(name,email)')
+      .is('done_at', null)
+      .lte('due_date', today)
+      .order('due_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    tasks.push(...((data || []) as LeadTask[]));
+    if (!data || data.length < PAGE_SIZE) return tasks;
+  }
+}
+
+export async function addTask(leadId: string, draft: TaskDraft): Promise<void> {
+  const { error } = await supabase
+    .from('lead_tasks')
+    .insert({ lead_id: leadId, ...draft, title: draft.title.trim() });
+  if (error) throw error;
+}
+
+export async function updateTask(id: string, draft: TaskDraft): Promise<void> {
+  const { error } = await supabase
+    .from('lead_tasks')
+    .update({ ...draft, title: draft.title.trim() })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function setTaskDone(id: string, done: boolean, userId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('lead_tasks')
+    .update(done ? { done_at: new Date().toISOString(), done_by: userId } : { done_at: null, done_by: null })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteTask(id: string): Promise<void> {
+  const { error } = await supabase.from('lead_tasks').delete().eq('id', id);
+  if (error) throw error;
+}
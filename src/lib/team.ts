@@ -0,0 +1,27 @@
+import { supabase, Profile, UserRole } from './supabase';
+
+export const ROLES: { key: UserRole; label: string }[] = [
+  { key: 'admin', label: 'Admin' },
+  { key: 'rep', label: 'Rep' },
+  { key: 'viewer', label: 'Viewer' },
+  { key: 'pending', label: 'Pending' },
+];
+
+export function roleLabel(role: UserRole) {
+  return ROLES.find((r) => r.key === role)?.label || role;
+}
+
+export function profileLabel(profile: Pick<Profile, 'email' | 'full_name'> | null | undefined) {
+  return profile?.full_name || profile?.email || 'Unknown user';
+}
+
+export async function loadTeam(): Promise<Profile[]> {
+  const { data, error } = await supabase.from('profiles').select('*').order('email', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function setUserRole(id: string, role: UserRole): Promise<void> {
+  const { error } = await supabase.from('profiles').update({ role }).eq('id', id);
+  if (error) throw error;
+}
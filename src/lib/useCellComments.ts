@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import { CellComments, loadCellCommentIndex } from './comments';
+
+/** Summary of every cell thread, kept current in realtime; `channel` must be unique per mounted grid */
+export function useCellComments(channel: string): CellComments {
+  const [comments, setComments] = useState<CellComments>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      setComments(await loadCellCommentIndex());
+    } catch (error) {
+      console.error('Error loading cell comments:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const subscription = supabase
+      .channel(`cell-comments-${channel}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_comments' }, () => {
+        refresh();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lead_threads' }, () => {
+        refresh();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [channel, refresh]);
+
+  return comments;
+}
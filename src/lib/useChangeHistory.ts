@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from './supabase';
+import {
+  CellChange,
+  LeadTable,
+  findRedoBatch,
+  findUndoBatch,
+  loadChangeBatch,
+  recordLeadChanges,
+  recordLeadMerge,
+  setChangeBatchUndone,
+} from './leadChanges';
+import { redoLeadMerge, undoLeadMerge } from './leadMerge';
+import { useAuth } from '../contexts/AuthContext';
+
+export type ChangeTarget = {
+  /** Write one row's fields back (lets a grid route writes through helpers like updateLeadRow) */
+  update: (id: string, payload: Record<string, string | null>) => Promise<void>;
+  /** Current value of a cell, or undefined when the grid can't tell */
+  current: (id: string, fieldKey: string) => string | null | undefined;
+};
+
+/**
+ * Undo/redo for one grid, backed by the `lead_changes` log. Only the current
+ * user's own edits are undone; cells someone else changed since are left alone.
+ */
+export function useChangeHistory(scope: string, table: LeadTable) {
+  const { user } = useAuth();
+  const actor = user?.id ?? '';
+  const [undoBatch, setUndoBatch] = useState<string | null>(null);
+  const [redoBatch, setRedoBatch] = useState<string | null>(null);
+  const busy = useRef(false);
+
+  const refresh = useCallback(async () => {
+    if (!actor) return;
+    try {
+      const [nextUndo, nextRedo] = await Promise.all([findUndoBatch(scope, actor), findRedoBatch(scope, actor)]);
+      setUndoBatch(nextUndo);
+      setRedoBatch(nextRedo);
+    } catch (error) {
+      console.error('Error loading change history:', error);
+    }
+  }, [scope, actor]);
+
+  useEffect(() => {
+    refresh();
+    const channel = supabase
+      .channel(`lead-changes-${scope}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lead_changes', filter: `scope=eq.${scope}` },
+        () => {
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [scope, refresh]);
+
+  const record = async (changes: CellChange[], insertedRows: { id: string }[]) => {
+    try {
+      await recordLeadChanges(scope, table, actor, changes, insertedRows);
+    } catch (error) {
+      console.error('Error recording changes:', error);
+    }
+    refresh();
+  };
+
+  const recordMerge = async (mergeId: string, survivorId: string, loserIds: string[]) => {
+    try {
+      await recordLeadMerge(scope, actor, { mergeId, survivorId, loserIds });
+    } catch (error) {
+      console.error('Error recording merge:', error);
+    }
+    refresh();
+  };
+
+  /** Replay a batch backwards (undo) or forwards (redo); returns how many cells were skipped */
+  const replay = async (batchId: string, direction: 'undo' | 'redo', target: ChangeTarget) => {
+    const rows = await loadChangeBatch(batchId);
+    const merge = rows.find((row) => row.action === 'merge' && row.row_data);
+    if (merge) {
+      const data = merge.row_data as { merge_id: string; loser_ids: string[] };
+      let skipped = 0;
+      if (direction === 'undo') skipped = await undoLeadMerge(data.merge_id);
+      else await redoLeadMerge(data.merge_id);
+      await setChangeBatchUndone(batchId, direction === 'undo');
+      await recordLeadMerge(
+        scope,
+        actor,
+        { mergeId: data.merge_id, survivorId: merge.lead_id, loserIds: data.loser_ids },
+        direction
+      );
+      return skipped;
+    }
+
+    const inserted = rows.filter((row) => row.action === 'insert' && row.row_data);
+    const updates = rows.filter((row) => row.action === 'update' && row.field_key);
+
+    if (inserted.length > 0) {
+      if (direction === 'undo') {
+        const { error } = await supabase
+          .from(table)
+          .delete()
+          .in('id', inserted.map((row) => row.lead_id));
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from(table).insert(inserted.map((row) => row.row_data));
+        if (error) throw error;
+      }
+    }
+
+    let skipped = 0;
+    const applied: CellChange[] = [];
+    const payloads = new Map<string, Record<string, string | null>>();
+    updates.forEach((row) => {
+      const fieldKey = row.field_key as string;
+      const expected = direction === 'undo' ? row.new_value : row.old_value;
+      const value = direction === 'undo' ? row.old_value : row.new_value;
+      const current = target.current(row.lead_id, fieldKey);
+      if (current !== undefined && (current ?? '') !== (expected ?? '')) {
+        skipped += 1;
+        return;
+      }
+      const payload = payloads.get(row.lead_id) || {};
+      payload[fieldKey] = value;
+      payloads.set(row.lead_id, payload);
+      applied.push({ id: row.lead_id, fieldKey, prev: current ?? expected, next: value });
+    });
+    await Promise.all(Array.from(payloads.entries()).map(([id, payload]) => target.update(id, payload)));
+
+    await setChangeBatchUndone(batchId, direction === 'undo');
+    await recordLeadChanges(
+      scope,
+      table,
+      actor,
+      applied,
+      inserted.map((row) => row.row_data as { id: string }),
+      direction
+    );
+    return skipped;
+  };
+
+  const run = async (batchId: string | null, direction: 'undo' | 'redo', target: ChangeTarget) => {
+    if (!batchId || busy.current) return 0;
+    busy.current = true;
+    try {
+      return await replay(batchId, direction, target);
+    } finally {
+      busy.current = false;
+      refresh();
+    }
+  };
+
+  return {
+    canUndo: undoBatch !== null,
+    canRedo: redoBatch !== null,
+    record,
+    recordMerge,
+    undo: (target: ChangeTarget) => run(undoBatch, 'undo', target),
+    redo: (target: ChangeTarget) => run(redoBatch, 'redo', target),
+  };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Lead, LeadField } from './supabase';
+import { TakenValues, checkFieldRules, checkImportLeads, hasFieldRules, loadTakenValues } from './fieldRules';
+
+/** Lead id → field key → why the cell breaks its field's rules */
+export type FieldIssues = Record<string, Record<string, string>>;
+
+/**
+ * Cells in `rows` that break their field's rules, for the grids' red markers. Unique
+ * fields are compared with every lead in Master, reloaded whenever `rows` reload.
+ */
+export function useFieldIssues(rows: Lead[], fields: LeadField[]): FieldIssues {
+  const [taken, setTaken] = useState<TakenValues>(new Map());
+  const ruled = useMemo(() => fields.filter(hasFieldRules), [fields]);
+
+  useEffect(() => {
+    if (!ruled.some((field) => field.rules?.unique)) {
+      setTaken(new Map());
+      return;
+    }
+    let cancelled = false;
+    loadTakenValues(ruled)
+      .then((next) => {
+        if (!cancelled) setTaken(next);
+      })
+      .catch((error) => console.error('Error loading unique field values:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [rows, ruled]);
+
+  return useMemo(() => {
+    const issues: FieldIssues = {};
+    if (ruled.length === 0) return issues;
+    rows.forEach((row) => {
+      ruled.forEach((field) => {
+        const value = (row as Record<string, string | null>)[field.field_key] ?? null;
+        const message = checkFieldRules(field, value, row.id, taken);
+        if (message) (issues[row.id] ??= {})[field.field_key] = message;
+      });
+    });
+    return issues;
+  }, [rows, ruled, taken]);
+}
+
+/** Problems with each row of an import preview, see `checkImportLeads`; rechecked as rows are edited */
+export function useImportIssues(leads: Record<string, string | undefined>[], fields: LeadField[]): string[][] {
+  const [issues, setIssues] = useState<string[][]>([]);
+
+  useEffect(() => {
+    if (leads.length === 0 || fields.length === 0) {
+      setIssues([]);
+      return;
+    }
+    let cancelled = false;
+    checkImportLeads(leads, fields)
+      .then((next) => {
+        if (!cancelled) setIssues(next);
+      })
+      .catch((error) => console.error('Error checking imported rows:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [leads, fields]);
+
+  return issues;
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import { ImportTemplate, templateFromMapping } from './importTemplates';
+import { EMPTY_IMPORT_OPTIONS, ImportOptions } from './importTransforms';
+import { useAuth } from '../contexts/AuthContext';
+
+type ImportTemplateRow = {
+  id: string;
+  name: string;
+  owner_id: string;
+  shared: boolean;
+  headers: string[];
+  mapping: Record<string, string>;
+  options: Partial<ImportOptions> | null;
+};
+
+const TEMPLATE_COLUMNS = 'id,name,owner_id,shared,headers,mapping,options';
+
+function fromRow(row: ImportTemplateRow): ImportTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    shared: row.shared,
+    headers: row.headers,
+    mapping: row.mapping,
+    options: { ...EMPTY_IMPORT_OPTIONS, ...row.options },
+  };
+}
+
+/** The current user's column-mapping templates plus every template a teammate has shared */
+export function useImportTemplates() {
+  const { user } = useAuth();
+  const ownerId = user?.id ?? '';
+  const [templates, setTemplates] = useState<ImportTemplate[]>([]);
+
+  const loadTemplates = useCallback(async () => {
+    if (!ownerId) return;
+    const { data, error } = await supabase
+      .from('import_templates')
+      .select(TEMPLATE_COLUMNS)
+      .or(`shared.eq.true,owner_id.eq.${ownerId}`)
+      .order('name', { ascending: true });
+    if (error) {
+      console.error('Error loading import templates:', error);
+      return;
+    }
+    setTemplates((data || []).map(fromRow));
+  }, [ownerId]);
+
+  useEffect(() => {
+    if (!ownerId) return;
+    loadTemplates();
+
+    const channel = supabase
+      .channel('import-templates')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'import_templates' }, () => {
+        loadTemplates();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [ownerId, loadTemplates]);
+
+  /** Create or overwrite the current user's template with the same name */
+  const saveTemplate = async (
+    name: string,
+    fileHeaders: string[],
+    mapping: Record<string, string>,
+    options: ImportOptions,
+    shared: boolean
+  ): Promise<ImportTemplate> => {
+    const { data, error } = await supabase
+      .from('import_templates')
+      .upsert(
+        { owner_id: ownerId, name, shared, ...templateFromMapping(fileHeaders, mapping, options) },
+        { onConflict: 'owner_id,name' }
+      )
+      .select(TEMPLATE_COLUMNS)
+      .single();
+    if (error) throw error;
+    const saved = fromRow(data);
+    setTemplates((prev) =>
+      [...prev.filter((t) => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    return saved;
+  };
+
+  const setTemplateShared = async (id: string, shared: boolean) => {
+    const { error } = await supabase.from('import_templates').update({ shared }).eq('id', id);
+    if (error) throw error;
+    setTemplates((prev) => prev.map((template) => (template.id === id ? { ...template, shared } : template)));
+  };
+
+  const deleteTemplate = async (id: string) => {
+    const { error } = await supabase.from('import_templates').delete().eq('id', id);
+    if (error) throw error;
+    setTemplates((prev) => prev.filter((template) => template.id !== id));
+  };
+
+  return { templates, ownerId, saveTemplate, setTemplateShared, deleteTemplate };
+}
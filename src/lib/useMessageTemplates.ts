@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, MessageTemplate } from './supabase';
+
+export type MessageTemplateDraft = Pick<MessageTemplate, 'method' | 'name' | 'subject' | 'body'>;
+
+const byName = (a: MessageTemplate, b: MessageTemplate) => a.name.localeCompare(b.name);
+
+/** The team's outreach message templates, for every channel; `channel` names the realtime subscription */
+export function useMessageTemplates(channel: string) {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadTemplates = useCallback(async () => {
+    const { data, error } = await supabase.from('message_templates').select('*').order('name', { ascending: true });
+    if (error) {
+      console.error('Error loading message templates:', error);
+    } else {
+      setTemplates(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+
+    const subscription = supabase
+      .channel(`message-templates-${channel}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'message_templates' }, () => {
+        loadTemplates();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [channel, loadTemplates]);
+
+  /** Create a template, or update `id` */
+  const saveTemplate = async (draft: MessageTemplateDraft, id?: string): Promise<MessageTemplate> => {
+    const payload = { ...draft, name: draft.name.trim(), subject: draft.subject?.trim() ? draft.subject : null };
+    const { data, error } = id
+      ? await supabase.from('message_templates').update(payload).eq('id', id).select('*').single()
+      : await supabase.from('message_templates').insert(payload).select('*').single();
+    if (error) throw error;
+    const saved = data as MessageTemplate;
+    setTemplates((prev) => [...prev.filter((template) => template.id !== saved.id), saved].sort(byName));
+    return saved;
+  };
+
+  const deleteTemplate = async (id: string) => {
+    const { error } = await supabase.from('message_templates').delete().eq('id', id);
+    if (error) throw error;
+    setTemplates((prev) => prev.filter((template) => template.id !== id));
+  };
+
+  return { templates, loading, saveTemplate, deleteTemplate };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import { SavedView, clearLocalViews, loadLocalViews } from './gridPrefs';
+import { useAuth } from '../contexts/AuthContext';
+
+type GridViewRow = {
+  id: string;
+  name: string;
+  owner_id: string;
+  shared: boolean;
+  config: Omit<SavedView, 'id' | 'ownerId' | 'shared' | 'name'>;
+};
+
+function toConfig(view: SavedView): GridViewRow['config'] {
+  const config: Partial<SavedView> = { ...view };
+  delete config.id;
+  delete config.ownerId;
+  delete config.shared;
+  delete config.name;
+  return config as GridViewRow['config'];
+}
+
+function fromRow(row: GridViewRow): SavedView {
+  return { ...row.config, id: row.id, name: row.name, ownerId: row.owner_id, shared: row.shared };
+}
+
+/** Upload views left in localStorage from before views were stored server-side */
+async function migrateLocalViews(scope: string, ownerId: string) {
+  const local = loadLocalViews(scope);
+  if (local.length === 0) return;
+  const { error } = await supabase.from('grid_views').upsert(
+    local.map((view) => ({ scope, owner_id: ownerId, name: view.name, shared: false, config: toConfig(view) })),
+    { onConflict: 'scope,owner_id,name', ignoreDuplicates: true }
+  );
+  if (error) throw error;
+  clearLocalViews(scope);
+}
+
+/**
+ * Saved views for one grid (`master`, `temp` or `outreach:<method>`): the current
+ * user's own views plus every view a teammate has shared, kept in sync in realtime.
+ */
+export function useSavedViews(scope: string) {
+  const { user } = useAuth();
+  const ownerId = user?.id ?? '';
+  const [views, setViews] = useState<SavedView[]>([]);
+
+  const loadViews = useCallback(async () => {
+    if (!ownerId) return;
+    const { data, error } = await supabase
+      .from('grid_views')
+      .select('id,name,owner_id,shared,config')
+      .eq('scope', scope)
+      .or(`shared.eq.true,owner_id.eq.${ownerId}`)
+      .order('name', { ascending: true });
+    if (error) {
+      console.error('Error loading views:', error);
+      return;
+    }
+    setViews((data || []).map(fromRow));
+  }, [scope, ownerId]);
+
+  useEffect(() => {
+    if (!ownerId) return;
+    migrateLocalViews(scope, ownerId)
+      .catch((error) => console.error('Error migrating local views:', error))
+      .finally(() => loadViews());
+
+    const channel = supabase
+      .channel(`grid-views-${scope}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'grid_views', filter: `scope=eq.${scope}` },
+        () => {
+          loadViews();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [scope, ownerId, loadViews]);
+
+  /** Create or overwrite the current user's view with the same name */
+  const saveView = async (view: SavedView, shared: boolean): Promise<SavedView> => {
+    const { data, error } = await supabase
+      .from('grid_views')
+      .upsert(
+        { scope, owner_id: ownerId, name: view.name, shared, config: toConfig(view) },
+        { onConflict: 'scope,owner_id,name' }
+      )
+      .select('id,name,owner_id,shared,config')
+      .single();
+    if (error) throw error;
+    const saved = fromRow(data);
+    setViews((prev) =>
+      [...prev.filter((v) => v.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    return saved;
+  };
+
+  const setViewShared = async (id: string, shared: boolean) => {
+    const { error } = await supabase.from('grid_views').update({ shared }).eq('id', id);
+    if (error) throw error;
+    setViews((prev) => prev.map((view) => (view.id === id ? { ...view, shared } : view)));
+  };
+
+  const deleteView = async (id: string) => {
+    const { error } = await supabase.from('grid_views').delete().eq('id', id);
+    if (error) throw error;
+    setViews((prev) => prev.filter((view) => view.id !== id));
+  };
+
+  return { views, ownerId, saveView, setViewShared, deleteView };
+}
@@ -0,0 +1,24 @@
+/*
+  # Enable outreach event log
+
+  ## Overview
+  - `outreach_events` was created in the first migration but kept RLS with
+    authenticated-only policies, so the anon client could never read or write it
+  - Disables RLS to match `leads` and `outreach_methods`
+  - Restores the lead_id index used by the per-lead timeline query
+  - Adds the table to the realtime publication so open timelines stay in sync
+*/
+
+ALTER TABLE outreach_events DISABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_outreach_events_lead_id ON outreach_events(lead_id, created_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'outreach_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE outreach_events;
+  END IF;
+END $$;
@@ -0,0 +1,53 @@
+/*
+  # Add pipeline stages
+
+  ## Overview
+  - Creates `pipeline_stages`, a managed list of funnel stages (like `outreach_methods`)
+  - Adds `pipeline_status` to leads and temp_leads, defaulting to the first stage
+  - Registers `pipeline_status` as a select field so it shows in every grid
+
+  ## New Tables
+
+  ### `pipeline_stages`
+  - `key` (text, primary key) - value stored on leads.pipeline_status
+  - `label` (text) - display label, can be renamed without touching leads
+  - `position` (integer) - display order
+  - `created_at` (timestamptz) - creation timestamp
+*/
+
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  key text PRIMARY KEY,
+  label text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO pipeline_stages (key, label, position) VALUES
+  ('new', 'New', 1),
+  ('contacted', 'Contacted', 2),
+  ('replied', 'Replied', 3),
+  ('meeting_booked', 'Meeting Booked', 4),
+  ('won', 'Won', 5),
+  ('lost', 'Lost', 6)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS pipeline_status text DEFAULT 'new';
+ALTER TABLE temp_leads ADD COLUMN IF NOT EXISTS pipeline_status text DEFAULT 'new';
+
+UPDATE leads SET pipeline_status = 'new' WHERE pipeline_status IS NULL;
+
+INSERT INTO lead_fields (field_key, label, type)
+VALUES ('pipeline_status', 'Pipeline Status', 'select')
+ON CONFLICT (field_key) DO NOTHING;
+
+ALTER TABLE pipeline_stages DISABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'pipeline_stages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE pipeline_stages;
+  END IF;
+END $$;
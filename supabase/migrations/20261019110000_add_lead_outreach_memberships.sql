@@ -0,0 +1,77 @@
+/*
+  # Lead ↔ outreach method memberships
+
+  ## Overview
+  A lead can now be worked on several channels at once. Each membership carries
+  its own status (the latest touch on that channel: sent, replied, booked...).
+
+  ## New Tables
+
+  ### `lead_outreach_methods`
+  - `lead_id` (uuid) - references leads.id, cascades on delete
+  - `method` (text) - references outreach_methods.key, cascades on delete
+  - `status` (text, nullable) - per-channel status, null until first touch
+  - `created_at` / `updated_at` (timestamptz)
+
+  ## Important Notes
+  1. `leads.outreach_method` is kept as the lead's primary channel so imports,
+     temp → master moves and Add Lead keep working unchanged
+  2. A trigger adds a membership whenever `leads.outreach_method` is set
+  3. Existing `outreach_method` values are backfilled as memberships
+*/
+
+CREATE TABLE IF NOT EXISTS lead_outreach_methods (
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  method text NOT NULL REFERENCES outreach_methods(key) ON DELETE CASCADE ON UPDATE CASCADE,
+  status text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (lead_id, method)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_outreach_methods_method ON lead_outreach_methods(method);
+
+DROP TRIGGER IF EXISTS update_lead_outreach_methods_updated_at ON lead_outreach_methods;
+CREATE TRIGGER update_lead_outreach_methods_updated_at
+  BEFORE UPDATE ON lead_outreach_methods
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION sync_lead_outreach_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.outreach_method IS NOT NULL
+    AND EXISTS (SELECT 1 FROM outreach_methods WHERE key = NEW.outreach_method) THEN
+    INSERT INTO lead_outreach_methods (lead_id, method)
+    VALUES (NEW.id, NEW.outreach_method)
+    ON CONFLICT (lead_id, method) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_lead_outreach_membership ON leads;
+CREATE TRIGGER sync_lead_outreach_membership
+  AFTER INSERT OR UPDATE OF outreach_method ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_lead_outreach_membership();
+
+INSERT INTO lead_outreach_methods (lead_id, method)
+SELECT leads.id, leads.outreach_method
+FROM leads
+JOIN outreach_methods ON outreach_methods.key = leads.outreach_method
+ON CONFLICT (lead_id, method) DO NOTHING;
+
+ALTER TABLE lead_outreach_methods DISABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'lead_outreach_methods'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE lead_outreach_methods;
+  END IF;
+END $$;
@@ -0,0 +1,55 @@
+/*
+  # Shared saved grid views
+
+  ## Overview
+  Saved views used to live in each browser's localStorage (`gridViews:<key>`), so
+  a view built by one teammate never reached anyone else. Views are now stored
+  server-side with an owner and a "shared with team" flag.
+
+  ## New Tables
+
+  ### `grid_views`
+  - `id` (uuid, primary key)
+  - `scope` (text) - which grid the view belongs to: `master`, `temp` or `outreach:<method key>`
+  - `name` (text) - view name shown in the Views menu
+  - `owner_id` (text) - id of the user who saved the view
+  - `shared` (boolean) - when true every teammate sees the view
+  - `config` (jsonb) - search, filters, sorts, column order/visibility/widths and formats
+  - `created_at` / `updated_at` (timestamptz)
+
+  ## Important Notes
+  1. Names are unique per owner within a scope; saving again with the same name overwrites
+  2. Existing local views are uploaded once by the client, then removed from localStorage
+*/
+
+CREATE TABLE IF NOT EXISTS grid_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL,
+  name text NOT NULL,
+  owner_id text NOT NULL,
+  shared boolean NOT NULL DEFAULT false,
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (scope, owner_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grid_views_scope ON grid_views(scope);
+
+DROP TRIGGER IF EXISTS update_grid_views_updated_at ON grid_views;
+CREATE TRIGGER update_grid_views_updated_at
+  BEFORE UPDATE ON grid_views
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE grid_views DISABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'grid_views'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE grid_views;
+  END IF;
+END $$;
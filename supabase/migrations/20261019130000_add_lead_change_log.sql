@@ -0,0 +1,73 @@
+/*
+  # Lead change audit log
+
+  ## Overview
+  Every grid edit is recorded in `lead_changes` with who made it, the old and new
+  values and when. Undo/redo runs against this log instead of per-browser
+  localStorage stacks, and each lead gets a change history.
+
+  ## New Tables
+
+  ### `lead_changes`
+  - `id` (uuid, primary key)
+  - `batch_id` (uuid) - groups the rows written by one edit (a paste, a fill, a drag...)
+  - `scope` (text) - grid the edit was made in: `master`, `temp` or `outreach:<method key>`
+  - `table_name` (text) - `leads` or `temp_leads`
+  - `lead_id` (uuid) - edited row; no foreign key so history outlives deleted rows
+  - `field_key` (text, nullable) - edited column, null for row inserts
+  - `action` (text) - `update` or `insert` for edits, `undo` / `redo` when history is replayed
+  - `old_value` / `new_value` (text)
+  - `row_data` (jsonb, nullable) - the full inserted row, so a redo can recreate it
+  - `actor` (text) - id of the user who made the change
+  - `undone_at` (timestamptz, nullable) - set while an edit batch is undone
+  - `created_at` (timestamptz)
+
+  ## New Functions
+
+  ### `set_lead_change_batch_undone(batch uuid, undone boolean)`
+  Marks or unmarks a batch as undone using the database clock, so undo/redo
+  ordering never mixes client and server time.
+*/
+
+CREATE TABLE IF NOT EXISTS lead_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL,
+  scope text NOT NULL,
+  table_name text NOT NULL DEFAULT 'leads' CHECK (table_name IN ('leads', 'temp_leads')),
+  lead_id uuid NOT NULL,
+  field_key text,
+  action text NOT NULL CHECK (action IN ('update', 'insert', 'undo', 'redo')),
+  old_value text,
+  new_value text,
+  row_data jsonb,
+  actor text,
+  undone_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_changes_lead ON lead_changes(lead_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_changes_scope_actor ON lead_changes(scope, actor, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_changes_batch ON lead_changes(batch_id);
+
+CREATE OR REPLACE FUNCTION set_lead_change_batch_undone(batch uuid, undone boolean)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE lead_changes
+  SET undone_at = CASE WHEN undone THEN now() ELSE NULL END
+  WHERE batch_id = batch;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_lead_change_batch_undone(uuid, boolean) TO anon, authenticated;
+
+ALTER TABLE lead_changes DISABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'lead_changes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE lead_changes;
+  END IF;
+END $$;
@@ -0,0 +1,350 @@
+/*
+  # User accounts, roles and row level security
+
+  ## Overview
+  Replaces the shared team password with per-user Supabase Auth logins. Every
+  user gets a profile with a role, and RLS is turned back on for all CRM tables.
+
+  ## Roles
+  - `admin`  - everything, plus adding columns, deleting outreach methods and managing roles
+  - `rep`    - read and edit leads, temp leads, notes, activity, stages and channels
+  - `viewer` - read-only
+  - `pending` - signed up but not approved yet; sees nothing but their own profile
+
+  ## New Tables
+
+  ### `profiles`
+  - `id` (uuid, primary key) - references auth.users.id
+  - `email` (text)
+  - `full_name` (text, nullable)
+  - `role` (text) - admin, rep, viewer or pending
+  - `created_at` / `updated_at` (timestamptz)
+
+  ## New Functions
+  - `current_user_role()` - role of the signed-in user, null when signed out
+  - `is_admin()` / `can_edit()` / `is_member()` - role checks used by the policies below
+  - `handle_new_user()` - creates a profile on sign-up; the very first user becomes admin,
+    everyone after that is pending until an admin gives them a role
+
+  ## Security
+  1. RLS enabled on leads, temp_leads, lead_fields, outreach_methods, outreach_events,
+     pipeline_stages, lead_outreach_methods, grid_views, lead_changes, cell_notes and profiles
+  2. Approved users (admin, rep, viewer) can read; admins and reps can write. Pending
+     accounts can't read any CRM data, so open sign-up doesn't expose the leads
+  3. Only admins can delete outreach methods, change lead fields or add columns through
+     `add_lead_column` (calls for columns that already exist still succeed for editors)
+  4. Saved views are only visible to their owner unless shared
+  5. The anon role loses access to `add_lead_column` and `set_lead_change_batch_undone`
+
+  ## Important Notes
+  1. Accounts that already exist get a profile too: the earliest one becomes admin and the
+     rest are pending, so someone can approve the team
+  2. Saved views owned by the old shared-password sessions can never match an account, so
+     they move to the admin and are shared with the team (a name the admin already uses gets
+     a number; without any account yet they are just shared)
+  3. Change history recorded under those sessions keeps its old actor ids
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  full_name text,
+  role text NOT NULL DEFAULT 'pending' CHECK (role IN ('admin', 'rep', 'viewer', 'pending')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON profiles;
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, email, full_name, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'full_name',
+    CASE WHEN EXISTS (SELECT 1 FROM profiles) THEN 'pending' ELSE 'admin' END
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- Profiles for accounts that already exist; the earliest one becomes admin unless there already is one
+INSERT INTO profiles (id, email, full_name)
+SELECT id, email, raw_user_meta_data->>'full_name' FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE profiles
+SET role = 'admin'
+WHERE id = (SELECT id FROM auth.users ORDER BY created_at, id LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM profiles WHERE role = 'admin');
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(current_user_role() = 'admin', false);
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(current_user_role() IN ('admin', 'rep'), false);
+$$;
+
+-- Approved users; pending accounts fail every read policy
+CREATE OR REPLACE FUNCTION is_member()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(current_user_role() IN ('admin', 'rep', 'viewer'), false);
+$$;
+
+-- Admin-only column creation
+DROP FUNCTION IF EXISTS add_lead_column(text, text);
+CREATE FUNCTION add_lead_column(column_name text, column_type text DEFAULT 'text')
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Grids and imports call this for every custom field; existing columns are a no-op for everyone
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'leads' AND information_schema.columns.column_name = add_lead_column.column_name
+  ) THEN
+    RETURN true;
+  END IF;
+
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can add columns';
+  END IF;
+
+  IF column_name !~ '^[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Invalid column name. Use only lowercase letters, numbers, and underscores.';
+  END IF;
+
+  IF column_type NOT IN ('text', 'integer', 'boolean', 'timestamptz', 'jsonb') THEN
+    column_type := 'text';
+  END IF;
+
+  EXECUTE format('ALTER TABLE leads ADD COLUMN IF NOT EXISTS %I %s', column_name, column_type);
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION add_lead_column(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_lead_column(text, text) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION set_lead_change_batch_undone(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_lead_change_batch_undone(uuid, boolean) TO authenticated;
+
+-- Old "any authenticated user can do anything" policies
+DROP POLICY IF EXISTS "Authenticated users can view leads" ON leads;
+DROP POLICY IF EXISTS "Authenticated users can insert leads" ON leads;
+DROP POLICY IF EXISTS "Authenticated users can update leads" ON leads;
+DROP POLICY IF EXISTS "Authenticated users can delete leads" ON leads;
+DROP POLICY IF EXISTS "Authenticated users can view outreach events" ON outreach_events;
+DROP POLICY IF EXISTS "Authenticated users can insert outreach events" ON outreach_events;
+DROP POLICY IF EXISTS "Authenticated users can update outreach events" ON outreach_events;
+DROP POLICY IF EXISTS "Authenticated users can delete outreach events" ON outreach_events;
+DROP POLICY IF EXISTS "Authenticated users can view lead fields" ON lead_fields;
+DROP POLICY IF EXISTS "Authenticated users can insert lead fields" ON lead_fields;
+DROP POLICY IF EXISTS "Authenticated users can update lead fields" ON lead_fields;
+DROP POLICY IF EXISTS "Authenticated users can delete lead fields" ON lead_fields;
+
+-- Team tables: approved users read, admins and reps write
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'leads', 'temp_leads', 'outreach_events', 'pipeline_stages', 'lead_outreach_methods', 'cell_notes'
+  ]
+  LOOP
+    IF to_regclass('public.' || t) IS NULL THEN
+      CONTINUE;
+    END IF;
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Team can view %s" ON %I', t, t);
+    EXECUTE format('CREATE POLICY "Team can view %s" ON %I FOR SELECT TO authenticated USING (is_member())', t, t);
+    EXECUTE format('DROP POLICY IF EXISTS "Editors can insert %s" ON %I', t, t);
+    EXECUTE format('CREATE POLICY "Editors can insert %s" ON %I FOR INSERT TO authenticated WITH CHECK (can_edit())', t, t);
+    EXECUTE format('DROP POLICY IF EXISTS "Editors can update %s" ON %I', t, t);
+    EXECUTE format('CREATE POLICY "Editors can update %s" ON %I FOR UPDATE TO authenticated USING (can_edit()) WITH CHECK (can_edit())', t, t);
+    EXECUTE format('DROP POLICY IF EXISTS "Editors can delete %s" ON %I', t, t);
+    EXECUTE format('CREATE POLICY "Editors can delete %s" ON %I FOR DELETE TO authenticated USING (can_edit())', t, t);
+  END LOOP;
+END $$;
+
+-- outreach_methods: reps can add and rename channels, only admins delete them
+ALTER TABLE outreach_methods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view outreach methods" ON outreach_methods;
+CREATE POLICY "Team can view outreach methods"
+  ON outreach_methods FOR SELECT
+  TO authenticated
+  USING (is_member());
+
+DROP POLICY IF EXISTS "Editors can insert outreach methods" ON outreach_methods;
+CREATE POLICY "Editors can insert outreach methods"
+  ON outreach_methods FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit());
+
+DROP POLICY IF EXISTS "Editors can update outreach methods" ON outreach_methods;
+CREATE POLICY "Editors can update outreach methods"
+  ON outreach_methods FOR UPDATE
+  TO authenticated
+  USING (can_edit())
+  WITH CHECK (can_edit());
+
+DROP POLICY IF EXISTS "Admins can delete outreach methods" ON outreach_methods;
+CREATE POLICY "Admins can delete outreach methods"
+  ON outreach_methods FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- lead_fields: columns are schema, so only admins change them
+ALTER TABLE lead_fields ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view lead fields" ON lead_fields;
+CREATE POLICY "Team can view lead fields"
+  ON lead_fields FOR SELECT
+  TO authenticated
+  USING (is_member());
+
+DROP POLICY IF EXISTS "Admins can manage lead fields" ON lead_fields;
+CREATE POLICY "Admins can manage lead fields"
+  ON lead_fields FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- grid_views: private to the owner unless shared. Views whose owner has no account go
+-- to the first admin, numbered where the admin already has a view with that name.
+DO $$
+DECLARE
+  admin_id text := (SELECT id::text FROM profiles WHERE role = 'admin' ORDER BY created_at, id LIMIT 1);
+  orphan record;
+  candidate text;
+  n integer;
+BEGIN
+  IF admin_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOR orphan IN
+    SELECT id, scope, name FROM grid_views
+    WHERE owner_id NOT IN (SELECT id::text FROM profiles)
+    ORDER BY created_at, id
+  LOOP
+    candidate := orphan.name;
+    n := 1;
+    WHILE EXISTS (
+      SELECT 1 FROM grid_views WHERE scope = orphan.scope AND owner_id = admin_id AND name = candidate
+    ) LOOP
+      n := n + 1;
+      candidate := orphan.name || ' (' || n || ')';
+    END LOOP;
+
+    UPDATE grid_views SET owner_id = admin_id, shared = true, name = candidate WHERE id = orphan.id;
+  END LOOP;
+END $$;
+
+-- No accounts yet: keep them visible to whoever signs up
+UPDATE grid_views SET shared = true WHERE owner_id NOT IN (SELECT id::text FROM profiles);
+
+ALTER TABLE grid_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own or shared views" ON grid_views;
+CREATE POLICY "Users can view own or shared views"
+  ON grid_views FOR SELECT
+  TO authenticated
+  USING (is_member() AND (shared OR owner_id = auth.uid()::text));
+
+DROP POLICY IF EXISTS "Users can manage own views" ON grid_views;
+CREATE POLICY "Users can manage own views"
+  ON grid_views FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid()::text)
+  WITH CHECK (owner_id = auth.uid()::text);
+
+-- lead_changes: readable by the team, written by editors as themselves
+ALTER TABLE lead_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view lead changes" ON lead_changes;
+CREATE POLICY "Team can view lead changes"
+  ON lead_changes FOR SELECT
+  TO authenticated
+  USING (is_member());
+
+DROP POLICY IF EXISTS "Editors can record own changes" ON lead_changes;
+CREATE POLICY "Editors can record own changes"
+  ON lead_changes FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit() AND actor = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Editors can undo own changes" ON lead_changes;
+CREATE POLICY "Editors can undo own changes"
+  ON lead_changes FOR UPDATE
+  TO authenticated
+  USING (can_edit() AND actor = auth.uid()::text)
+  WITH CHECK (can_edit() AND actor = auth.uid()::text);
+
+-- profiles: the team sees each other, pending accounts only see themselves; admins manage roles
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view profiles" ON profiles;
+CREATE POLICY "Team can view profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (is_member() OR id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can update profiles" ON profiles;
+CREATE POLICY "Admins can update profiles"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'profiles'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE profiles;
+  END IF;
+END $$;
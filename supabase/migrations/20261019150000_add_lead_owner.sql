@@ -0,0 +1,21 @@
+/*
+  # Lead ownership
+
+  ## Overview
+  Each lead can be assigned to a rep. The owner shows as a dropdown column in
+  every grid and drives the "My leads" quick filter.
+
+  ## Changes
+  - `owner_id` (uuid, nullable) on leads and temp_leads, references profiles.id;
+    cleared when the user is removed
+  - Registers `owner_id` as a select field labelled "Owner"
+*/
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE temp_leads ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_owner_id ON leads(owner_id);
+
+INSERT INTO lead_fields (field_key, label, type)
+VALUES ('owner_id', 'Owner', 'select')
+ON CONFLICT (field_key) DO NOTHING;
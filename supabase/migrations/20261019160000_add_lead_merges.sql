@@ -0,0 +1,294 @@
+/*
+  # Merge duplicate leads
+
+  ## Overview
+  Master can now merge a group of duplicate leads into one surviving lead. The
+  surviving lead takes the field values picked during review, inherits the other
+  leads' outreach events, channel memberships and cell notes, and the other leads
+  are deleted. Every merge keeps a snapshot so it can be undone and redone.
+
+  ## New Tables
+
+  ### `lead_merges`
+  - `id` (uuid, primary key)
+  - `survivor_id` (uuid) - lead that is kept; no foreign key so undo still works after edits
+  - `loser_ids` (uuid[]) - leads merged into it and deleted
+  - `field_values` (jsonb) - values written onto the survivor, keyed by column
+  - `survivor_row` (jsonb) - the survivor as it was before the merge
+  - `loser_rows` (jsonb) - full rows of the deleted leads
+  - `memberships` (jsonb) - channel memberships of all merged leads before the merge
+  - `events` (jsonb) - `{id, lead_id}` of every outreach event moved to the survivor
+  - `notes` (jsonb) - cell notes of all merged leads before the merge
+  - `merged_by` (uuid) - user who ran the merge
+  - `undone_at` (timestamptz, nullable) - set while the merge is undone
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `merge_leads(survivor uuid, losers uuid[], field_values jsonb)` records and applies a merge, returns its id
+  - `apply_lead_merge(merge uuid)` (re)applies a recorded merge; used for redo
+  - `undo_lead_merge(merge uuid)` restores the deleted leads and moves everything back; survivor
+    fields edited since the merge keep their new value, as do channels the merge added that have a
+    newer status; their count is returned
+
+  ## Changes
+  - `lead_changes.action` also accepts `merge`, so merges sit in the undo history
+
+  ## Security
+  - Functions run as the caller, so the usual lead policies apply; only admins and reps can merge
+  - Approved users can read merges; admins and reps can write them
+*/
+
+CREATE TABLE IF NOT EXISTS lead_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id uuid NOT NULL,
+  loser_ids uuid[] NOT NULL,
+  field_values jsonb NOT NULL DEFAULT '{}'::jsonb,
+  survivor_row jsonb,
+  loser_rows jsonb,
+  memberships jsonb,
+  events jsonb,
+  notes jsonb,
+  merged_by uuid DEFAULT auth.uid(),
+  undone_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_merges_survivor ON lead_merges(survivor_id);
+
+ALTER TABLE lead_changes DROP CONSTRAINT IF EXISTS lead_changes_action_check;
+ALTER TABLE lead_changes
+  ADD CONSTRAINT lead_changes_action_check CHECK (action IN ('update', 'insert', 'undo', 'redo', 'merge'));
+
+-- Overwrite `target` lead's columns with those present in `row_values`
+CREATE OR REPLACE FUNCTION set_lead_columns(target uuid, row_values jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  set_list text;
+BEGIN
+  SELECT string_agg(format('%1$I = (s.r).%1$I', key), ', ')
+  INTO set_list
+  FROM jsonb_object_keys(row_values) AS key
+  WHERE key NOT IN ('id', 'created_at')
+    AND key IN (
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'leads'
+    );
+
+  IF set_list IS NULL THEN
+    RETURN;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE leads l SET %s FROM (SELECT jsonb_populate_record(c, $1) AS r FROM leads c WHERE c.id = $2) s WHERE l.id = $2',
+    set_list
+  ) USING row_values, target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_lead_merge(merge uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  m lead_merges%ROWTYPE;
+  all_ids uuid[];
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only admins and reps can merge leads';
+  END IF;
+
+  SELECT * INTO m FROM lead_merges WHERE id = merge FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % not found', merge;
+  END IF;
+
+  all_ids := m.survivor_id || m.loser_ids;
+  IF (SELECT count(*) FROM leads WHERE id = ANY(all_ids)) <> cardinality(all_ids) THEN
+    RAISE EXCEPTION 'Some of these leads no longer exist';
+  END IF;
+
+  UPDATE lead_merges SET
+    survivor_row = (SELECT to_jsonb(l) FROM leads l WHERE l.id = m.survivor_id),
+    loser_rows = (SELECT jsonb_agg(to_jsonb(l)) FROM leads l WHERE l.id = ANY(m.loser_ids)),
+    memberships = (
+      SELECT coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb)
+      FROM lead_outreach_methods o WHERE o.lead_id = ANY(all_ids)
+    ),
+    events = (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('id', e.id, 'lead_id', e.lead_id)), '[]'::jsonb)
+      FROM outreach_events e WHERE e.lead_id = ANY(m.loser_ids)
+    ),
+    notes = '[]'::jsonb,
+    undone_at = NULL
+  WHERE id = merge;
+
+  PERFORM set_lead_columns(m.survivor_id, m.field_values);
+
+  INSERT INTO lead_outreach_methods (lead_id, method, status)
+  SELECT m.survivor_id, method, status
+  FROM lead_outreach_methods
+  WHERE lead_id = ANY(m.loser_ids)
+  ON CONFLICT (lead_id, method) DO NOTHING;
+
+  UPDATE outreach_events SET lead_id = m.survivor_id WHERE lead_id = ANY(m.loser_ids);
+
+  IF to_regclass('public.cell_notes') IS NOT NULL THEN
+    UPDATE lead_merges SET notes = (
+      SELECT coalesce(jsonb_agg(to_jsonb(n)), '[]'::jsonb)
+      FROM cell_notes n WHERE n.lead_id = ANY(all_ids)
+    )
+    WHERE id = merge;
+
+    -- Notes on the same cell are combined, survivor's first
+    UPDATE cell_notes s
+    SET note = s.note || E'\n\n' || l.note
+    FROM (
+      SELECT field_key, string_agg(note, E'\n\n') AS note
+      FROM cell_notes
+      WHERE lead_id = ANY(m.loser_ids)
+      GROUP BY field_key
+    ) l
+    WHERE s.lead_id = m.survivor_id AND s.field_key = l.field_key;
+
+    INSERT INTO cell_notes (lead_id, field_key, note)
+    SELECT m.survivor_id, field_key, string_agg(note, E'\n\n')
+    FROM cell_notes
+    WHERE lead_id = ANY(m.loser_ids)
+    GROUP BY field_key
+    ON CONFLICT (lead_id, field_key) DO NOTHING;
+
+    DELETE FROM cell_notes WHERE lead_id = ANY(m.loser_ids);
+  END IF;
+
+  DELETE FROM leads WHERE id = ANY(m.loser_ids);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_leads(survivor uuid, losers uuid[], field_values jsonb DEFAULT '{}'::jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  merge_id uuid;
+BEGIN
+  IF cardinality(losers) = 0 OR survivor = ANY(losers) THEN
+    RAISE EXCEPTION 'Pick one lead to keep and at least one other lead to merge into it';
+  END IF;
+
+  INSERT INTO lead_merges (survivor_id, loser_ids, field_values)
+  VALUES (survivor, losers, coalesce(field_values, '{}'::jsonb))
+  RETURNING id INTO merge_id;
+
+  PERFORM apply_lead_merge(merge_id);
+  RETURN merge_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION undo_lead_merge(merge uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  m lead_merges%ROWTYPE;
+  all_ids uuid[];
+  restore jsonb;
+  skipped integer;
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only admins and reps can undo merges';
+  END IF;
+
+  SELECT * INTO m FROM lead_merges WHERE id = merge FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % not found', merge;
+  END IF;
+  IF m.undone_at IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  all_ids := m.survivor_id || m.loser_ids;
+
+  INSERT INTO leads
+  SELECT * FROM jsonb_populate_recordset(NULL::leads, m.loser_rows)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- Only fields the merge changed go back, and only where they still hold the merged value;
+  -- anything edited since is left alone and counted as skipped
+  SELECT
+    coalesce(jsonb_object_agg(f.key, m.survivor_row->f.key) FILTER (WHERE f.untouched), '{}'::jsonb),
+    count(*) FILTER (WHERE NOT f.untouched)
+  INTO restore, skipped
+  FROM (
+    SELECT v.key, coalesce(to_jsonb(l)->>v.key, '') = coalesce(v.value #>> '{}', '') AS untouched
+    FROM leads l, jsonb_each(m.field_values) v
+    WHERE l.id = m.survivor_id
+      AND to_jsonb(l) ? v.key
+      AND coalesce(m.survivor_row->>v.key, '') <> coalesce(v.value #>> '{}', '')
+  ) f;
+
+  PERFORM set_lead_columns(m.survivor_id, restore);
+
+  UPDATE outreach_events e
+  SET lead_id = (moved->>'lead_id')::uuid
+  FROM jsonb_array_elements(m.events) AS moved
+  WHERE e.id = (moved->>'id')::uuid;
+
+  -- Restoring rows fires the primary-channel trigger, so reset the restored leads' memberships last
+  DELETE FROM lead_outreach_methods WHERE lead_id = ANY(m.loser_ids);
+  INSERT INTO lead_outreach_methods
+  SELECT * FROM jsonb_populate_recordset(NULL::lead_outreach_methods, m.memberships) s
+  WHERE s.lead_id = ANY(m.loser_ids)
+  ON CONFLICT (lead_id, method) DO NOTHING;
+
+  -- The survivor only loses channels the merge gave it, and only while their status is still
+  -- the one they came with; a status set since keeps the channel and counts as skipped. Its
+  -- primary channel and channels added after the merge stay.
+  WITH snapshot AS (
+    SELECT * FROM jsonb_populate_recordset(NULL::lead_outreach_methods, m.memberships)
+  ),
+  added AS (
+    SELECT o.method, bool_or(o.status IS NULL OR o.status IS NOT DISTINCT FROM s.status) AS untouched
+    FROM lead_outreach_methods o
+    JOIN snapshot s ON s.method = o.method AND s.lead_id = ANY(m.loser_ids)
+    WHERE o.lead_id = m.survivor_id
+      AND o.method IS DISTINCT FROM (SELECT outreach_method FROM leads WHERE id = m.survivor_id)
+      AND NOT EXISTS (SELECT 1 FROM snapshot k WHERE k.lead_id = m.survivor_id AND k.method = o.method)
+    GROUP BY o.method
+  ),
+  removed AS (
+    DELETE FROM lead_outreach_methods o
+    USING added a
+    WHERE o.lead_id = m.survivor_id AND o.method = a.method AND a.untouched
+  )
+  SELECT skipped + count(*) FILTER (WHERE NOT a.untouched) INTO skipped FROM added a;
+
+  IF to_regclass('public.cell_notes') IS NOT NULL THEN
+    DELETE FROM cell_notes WHERE lead_id = ANY(all_ids);
+    INSERT INTO cell_notes
+    SELECT * FROM jsonb_populate_recordset(NULL::cell_notes, m.notes);
+  END IF;
+
+  UPDATE lead_merges SET undone_at = now() WHERE id = merge;
+  RETURN skipped;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_lead_columns(uuid, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION apply_lead_merge(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION merge_leads(uuid, uuid[], jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION undo_lead_merge(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_lead_columns(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_lead_merge(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_leads(uuid, uuid[], jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_lead_merge(uuid) TO authenticated;
+
+ALTER TABLE lead_merges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view lead_merges" ON lead_merges;
+CREATE POLICY "Team can view lead_merges" ON lead_merges FOR SELECT TO authenticated USING (is_member());
+DROP POLICY IF EXISTS "Editors can insert lead_merges" ON lead_merges;
+CREATE POLICY "Editors can insert lead_merges" ON lead_merges FOR INSERT TO authenticated WITH CHECK (can_edit());
+DROP POLICY IF EXISTS "Editors can update lead_merges" ON lead_merges;
+CREATE POLICY "Editors can update lead_merges" ON lead_merges FOR UPDATE TO authenticated USING (can_edit()) WITH CHECK (can_edit());
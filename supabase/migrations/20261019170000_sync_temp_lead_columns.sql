@@ -0,0 +1,70 @@
+/*
+  # Keep temp_leads columns in step with leads
+
+  ## Overview
+  File and paste imports now land in `temp_leads` first, with any custom lead
+  fields they mapped. `add_lead_column` only ever added columns to `leads`, so
+  those inserts failed for custom fields.
+
+  ## Changes
+  1. Every column that exists on `leads` but not on `temp_leads` is added to `temp_leads`
+     with the same type (no defaults or constraints)
+  2. `add_lead_column` adds new columns to both tables; calls for columns that already
+     exist on both are still a no-op for any editor
+*/
+
+DO $$
+DECLARE
+  col record;
+BEGIN
+  FOR col IN
+    SELECT a.attname, format_type(a.atttypid, a.atttypmod) AS coltype
+    FROM pg_attribute a
+    WHERE a.attrelid = 'public.leads'::regclass
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_attribute t
+        WHERE t.attrelid = 'public.temp_leads'::regclass
+          AND t.attname = a.attname
+          AND NOT t.attisdropped
+      )
+  LOOP
+    EXECUTE format('ALTER TABLE temp_leads ADD COLUMN IF NOT EXISTS %I %s', col.attname, col.coltype);
+  END LOOP;
+END $$;
+
+CREATE OR REPLACE FUNCTION add_lead_column(column_name text, column_type text DEFAULT 'text')
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Grids and imports call this for every custom field; existing columns are a no-op for everyone
+  IF (
+    SELECT count(DISTINCT table_name) FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name IN ('leads', 'temp_leads')
+      AND information_schema.columns.column_name = add_lead_column.column_name
+  ) = 2 THEN
+    RETURN true;
+  END IF;
+
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can add columns';
+  END IF;
+
+  IF column_name !~ '^[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Invalid column name. Use only lowercase letters, numbers, and underscores.';
+  END IF;
+
+  IF column_type NOT IN ('text', 'integer', 'boolean', 'timestamptz', 'jsonb') THEN
+    column_type := 'text';
+  END IF;
+
+  EXECUTE format('ALTER TABLE leads ADD COLUMN IF NOT EXISTS %I %s', column_name, column_type);
+  EXECUTE format('ALTER TABLE temp_leads ADD COLUMN IF NOT EXISTS %I %s', column_name, column_type);
+  RETURN true;
+END;
+$$;
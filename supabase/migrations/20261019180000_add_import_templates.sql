@@ -0,0 +1,72 @@
+/*
+  # Column-mapping templates for file imports
+
+  ## Overview
+  The same exports (Apollo, Sales Navigator, Google Maps scrapers...) are imported
+  every week. A header → field mapping can now be saved as a named template; when a
+  file with the same headers is uploaded the template is applied automatically.
+
+  ## New Tables
+
+  ### `import_templates`
+  - `id` (uuid, primary key)
+  - `name` (text) - template name shown in the import mapping step
+  - `owner_id` (uuid) - user who saved the template, references profiles.id
+  - `shared` (boolean) - when true every teammate can use the template
+  - `headers` (text[]) - the file's headers, trimmed and lowercased
+  - `signature` (text) - sorted, de-duplicated `headers` joined with `|`, used to recognize files
+  - `mapping` (jsonb) - normalized header → lead field key; skipped headers are left out
+  - `created_at` / `updated_at` (timestamptz)
+
+  ## Security
+  - Templates are private to their owner unless shared; only the owner can change or delete them
+
+  ## Important Notes
+  1. Names are unique per owner; saving again with the same name overwrites
+*/
+
+CREATE TABLE IF NOT EXISTS import_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  owner_id uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  shared boolean NOT NULL DEFAULT false,
+  headers text[] NOT NULL DEFAULT '{}',
+  signature text NOT NULL,
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (owner_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_templates_signature ON import_templates(signature);
+
+DROP TRIGGER IF EXISTS update_import_templates_updated_at ON import_templates;
+CREATE TRIGGER update_import_templates_updated_at
+  BEFORE UPDATE ON import_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE import_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own or shared import templates" ON import_templates;
+CREATE POLICY "Users can view own or shared import templates"
+  ON import_templates FOR SELECT
+  TO authenticated
+  USING (is_member() AND (shared OR owner_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Users can manage own import templates" ON import_templates;
+CREATE POLICY "Users can manage own import templates"
+  ON import_templates FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'import_templates'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE import_templates;
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+/*
+  # Import value transforms in templates
+
+  ## Overview
+  The import mapping step can now reshape values on the way in: per-column
+  transforms (title case, phone normalization, email domain → website, splitting a
+  full name), several columns joined into one field, and default values for fields
+  left empty. Templates keep these settings alongside the column mapping.
+
+  ## Changes
+  - `import_templates.options` (jsonb) - `{ transforms, splitTargets, extras, separators, defaults }`
+    with columns keyed by normalized header
+*/
+
+ALTER TABLE import_templates ADD COLUMN IF NOT EXISTS options jsonb NOT NULL DEFAULT '{}'::jsonb;
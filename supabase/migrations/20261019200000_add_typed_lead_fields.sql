@@ -0,0 +1,94 @@
+/*
+  # Typed custom lead fields
+
+  ## Overview
+  Custom fields could be declared as text, phone, url or email, but every column was
+  created as `text`. Fields can now also be number, currency, date, checkbox,
+  single-select or multi-select, and get a column of the matching type.
+
+  ## New Tables
+
+  ### `lead_field_options`
+  - `field_key` (text) - the select field, references lead_fields.field_key
+  - `key` (text) - value stored on leads for this option
+  - `label` (text) - display label, can be renamed without touching leads
+  - `position` (integer) - display order
+  - `created_at` (timestamptz)
+
+  ## Changes
+  1. `add_lead_column` also accepts `numeric`, `numeric(14,2)` (currency) and `date`
+  2. Checkbox fields use `boolean` columns, select fields `text`; multi-select values are
+     stored as comma-joined option keys, like a lead's outreach channels in the grids
+
+  ## Security
+  - Everyone on the team reads options; admins and reps manage them (like pipeline stages)
+*/
+
+CREATE TABLE IF NOT EXISTS lead_field_options (
+  field_key text NOT NULL REFERENCES lead_fields(field_key) ON DELETE CASCADE,
+  key text NOT NULL,
+  label text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (field_key, key)
+);
+
+ALTER TABLE lead_field_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view lead field options" ON lead_field_options;
+CREATE POLICY "Team can view lead field options"
+  ON lead_field_options FOR SELECT
+  TO authenticated
+  USING (is_member());
+
+DROP POLICY IF EXISTS "Editors can manage lead field options" ON lead_field_options;
+CREATE POLICY "Editors can manage lead field options"
+  ON lead_field_options FOR ALL
+  TO authenticated
+  USING (can_edit())
+  WITH CHECK (can_edit());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'lead_field_options'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE lead_field_options;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION add_lead_column(column_name text, column_type text DEFAULT 'text')
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Grids and imports call this for every custom field; existing columns are a no-op for everyone
+  IF (
+    SELECT count(DISTINCT table_name) FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name IN ('leads', 'temp_leads')
+      AND information_schema.columns.column_name = add_lead_column.column_name
+  ) = 2 THEN
+    RETURN true;
+  END IF;
+
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can add columns';
+  END IF;
+
+  IF column_name !~ '^[a-z][a-z0-9_]*$' THEN
+    RAISE EXCEPTION 'Invalid column name. Use only lowercase letters, numbers, and underscores.';
+  END IF;
+
+  IF column_type NOT IN ('text', 'integer', 'numeric', 'numeric(14,2)', 'boolean', 'date', 'timestamptz', 'jsonb') THEN
+    column_type := 'text';
+  END IF;
+
+  EXECUTE format('ALTER TABLE leads ADD COLUMN IF NOT EXISTS %I %s', column_name, column_type);
+  EXECUTE format('ALTER TABLE temp_leads ADD COLUMN IF NOT EXISTS %I %s', column_name, column_type);
+  RETURN true;
+END;
+$$;
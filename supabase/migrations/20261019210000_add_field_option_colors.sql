@@ -0,0 +1,14 @@
+/*
+  # Colors for select field options
+
+  ## Overview
+  Custom select fields (Industry, Lead Source, Timezone...) keep their option lists in
+  `lead_field_options`. Options can now be given a color, shown as a colored tag in the
+  grids, and are reordered and renamed from the Dropdowns manager.
+
+  ## Changes
+  1. `lead_field_options.color` (text, nullable) - palette name such as `blue` or `green`;
+     null shows the option as plain text
+*/
+
+ALTER TABLE lead_field_options ADD COLUMN IF NOT EXISTS color text;
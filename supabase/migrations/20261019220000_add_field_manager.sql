@@ -0,0 +1,268 @@
+/*
+  # Field Manager: order, retype and delete custom fields
+
+  ## Overview
+  Custom fields could only be added. Admins can now rename them, set the default
+  column order for every tab, change a field's type and delete it. Type changes and
+  deletes keep a snapshot of the field, its options and every value on leads and
+  temp_leads, so either can be reverted from the Field Manager.
+
+  ## Changes
+  1. `lead_fields.position` (integer, nullable) - default column order; tabs without a
+     saved layout show fields in this order, newer fields (null) go last
+
+  ## New Tables
+
+  ### `lead_field_snapshots`
+  - `id` (uuid, primary key)
+  - `action` (text) - `delete` or `retype`
+  - `field_key` (text)
+  - `field` (jsonb) - the lead_fields row before the change
+  - `options` (jsonb) - the field's lead_field_options rows before the change
+  - `column_type` (text) - column type before the change, e.g. `text` or `numeric`
+  - `lead_values` / `temp_values` (jsonb) - lead id → value, non-null values only
+  - `created_by` (uuid) - admin who made the change
+  - `restored_at` (timestamptz, nullable) - set once the snapshot has been restored
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `retype_lead_field(target_key, new_type, column_type, lead_values, temp_values)` snapshots
+    the field, changes both columns to `column_type` and writes the converted values the
+    client previewed (values left out become null); returns the snapshot id
+  - `delete_lead_field(target_key)` snapshots the field, drops both columns and its definition
+  - `restore_lead_field(snapshot)` puts a deleted field back, or reverts a type change
+    (including the dropdown options it had)
+
+  ## Security
+  - Admins only; built-in fields (name, email, phone, website, outreach method, pipeline
+    status, owner, date added) cannot be retyped or deleted
+  - Functions run as the table owner (like `add_lead_column`) because they alter columns
+*/
+
+ALTER TABLE lead_fields ADD COLUMN IF NOT EXISTS position integer;
+
+CREATE TABLE IF NOT EXISTS lead_field_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  action text NOT NULL CHECK (action IN ('delete', 'retype')),
+  field_key text NOT NULL,
+  field jsonb NOT NULL,
+  options jsonb NOT NULL DEFAULT '[]'::jsonb,
+  column_type text NOT NULL,
+  lead_values jsonb NOT NULL DEFAULT '{}'::jsonb,
+  temp_values jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid DEFAULT auth.uid(),
+  restored_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE lead_field_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view field snapshots" ON lead_field_snapshots;
+CREATE POLICY "Admins can view field snapshots"
+  ON lead_field_snapshots FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION guard_lead_field_change(target_key text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change fields';
+  END IF;
+
+  IF target_key IN ('name', 'email', 'phone', 'website', 'outreach_method', 'pipeline_status', 'owner_id', 'date_added') THEN
+    RAISE EXCEPTION '% is a built-in field and cannot be changed this way', target_key;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM lead_fields WHERE field_key = target_key) THEN
+    RAISE EXCEPTION 'Field % not found', target_key;
+  END IF;
+END;
+$$;
+
+-- Snapshot `target_key` (definition, options, column type and values) and return its id
+CREATE OR REPLACE FUNCTION snapshot_lead_field(target_key text, snapshot_action text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  snapshot_id uuid;
+  col_type text;
+  lead_vals jsonb;
+  temp_vals jsonb;
+BEGIN
+  SELECT format_type(atttypid, atttypmod) INTO col_type
+  FROM pg_attribute
+  WHERE attrelid = 'public.leads'::regclass AND attname = target_key AND NOT attisdropped;
+
+  IF col_type IS NULL THEN
+    col_type := 'text';
+  ELSE
+    EXECUTE format(
+      'SELECT coalesce(jsonb_object_agg(id, to_jsonb(%1$I)), ''{}''::jsonb) FROM leads WHERE %1$I IS NOT NULL',
+      target_key
+    ) INTO lead_vals;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_attribute
+    WHERE attrelid = 'public.temp_leads'::regclass AND attname = target_key AND NOT attisdropped
+  ) THEN
+    EXECUTE format(
+      'SELECT coalesce(jsonb_object_agg(id, to_jsonb(%1$I)), ''{}''::jsonb) FROM temp_leads WHERE %1$I IS NOT NULL',
+      target_key
+    ) INTO temp_vals;
+  END IF;
+
+  INSERT INTO lead_field_snapshots (action, field_key, field, options, column_type, lead_values, temp_values)
+  SELECT
+    snapshot_action,
+    target_key,
+    to_jsonb(f),
+    coalesce((SELECT jsonb_agg(to_jsonb(o)) FROM lead_field_options o WHERE o.field_key = target_key), '[]'::jsonb),
+    col_type,
+    coalesce(lead_vals, '{}'::jsonb),
+    coalesce(temp_vals, '{}'::jsonb)
+  FROM lead_fields f
+  WHERE f.field_key = target_key
+  RETURNING id INTO snapshot_id;
+
+  RETURN snapshot_id;
+END;
+$$;
+
+-- Write id → value pairs from `vals` into `tbl`.`target_key` (cast to the column's type)
+CREATE OR REPLACE FUNCTION write_lead_field_values(tbl text, target_key text, col_type text, vals jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  EXECUTE format(
+    'UPDATE %1$I t SET %2$I = (v.value #>> ''{}'')::%3$s FROM jsonb_each($1) v
+     WHERE t.id = v.key::uuid AND jsonb_typeof(v.value) <> ''null''',
+    tbl, target_key, col_type
+  ) USING coalesce(vals, '{}'::jsonb);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION retype_lead_field(
+  target_key text,
+  new_type text,
+  column_type text,
+  lead_values jsonb DEFAULT '{}'::jsonb,
+  temp_values jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  snapshot_id uuid;
+BEGIN
+  PERFORM guard_lead_field_change(target_key);
+
+  IF column_type NOT IN ('text', 'numeric', 'numeric(14,2)', 'boolean', 'date') THEN
+    RAISE EXCEPTION 'Unsupported column type %', column_type;
+  END IF;
+
+  snapshot_id := snapshot_lead_field(target_key, 'retype');
+
+  -- Fields added before temp_leads mirrored custom columns may be missing there
+  EXECUTE format('ALTER TABLE temp_leads ADD COLUMN IF NOT EXISTS %I text', target_key);
+  EXECUTE format('ALTER TABLE leads ALTER COLUMN %1$I TYPE %2$s USING NULL::%2$s', target_key, column_type);
+  EXECUTE format('ALTER TABLE temp_leads ALTER COLUMN %1$I TYPE %2$s USING NULL::%2$s', target_key, column_type);
+  PERFORM write_lead_field_values('leads', target_key, column_type, lead_values);
+  PERFORM write_lead_field_values('temp_leads', target_key, column_type, temp_values);
+
+  UPDATE lead_fields SET type = new_type WHERE field_key = target_key;
+  IF new_type NOT IN ('select', 'multi_select') THEN
+    DELETE FROM lead_field_options WHERE field_key = target_key;
+  END IF;
+  RETURN snapshot_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_lead_field(target_key text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  snapshot_id uuid;
+BEGIN
+  PERFORM guard_lead_field_change(target_key);
+
+  snapshot_id := snapshot_lead_field(target_key, 'delete');
+
+  EXECUTE format('ALTER TABLE leads DROP COLUMN IF EXISTS %I', target_key);
+  EXECUTE format('ALTER TABLE temp_leads DROP COLUMN IF EXISTS %I', target_key);
+  DELETE FROM lead_fields WHERE field_key = target_key;
+  RETURN snapshot_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_lead_field(snapshot uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s lead_field_snapshots%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore fields';
+  END IF;
+
+  SELECT * INTO s FROM lead_field_snapshots WHERE id = snapshot;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot % not found', snapshot;
+  END IF;
+  IF s.restored_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This change has already been reverted';
+  END IF;
+
+  IF s.action = 'delete' THEN
+    IF EXISTS (SELECT 1 FROM lead_fields WHERE field_key = s.field_key) THEN
+      RAISE EXCEPTION 'A field named % exists again; delete or rename it first', s.field_key;
+    END IF;
+    EXECUTE format('ALTER TABLE leads ADD COLUMN IF NOT EXISTS %I %s', s.field_key, s.column_type);
+    EXECUTE format('ALTER TABLE temp_leads ADD COLUMN IF NOT EXISTS %I %s', s.field_key, s.column_type);
+    INSERT INTO lead_fields SELECT * FROM jsonb_populate_record(NULL::lead_fields, s.field);
+    INSERT INTO lead_field_options SELECT * FROM jsonb_populate_recordset(NULL::lead_field_options, s.options);
+  ELSE
+    IF NOT EXISTS (SELECT 1 FROM lead_fields WHERE field_key = s.field_key) THEN
+      RAISE EXCEPTION 'Field % has been deleted since; restore it first', s.field_key;
+    END IF;
+    EXECUTE format('ALTER TABLE leads ALTER COLUMN %1$I TYPE %2$s USING NULL::%2$s', s.field_key, s.column_type);
+    EXECUTE format('ALTER TABLE temp_leads ALTER COLUMN %1$I TYPE %2$s USING NULL::%2$s', s.field_key, s.column_type);
+    UPDATE lead_fields SET type = s.field ->> 'type' WHERE field_key = s.field_key;
+    DELETE FROM lead_field_options WHERE field_key = s.field_key;
+    INSERT INTO lead_field_options SELECT * FROM jsonb_populate_recordset(NULL::lead_field_options, s.options);
+  END IF;
+
+  PERFORM write_lead_field_values('leads', s.field_key, s.column_type, s.lead_values);
+  PERFORM write_lead_field_values('temp_leads', s.field_key, s.column_type, s.temp_values);
+  UPDATE lead_field_snapshots SET restored_at = now() WHERE id = snapshot;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION guard_lead_field_change(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION snapshot_lead_field(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION write_lead_field_values(text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION retype_lead_field(text, text, text, jsonb, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION delete_lead_field(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION restore_lead_field(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION retype_lead_field(text, text, text, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_lead_field(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_lead_field(uuid) TO authenticated;
@@ -0,0 +1,22 @@
+/*
+  # Required fields and validation rules
+
+  ## Overview
+  Admins can mark a lead field as required and give it rules. The app enforces them
+  when adding a lead, editing, pasting or filling grid cells and importing, and marks
+  existing cells that break them in the grids.
+
+  ## Changes
+  1. `lead_fields.required` (boolean, default false) - the field can't be left empty
+  2. `lead_fields.rules` (jsonb, default `{}`) - any of:
+     - `pattern` (text) - regular expression the value must match, `pattern_hint` explains it
+     - `min` / `max` (number) - bounds for number and currency fields, length for text fields
+     - `domains` (text[]) - allowed domains for email and URL fields, subdomains included
+     - `unique` (boolean) - no two leads in Master may share the value (case-insensitive)
+
+  ## Security
+  - Unchanged: admins manage lead fields, everyone on the team reads them
+*/
+
+ALTER TABLE lead_fields ADD COLUMN IF NOT EXISTS required boolean NOT NULL DEFAULT false;
+ALTER TABLE lead_fields ADD COLUMN IF NOT EXISTS rules jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,378 @@
+/*
+  # Threaded comments on leads and cells
+
+  ## Overview
+  Replaces `cell_notes` (one overwritable, unattributed note per cell) with comment
+  threads. Every lead has one thread for the lead as a whole and one per cell; each
+  comment records its author, when it was written and every edit, and can @mention
+  teammates. Threads can be resolved and reopened. Existing notes become the first
+  comment of their cell's thread.
+
+  ## New Tables
+
+  ### `lead_threads`
+  - `id` (uuid, primary key)
+  - `lead_id` (uuid) - references leads, deleted with the lead
+  - `field_key` (text, nullable) - commented cell; null for the thread about the whole lead
+  - `resolved_at` (timestamptz, nullable) / `resolved_by` (uuid, nullable) - set while resolved
+  - `created_at` (timestamptz)
+  - unique per lead and field (null counts as one value)
+
+  ### `lead_comments`
+  - `id` (uuid, primary key)
+  - `thread_id` (uuid) - references lead_threads, deleted with the thread
+  - `lead_id` (uuid) - the thread's lead, so a lead's comments can be followed in realtime
+  - `author` (uuid, nullable) - profile that wrote it; null for migrated notes
+  - `body` (text)
+  - `mentions` (uuid[]) - profiles @mentioned in the body
+  - `edits` (jsonb) - earlier versions, oldest first, as `{body, edited_at}`
+  - `edited_at` (timestamptz, nullable) - last edit
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `add_lead_comment(target_lead uuid, target_field text, body text, mentions uuid[])` adds a
+    comment to the lead's (or cell's) thread, creating or reopening the thread
+  - `record_lead_comment_edit()` trigger keeps the author fixed, only lets authors change the
+    text and saves the previous text to `edits`
+
+  ## Changes
+  - `apply_lead_merge` / `undo_lead_merge` move threads instead of notes: threads on the same
+    cell are combined into the surviving lead's, and undo moves every comment back to where
+    it was. `lead_merges.notes` now holds `{threads, comments}` as they were before the merge
+  - `cell_notes` is dropped after its rows are copied
+
+  ## Security
+  - Approved users read threads and comments; admins and reps add comments and resolve threads
+  - Comments are written under the caller's id; only the author edits a comment's text,
+    the author or an admin deletes it
+*/
+
+CREATE TABLE IF NOT EXISTS lead_threads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  field_key text,
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_threads_cell ON lead_threads(lead_id, (coalesce(field_key, '')));
+
+CREATE TABLE IF NOT EXISTS lead_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id uuid NOT NULL REFERENCES lead_threads(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL,
+  author uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body text NOT NULL,
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  edits jsonb NOT NULL DEFAULT '[]'::jsonb,
+  edited_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_comments_thread ON lead_comments(thread_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_lead_comments_lead ON lead_comments(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_comments_mentions ON lead_comments USING gin(mentions);
+
+CREATE OR REPLACE FUNCTION record_lead_comment_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.author := OLD.author;
+  NEW.created_at := OLD.created_at;
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    IF OLD.author IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the author can edit a comment';
+    END IF;
+    NEW.edits := OLD.edits || jsonb_build_object('body', OLD.body, 'edited_at', coalesce(OLD.edited_at, OLD.created_at));
+    NEW.edited_at := now();
+  ELSE
+    NEW.edits := OLD.edits;
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_lead_comment_edit ON lead_comments;
+CREATE TRIGGER record_lead_comment_edit
+  BEFORE UPDATE ON lead_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_lead_comment_edit();
+
+CREATE OR REPLACE FUNCTION add_lead_comment(
+  target_lead uuid,
+  target_field text,
+  body text,
+  mentions uuid[] DEFAULT '{}'
+)
+RETURNS lead_comments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  thread uuid;
+  added lead_comments%ROWTYPE;
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only admins and reps can comment';
+  END IF;
+  IF coalesce(trim(body), '') = '' THEN
+    RAISE EXCEPTION 'A comment can''t be empty';
+  END IF;
+
+  INSERT INTO lead_threads (lead_id, field_key)
+  VALUES (target_lead, nullif(target_field, ''))
+  ON CONFLICT (lead_id, (coalesce(field_key, ''))) DO UPDATE SET resolved_at = NULL, resolved_by = NULL
+  RETURNING id INTO thread;
+
+  INSERT INTO lead_comments (thread_id, lead_id, author, body, mentions)
+  VALUES (thread, target_lead, auth.uid(), trim(body), coalesce(mentions, '{}'))
+  RETURNING * INTO added;
+
+  RETURN added;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION add_lead_comment(uuid, text, text, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_lead_comment(uuid, text, text, uuid[]) TO authenticated;
+
+-- Existing notes become the first comment of their cell's thread
+DO $$
+BEGIN
+  IF to_regclass('public.cell_notes') IS NOT NULL THEN
+    INSERT INTO lead_threads (lead_id, field_key, created_at)
+    SELECT lead_id, field_key, created_at FROM cell_notes
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO lead_comments (thread_id, lead_id, author, body, created_at)
+    SELECT t.id, n.lead_id, NULL, n.note, coalesce(n.updated_at, n.created_at)
+    FROM cell_notes n
+    JOIN lead_threads t ON t.lead_id = n.lead_id AND t.field_key = n.field_key;
+
+    DROP TABLE cell_notes;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION apply_lead_merge(merge uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  m lead_merges%ROWTYPE;
+  all_ids uuid[];
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only admins and reps can merge leads';
+  END IF;
+
+  SELECT * INTO m FROM lead_merges WHERE id = merge FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % not found', merge;
+  END IF;
+
+  all_ids := m.survivor_id || m.loser_ids;
+  IF (SELECT count(*) FROM leads WHERE id = ANY(all_ids)) <> cardinality(all_ids) THEN
+    RAISE EXCEPTION 'Some of these leads no longer exist';
+  END IF;
+
+  UPDATE lead_merges SET
+    survivor_row = (SELECT to_jsonb(l) FROM leads l WHERE l.id = m.survivor_id),
+    loser_rows = (SELECT jsonb_agg(to_jsonb(l)) FROM leads l WHERE l.id = ANY(m.loser_ids)),
+    memberships = (
+      SELECT coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb)
+      FROM lead_outreach_methods o WHERE o.lead_id = ANY(all_ids)
+    ),
+    events = (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('id', e.id, 'lead_id', e.lead_id)), '[]'::jsonb)
+      FROM outreach_events e WHERE e.lead_id = ANY(m.loser_ids)
+    ),
+    notes = jsonb_build_object(
+      'threads', (
+        SELECT coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb)
+        FROM lead_threads t WHERE t.lead_id = ANY(all_ids)
+      ),
+      'comments', (
+        SELECT coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb)
+        FROM lead_comments c WHERE c.lead_id = ANY(all_ids)
+      )
+    ),
+    undone_at = NULL
+  WHERE id = merge;
+
+  PERFORM set_lead_columns(m.survivor_id, m.field_values);
+
+  INSERT INTO lead_outreach_methods (lead_id, method, status)
+  SELECT m.survivor_id, method, status
+  FROM lead_outreach_methods
+  WHERE lead_id = ANY(m.loser_ids)
+  ON CONFLICT (lead_id, method) DO NOTHING;
+
+  UPDATE outreach_events SET lead_id = m.survivor_id WHERE lead_id = ANY(m.loser_ids);
+
+  -- Threads on the same cell are combined into the survivor's, or else the oldest one
+  UPDATE lead_comments c
+  SET thread_id = k.keeper, lead_id = m.survivor_id
+  FROM (
+    SELECT t.id, first_value(t.id) OVER (
+      PARTITION BY coalesce(t.field_key, '')
+      ORDER BY (t.lead_id = m.survivor_id) DESC, t.created_at
+    ) AS keeper
+    FROM lead_threads t
+    WHERE t.lead_id = ANY(all_ids)
+  ) k
+  WHERE c.thread_id = k.id AND c.lead_id = ANY(m.loser_ids);
+
+  DELETE FROM lead_threads t
+  WHERE t.lead_id = ANY(m.loser_ids)
+    AND NOT EXISTS (SELECT 1 FROM lead_comments c WHERE c.thread_id = t.id);
+
+  UPDATE lead_threads SET lead_id = m.survivor_id WHERE lead_id = ANY(m.loser_ids);
+
+  DELETE FROM leads WHERE id = ANY(m.loser_ids);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION undo_lead_merge(merge uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  m lead_merges%ROWTYPE;
+  restore jsonb;
+  skipped integer;
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only admins and reps can undo merges';
+  END IF;
+
+  SELECT * INTO m FROM lead_merges WHERE id = merge FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % not found', merge;
+  END IF;
+  IF m.undone_at IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO leads
+  SELECT * FROM jsonb_populate_recordset(NULL::leads, m.loser_rows)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- Only fields the merge changed go back, and only where they still hold the merged value;
+  -- anything edited since is left alone and counted as skipped
+  SELECT
+    coalesce(jsonb_object_agg(f.key, m.survivor_row->f.key) FILTER (WHERE f.untouched), '{}'::jsonb),
+    count(*) FILTER (WHERE NOT f.untouched)
+  INTO restore, skipped
+  FROM (
+    SELECT v.key, coalesce(to_jsonb(l)->>v.key, '') = coalesce(v.value #>> '{}', '') AS untouched
+    FROM leads l, jsonb_each(m.field_values) v
+    WHERE l.id = m.survivor_id
+      AND to_jsonb(l) ? v.key
+      AND coalesce(m.survivor_row->>v.key, '') <> coalesce(v.value #>> '{}', '')
+  ) f;
+
+  PERFORM set_lead_columns(m.survivor_id, restore);
+
+  UPDATE outreach_events e
+  SET lead_id = (moved->>'lead_id')::uuid
+  FROM jsonb_array_elements(m.events) AS moved
+  WHERE e.id = (moved->>'id')::uuid;
+
+  -- Restoring rows fires the primary-channel trigger, so reset the restored leads' memberships last
+  DELETE FROM lead_outreach_methods WHERE lead_id = ANY(m.loser_ids);
+  INSERT INTO lead_outreach_methods
+  SELECT * FROM jsonb_populate_recordset(NULL::lead_outreach_methods, m.memberships) s
+  WHERE s.lead_id = ANY(m.loser_ids)
+  ON CONFLICT (lead_id, method) DO NOTHING;
+
+  -- The survivor only loses channels the merge gave it, and only while their status is still
+  -- the one they came with; a status set since keeps the channel and counts as skipped. Its
+  -- primary channel and channels added after the merge stay.
+  WITH snapshot AS (
+    SELECT * FROM jsonb_populate_recordset(NULL::lead_outreach_methods, m.memberships)
+  ),
+  added AS (
+    SELECT o.method, bool_or(o.status IS NULL OR o.status IS NOT DISTINCT FROM s.status) AS untouched
+    FROM lead_outreach_methods o
+    JOIN snapshot s ON s.method = o.method AND s.lead_id = ANY(m.loser_ids)
+    WHERE o.lead_id = m.survivor_id
+      AND o.method IS DISTINCT FROM (SELECT outreach_method FROM leads WHERE id = m.survivor_id)
+      AND NOT EXISTS (SELECT 1 FROM snapshot k WHERE k.lead_id = m.survivor_id AND k.method = o.method)
+    GROUP BY o.method
+  ),
+  removed AS (
+    DELETE FROM lead_outreach_methods o
+    USING added a
+    WHERE o.lead_id = m.survivor_id AND o.method = a.method AND a.untouched
+  )
+  SELECT skipped + count(*) FILTER (WHERE NOT a.untouched) INTO skipped FROM added a;
+
+  -- Threads and comments are moved back rather than re-inserted, so comments keep their
+  -- authors and anything written since the merge stays. Merges recorded before comments
+  -- existed hold a plain array of cell notes; those are left as they are.
+  IF jsonb_typeof(m.notes) = 'object' THEN
+    UPDATE lead_threads t
+    SET lead_id = s.lead_id, resolved_at = s.resolved_at, resolved_by = s.resolved_by
+    FROM jsonb_populate_recordset(NULL::lead_threads, m.notes->'threads') s
+    WHERE t.id = s.id;
+
+    INSERT INTO lead_threads
+    SELECT * FROM jsonb_populate_recordset(NULL::lead_threads, m.notes->'threads')
+    ON CONFLICT DO NOTHING;
+
+    UPDATE lead_comments c
+    SET thread_id = s.thread_id, lead_id = s.lead_id
+    FROM jsonb_populate_recordset(NULL::lead_comments, m.notes->'comments') s
+    WHERE c.id = s.id;
+  END IF;
+
+  UPDATE lead_merges SET undone_at = now() WHERE id = merge;
+  RETURN skipped;
+END;
+$$;
+
+ALTER TABLE lead_threads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view lead_threads" ON lead_threads;
+CREATE POLICY "Team can view lead_threads" ON lead_threads FOR SELECT TO authenticated USING (is_member());
+DROP POLICY IF EXISTS "Editors can insert lead_threads" ON lead_threads;
+CREATE POLICY "Editors can insert lead_threads" ON lead_threads FOR INSERT TO authenticated WITH CHECK (can_edit());
+DROP POLICY IF EXISTS "Editors can update lead_threads" ON lead_threads;
+CREATE POLICY "Editors can update lead_threads" ON lead_threads FOR UPDATE TO authenticated USING (can_edit()) WITH CHECK (can_edit());
+DROP POLICY IF EXISTS "Editors can delete lead_threads" ON lead_threads;
+CREATE POLICY "Editors can delete lead_threads" ON lead_threads FOR DELETE TO authenticated USING (can_edit());
+
+ALTER TABLE lead_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view lead_comments" ON lead_comments;
+CREATE POLICY "Team can view lead_comments" ON lead_comments FOR SELECT TO authenticated USING (is_member());
+DROP POLICY IF EXISTS "Editors can add their own lead_comments" ON lead_comments;
+CREATE POLICY "Editors can add their own lead_comments"
+  ON lead_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit() AND author = auth.uid());
+-- Editors can move comments between threads (merges); the edit trigger keeps the text to its author
+DROP POLICY IF EXISTS "Editors can update lead_comments" ON lead_comments;
+CREATE POLICY "Editors can update lead_comments" ON lead_comments FOR UPDATE TO authenticated USING (can_edit()) WITH CHECK (can_edit());
+DROP POLICY IF EXISTS "Authors and admins can delete lead_comments" ON lead_comments;
+CREATE POLICY "Authors and admins can delete lead_comments"
+  ON lead_comments FOR DELETE
+  TO authenticated
+  USING (author = auth.uid() OR is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'lead_threads'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE lead_threads;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'lead_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE lead_comments;
+  END IF;
+END $$;
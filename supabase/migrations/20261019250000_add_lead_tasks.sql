@@ -0,0 +1,353 @@
+/*
+  # Follow-up tasks on leads
+
+  ## Overview
+  Leads can carry follow-up tasks ("call back Tuesday", "send proposal") with a due
+  date, an assignee and a done state. Each lead's earliest open due date is kept in
+  `leads.next_follow_up`, which shows as a read-only "Next Follow-up" date column in
+  every grid and can be sorted, filtered and exported like any other field.
+
+  ## New Tables
+
+  ### `lead_tasks`
+  - `id` (uuid, primary key)
+  - `lead_id` (uuid) - references leads, deleted with the lead
+  - `title` (text)
+  - `due_date` (date)
+  - `assignee_id` (uuid, nullable) - profile responsible for it; cleared when the user is removed
+  - `done_at` (timestamptz, nullable) / `done_by` (uuid, nullable) - set once the task is done
+  - `created_by` (uuid) - profile that added it
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `refresh_lead_next_follow_up()` trigger recomputes `next_follow_up` for the leads a task
+    change touches
+  - `keep_lead_next_follow_up()` trigger ignores direct writes to `next_follow_up`, so grid
+    edits, pastes and merges can't overwrite it
+
+  ## Changes
+  - `next_follow_up` (date) on leads and temp_leads, registered as the built-in field
+    "Next Follow-up"; `guard_lead_field_change` treats it as built-in
+  - `lead_merges.tasks` holds `{id, lead_id}` of every task moved to the survivor;
+    `apply_lead_merge` / `undo_lead_merge` move tasks along with outreach events
+
+  ## Security
+  - Approved users read tasks; admins and reps add, edit, complete and delete them
+*/
+
+CREATE TABLE IF NOT EXISTS lead_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id uuid NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (trim(title) <> ''),
+  due_date date NOT NULL,
+  assignee_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  done_at timestamptz,
+  done_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_lead ON lead_tasks(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_open_due ON lead_tasks(due_date) WHERE done_at IS NULL;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS next_follow_up date;
+ALTER TABLE temp_leads ADD COLUMN IF NOT EXISTS next_follow_up date;
+
+INSERT INTO lead_fields (field_key, label, type)
+VALUES ('next_follow_up', 'Next Follow-up', 'date')
+ON CONFLICT (field_key) DO NOTHING;
+
+ALTER TABLE lead_merges ADD COLUMN IF NOT EXISTS tasks jsonb;
+
+-- Writes from the task trigger below run one trigger level deeper and pass through
+CREATE OR REPLACE FUNCTION keep_lead_next_follow_up()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_trigger_depth() < 2 THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.next_follow_up := (
+        SELECT min(due_date) FROM lead_tasks WHERE lead_id = NEW.id AND done_at IS NULL
+      );
+    ELSE
+      NEW.next_follow_up := OLD.next_follow_up;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_lead_next_follow_up ON leads;
+CREATE TRIGGER keep_lead_next_follow_up
+  BEFORE INSERT OR UPDATE ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_lead_next_follow_up();
+
+CREATE OR REPLACE FUNCTION refresh_lead_next_follow_up()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  touched uuid[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    touched := ARRAY[NEW.lead_id];
+  ELSIF TG_OP = 'DELETE' THEN
+    touched := ARRAY[OLD.lead_id];
+  ELSE
+    touched := ARRAY[NEW.lead_id, OLD.lead_id];
+  END IF;
+
+  UPDATE leads l
+  SET next_follow_up = (
+    SELECT min(t.due_date) FROM lead_tasks t WHERE t.lead_id = l.id AND t.done_at IS NULL
+  )
+  WHERE l.id = ANY(touched)
+    AND l.next_follow_up IS DISTINCT FROM (
+      SELECT min(t.due_date) FROM lead_tasks t WHERE t.lead_id = l.id AND t.done_at IS NULL
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_lead_next_follow_up ON lead_tasks;
+CREATE TRIGGER refresh_lead_next_follow_up
+  AFTER INSERT OR UPDATE OR DELETE ON lead_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_lead_next_follow_up();
+
+CREATE OR REPLACE FUNCTION guard_lead_field_change(target_key text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change fields';
+  END IF;
+
+  IF target_key IN (
+    'name', 'email', 'phone', 'website', 'outreach_method', 'pipeline_status', 'owner_id', 'date_added',
+    'next_follow_up'
+  ) THEN
+    RAISE EXCEPTION '% is a built-in field and cannot be changed this way', target_key;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM lead_fields WHERE field_key = target_key) THEN
+    RAISE EXCEPTION 'Field % not found', target_key;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_lead_merge(merge uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  m lead_merges%ROWTYPE;
+  all_ids uuid[];
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only admins and reps can merge leads';
+  END IF;
+
+  SELECT * INTO m FROM lead_merges WHERE id = merge FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % not found', merge;
+  END IF;
+
+  all_ids := m.survivor_id || m.loser_ids;
+  IF (SELECT count(*) FROM leads WHERE id = ANY(all_ids)) <> cardinality(all_ids) THEN
+    RAISE EXCEPTION 'Some of these leads no longer exist';
+  END IF;
+
+  UPDATE lead_merges SET
+    survivor_row = (SELECT to_jsonb(l) FROM leads l WHERE l.id = m.survivor_id),
+    loser_rows = (SELECT jsonb_agg(to_jsonb(l)) FROM leads l WHERE l.id = ANY(m.loser_ids)),
+    memberships = (
+      SELECT coalesce(jsonb_agg(to_jsonb(o)), '[]'::jsonb)
+      FROM lead_outreach_methods o WHERE o.lead_id = ANY(all_ids)
+    ),
+    events = (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('id', e.id, 'lead_id', e.lead_id)), '[]'::jsonb)
+      FROM outreach_events e WHERE e.lead_id = ANY(m.loser_ids)
+    ),
+    tasks = (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'lead_id', t.lead_id)), '[]'::jsonb)
+      FROM lead_tasks t WHERE t.lead_id = ANY(m.loser_ids)
+    ),
+    notes = jsonb_build_object(
+      'threads', (
+        SELECT coalesce(jsonb_agg(to_jsonb(t)), '[]'::jsonb)
+        FROM lead_threads t WHERE t.lead_id = ANY(all_ids)
+      ),
+      'comments', (
+        SELECT coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb)
+        FROM lead_comments c WHERE c.lead_id = ANY(all_ids)
+      )
+    ),
+    undone_at = NULL
+  WHERE id = merge;
+
+  PERFORM set_lead_columns(m.survivor_id, m.field_values);
+
+  INSERT INTO lead_outreach_methods (lead_id, method, status)
+  SELECT m.survivor_id, method, status
+  FROM lead_outreach_methods
+  WHERE lead_id = ANY(m.loser_ids)
+  ON CONFLICT (lead_id, method) DO NOTHING;
+
+  UPDATE outreach_events SET lead_id = m.survivor_id WHERE lead_id = ANY(m.loser_ids);
+  UPDATE lead_tasks SET lead_id = m.survivor_id WHERE lead_id = ANY(m.loser_ids);
+
+  -- Threads on the same cell are combined into the survivor's, or else the oldest one
+  UPDATE lead_comments c
+  SET thread_id = k.keeper, lead_id = m.survivor_id
+  FROM (
+    SELECT t.id, first_value(t.id) OVER (
+      PARTITION BY coalesce(t.field_key, '')
+      ORDER BY (t.lead_id = m.survivor_id) DESC, t.created_at
+    ) AS keeper
+    FROM lead_threads t
+    WHERE t.lead_id = ANY(all_ids)
+  ) k
+  WHERE c.thread_id = k.id AND c.lead_id = ANY(m.loser_ids);
+
+  DELETE FROM lead_threads t
+  WHERE t.lead_id = ANY(m.loser_ids)
+    AND NOT EXISTS (SELECT 1 FROM lead_comments c WHERE c.thread_id = t.id);
+
+  UPDATE lead_threads SET lead_id = m.survivor_id WHERE lead_id = ANY(m.loser_ids);
+
+  DELETE FROM leads WHERE id = ANY(m.loser_ids);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION undo_lead_merge(merge uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  m lead_merges%ROWTYPE;
+  restore jsonb;
+  skipped integer;
+BEGIN
+  IF NOT can_edit() THEN
+    RAISE EXCEPTION 'Only admins and reps can undo merges';
+  END IF;
+
+  SELECT * INTO m FROM lead_merges WHERE id = merge FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % not found', merge;
+  END IF;
+  IF m.undone_at IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO leads
+  SELECT * FROM jsonb_populate_recordset(NULL::leads, m.loser_rows)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- Only fields the merge changed go back, and only where they still hold the merged value;
+  -- anything edited since is left alone and counted as skipped
+  SELECT
+    coalesce(jsonb_object_agg(f.key, m.survivor_row->f.key) FILTER (WHERE f.untouched), '{}'::jsonb),
+    count(*) FILTER (WHERE NOT f.untouched)
+  INTO restore, skipped
+  FROM (
+    SELECT v.key, coalesce(to_jsonb(l)->>v.key, '') = coalesce(v.value #>> '{}', '') AS untouched
+    FROM leads l, jsonb_each(m.field_values) v
+    WHERE l.id = m.survivor_id
+      AND to_jsonb(l) ? v.key
+      AND coalesce(m.survivor_row->>v.key, '') <> coalesce(v.value #>> '{}', '')
+  ) f;
+
+  PERFORM set_lead_columns(m.survivor_id, restore);
+
+  UPDATE outreach_events e
+  SET lead_id = (moved->>'lead_id')::uuid
+  FROM jsonb_array_elements(m.events) AS moved
+  WHERE e.id = (moved->>'id')::uuid;
+
+  -- Merges recorded before tasks existed have none to move back
+  UPDATE lead_tasks t
+  SET lead_id = (moved->>'lead_id')::uuid
+  FROM jsonb_array_elements(coalesce(m.tasks, '[]'::jsonb)) AS moved
+  WHERE t.id = (moved->>'id')::uuid;
+
+  -- Restoring rows fires the primary-channel trigger, so reset the restored leads' memberships last
+  DELETE FROM lead_outreach_methods WHERE lead_id = ANY(m.loser_ids);
+  INSERT INTO lead_outreach_methods
+  SELECT * FROM jsonb_populate_recordset(NULL::lead_outreach_methods, m.memberships) s
+  WHERE s.lead_id = ANY(m.loser_ids)
+  ON CONFLICT (lead_id, method) DO NOTHING;
+
+  -- The survivor only loses channels the merge gave it, and only while their status is still
+  -- the one they came with; a status set since keeps the channel and counts as skipped. Its
+  -- primary channel and channels added after the merge stay.
+  WITH snapshot AS (
+    SELECT * FROM jsonb_populate_recordset(NULL::lead_outreach_methods, m.memberships)
+  ),
+  added AS (
+    SELECT o.method, bool_or(o.status IS NULL OR o.status IS NOT DISTINCT FROM s.status) AS untouched
+    FROM lead_outreach_methods o
+    JOIN snapshot s ON s.method = o.method AND s.lead_id = ANY(m.loser_ids)
+    WHERE o.lead_id = m.survivor_id
+      AND o.method IS DISTINCT FROM (SELECT outreach_method FROM leads WHERE id = m.survivor_id)
+      AND NOT EXISTS (SELECT 1 FROM snapshot k WHERE k.lead_id = m.survivor_id AND k.method = o.method)
+    GROUP BY o.method
+  ),
+  removed AS (
+    DELETE FROM lead_outreach_methods o
+    USING added a
+    WHERE o.lead_id = m.survivor_id AND o.method = a.method AND a.untouched
+  )
+  SELECT skipped + count(*) FILTER (WHERE NOT a.untouched) INTO skipped FROM added a;
+
+  -- Threads and comments are moved back rather than re-inserted, so comments keep their
+  -- authors and anything written since the merge stays. Merges recorded before comments
+  -- existed hold a plain array of cell notes; those are left as they are.
+  IF jsonb_typeof(m.notes) = 'object' THEN
+    UPDATE lead_threads t
+    SET lead_id = s.lead_id, resolved_at = s.resolved_at, resolved_by = s.resolved_by
+    FROM jsonb_populate_recordset(NULL::lead_threads, m.notes->'threads') s
+    WHERE t.id = s.id;
+
+    INSERT INTO lead_threads
+    SELECT * FROM jsonb_populate_recordset(NULL::lead_threads, m.notes->'threads')
+    ON CONFLICT DO NOTHING;
+
+    UPDATE lead_comments c
+    SET thread_id = s.thread_id, lead_id = s.lead_id
+    FROM jsonb_populate_recordset(NULL::lead_comments, m.notes->'comments') s
+    WHERE c.id = s.id;
+  END IF;
+
+  UPDATE lead_merges SET undone_at = now() WHERE id = merge;
+  RETURN skipped;
+END;
+$$;
+
+ALTER TABLE lead_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view lead_tasks" ON lead_tasks;
+CREATE POLICY "Team can view lead_tasks" ON lead_tasks FOR SELECT TO authenticated USING (is_member());
+DROP POLICY IF EXISTS "Editors can insert lead_tasks" ON lead_tasks;
+CREATE POLICY "Editors can insert lead_tasks" ON lead_tasks FOR INSERT TO authenticated WITH CHECK (can_edit());
+DROP POLICY IF EXISTS "Editors can update lead_tasks" ON lead_tasks;
+CREATE POLICY "Editors can update lead_tasks" ON lead_tasks FOR UPDATE TO authenticated USING (can_edit()) WITH CHECK (can_edit());
+DROP POLICY IF EXISTS "Editors can delete lead_tasks" ON lead_tasks;
+CREATE POLICY "Editors can delete lead_tasks" ON lead_tasks FOR DELETE TO authenticated USING (can_edit());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'lead_tasks'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE lead_tasks;
+  END IF;
+END $$;
@@ -0,0 +1,61 @@
+/*
+  # Outreach message templates
+
+  ## Overview
+  A shared library of outreach messages per channel. Subjects and bodies use
+  `{{field_key}}` placeholders for any lead field; outreach tabs fill them in for the
+  selected leads to preview, copy or export as a mail-merge CSV.
+
+  ## New Tables
+
+  ### `message_templates`
+  - `id` (uuid, primary key)
+  - `method` (text) - references outreach_methods.key, cascades on delete and rename
+  - `name` (text) - unique per channel
+  - `subject` (text, nullable) - subject line, for channels that have one
+  - `body` (text) - message text
+  - `created_by` (uuid, nullable) - profile that wrote it
+  - `created_at` / `updated_at` (timestamptz)
+
+  ## Security
+  - Approved users read templates; admins and reps write them
+*/
+
+CREATE TABLE IF NOT EXISTS message_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  method text NOT NULL REFERENCES outreach_methods(key) ON DELETE CASCADE ON UPDATE CASCADE,
+  name text NOT NULL CHECK (trim(name) <> ''),
+  subject text,
+  body text NOT NULL DEFAULT '',
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (method, name)
+);
+
+DROP TRIGGER IF EXISTS update_message_templates_updated_at ON message_templates;
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can view message_templates" ON message_templates;
+CREATE POLICY "Team can view message_templates" ON message_templates FOR SELECT TO authenticated USING (is_member());
+DROP POLICY IF EXISTS "Editors can insert message_templates" ON message_templates;
+CREATE POLICY "Editors can insert message_templates" ON message_templates FOR INSERT TO authenticated WITH CHECK (can_edit());
+DROP POLICY IF EXISTS "Editors can update message_templates" ON message_templates;
+CREATE POLICY "Editors can update message_templates" ON message_templates FOR UPDATE TO authenticated USING (can_edit()) WITH CHECK (can_edit());
+DROP POLICY IF EXISTS "Editors can delete message_templates" ON message_templates;
+CREATE POLICY "Editors can delete message_templates" ON message_templates FOR DELETE TO authenticated USING (can_edit());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'message_templates'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE message_templates;
+  END IF;
+END $$;